@@ -1,9 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ReaderView } from './components/ReaderView';
+import { ReadingStats } from './components/ReadingStats';
+import { BookLabelsEditor } from './components/BookLabelsEditor';
 import { parseEpub } from './services/epubParser';
+import { indexBookFile } from './services/bookSearch';
 import { ParsedBook, LibraryBook } from './types';
-import { db } from './services/db';
-import { Plus, BookOpen, Trash2, Loader2, Upload } from 'lucide-react';
+import { db, BookTranslationJob, ReadingProgress } from './services/db';
+import { translationQueue } from './services/translationQueue';
+import { filterBooks, getLabels, LIBRARY_SORTS, LibrarySort, sortBooks } from './services/library';
+import { Plus, BookOpen, Trash2, Loader2, Upload, Languages, BarChart3, Search, LayoutGrid, LayoutList, Tag, X } from 'lucide-react';
+
+interface LibraryViewSettings {
+  sort: LibrarySort;
+  layout: 'grid' | 'list';
+}
+
+const DEFAULT_VIEW_SETTINGS: LibraryViewSettings = { sort: 'added', layout: 'grid' };
 
 const App: React.FC = () => {
   // View State
@@ -11,10 +23,21 @@ const App: React.FC = () => {
   
   // Data State
   const [library, setLibrary] = useState<LibraryBook[]>([]);
+  const [jobs, setJobs] = useState<Record<string, BookTranslationJob>>({});
+  const [progress, setProgress] = useState<Record<string, ReadingProgress>>({});
   const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
   const [activeBook, setActiveBook] = useState<ParsedBook | null>(null);
   const [activeBookBlob, setActiveBookBlob] = useState<Blob | null>(null);
-  
+
+  // Library Filter State
+  const [query, setQuery] = useState('');
+  const [shelf, setShelf] = useState<string | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+  const [viewSettings, setViewSettings] = useState<LibraryViewSettings>(() => {
+    const saved = localStorage.getItem('lingo-library-view');
+    return saved ? { ...DEFAULT_VIEW_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VIEW_SETTINGS;
+  });
+
   // Loading State
   const [isLoadingLibrary, setIsLoadingLibrary] = useState(true);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
@@ -24,19 +47,63 @@ const App: React.FC = () => {
   // Delete Modal State
   const [bookToDelete, setBookToDelete] = useState<{id: string, title: string} | null>(null);
 
+  // Reading Statistics Modal State
+  const [statsBook, setStatsBook] = useState<{id: string, title: string} | null>(null);
+
+  // Shelves & Tags Modal State
+  const [bookToLabel, setBookToLabel] = useState<LibraryBook | null>(null);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const shelves = getLabels(library, 'shelves');
+  const tags = getLabels(library, 'tags');
+  // A shelf or tag taken off its last book is no longer a filter
+  const activeShelf = shelf && shelves.includes(shelf) ? shelf : undefined;
+  const activeTag = tag && tags.includes(tag) ? tag : undefined;
+  const percentages = Object.fromEntries(library.map(book => [book.id, progress[book.id]?.percentage]));
+  const visibleBooks = sortBooks(filterBooks(library, { query, shelf: activeShelf, tag: activeTag }), viewSettings.sort, percentages);
+
+  const clearFilters = () => {
+    setQuery('');
+    setShelf(null);
+    setTag(null);
+  };
+
   // Initial Load
   useEffect(() => {
     refreshLibrary();
+    // Pick up whole-book translations interrupted by a reload
+    translationQueue.resumePending().catch(e => console.error("Failed to resume translation jobs", e));
   }, []);
 
+  // Track background translation jobs for the library badges
+  useEffect(() => {
+    db.getJobs()
+      .then(list => setJobs(Object.fromEntries(list.map(job => [job.bookId, job]))))
+      .catch(console.error);
+
+    const unsubscribers = library.map(book => 
+      translationQueue.subscribe(book.id, job => setJobs(prev => ({ ...prev, [job.bookId]: job })))
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [library]);
+
+  // Reading progress changes while a book is open; reload it on coming back
+  useEffect(() => {
+    if (currentView !== 'library') return;
+    db.getAllProgress()
+      .then(list => setProgress(Object.fromEntries(list.map(p => [p.bookId, p]))))
+      .catch(console.error);
+  }, [currentView]);
+
+  useEffect(() => {
+    localStorage.setItem('lingo-library-view', JSON.stringify(viewSettings));
+  }, [viewSettings]);
+
   const refreshLibrary = async () => {
     setIsLoadingLibrary(true);
     try {
-      const books = await db.getBooks();
-      // Sort by added date descending
-      setLibrary(books.sort((a, b) => b.addedAt - a.addedAt));
+      setLibrary(await db.getBooks());
     } catch (e) {
       console.error("Failed to load library", e);
       setError("Failed to load your library.");
@@ -71,10 +138,15 @@ const App: React.FC = () => {
         author: parsed.metadata.creator,
         cover: coverBlob,
         addedAt: Date.now(),
+        // Books added while a shelf is shown go on it
+        shelves: activeShelf ? [activeShelf] : [],
+        tags: []
       };
 
       // Store in DB
       await db.addBook(newBook, file);
+      // Index for search in the background; searching builds whatever is missing
+      indexBookFile(newBook.id, file, parsed.chapters).catch(e => console.warn("Could not index book for search", e));
       
       // Update UI
       await refreshLibrary();
@@ -103,6 +175,9 @@ const App: React.FC = () => {
       setActiveBookBlob(fileBlob);
       setSelectedBookId(bookId);
       setCurrentView('reader');
+
+      const opened = library.find(b => b.id === bookId);
+      if (opened) saveBook({ ...opened, lastOpenedAt: Date.now() });
     } catch (err) {
       console.error(err);
       setError("Failed to open book. The file might be corrupted.");
@@ -111,11 +186,20 @@ const App: React.FC = () => {
     }
   };
 
+  const saveBook = (book: LibraryBook) => {
+    setLibrary(prev => prev.map(b => b.id === book.id ? book : b));
+    db.updateBook(book).catch(e => {
+      console.error("Failed to save book", e);
+      setError("Could not save the changes to the book.");
+    });
+  };
+
   const confirmDelete = async () => {
     if (!bookToDelete) return;
     
     try {
       setError(null);
+      await translationQueue.cancel(bookToDelete.id);
       await db.deleteBook(bookToDelete.id);
       await refreshLibrary();
     } catch (err) {
@@ -133,6 +217,42 @@ const App: React.FC = () => {
     setCurrentView('library');
   };
 
+  // Statistics, shelves & tags and delete, for grid cards and list rows
+  const renderBookActions = (book: LibraryBook) => (
+    <>
+      <button 
+        onClick={(e) => {
+           e.stopPropagation();
+           setStatsBook({ id: book.id, title: book.title });
+        }}
+        className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+        title="Reading Statistics"
+      >
+        <BarChart3 size={16} />
+      </button>
+      <button 
+        onClick={(e) => {
+           e.stopPropagation();
+           setBookToLabel(book);
+        }}
+        className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+        title="Shelves & Tags"
+      >
+        <Tag size={16} />
+      </button>
+      <button 
+        onClick={(e) => {
+           e.stopPropagation();
+           setBookToDelete({ id: book.id, title: book.title });
+        }}
+        className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+        title="Delete Book"
+      >
+        <Trash2 size={16} />
+      </button>
+    </>
+  );
+
   if (currentView === 'reader' && activeBook && activeBookBlob && selectedBookId) {
     return (
       <ReaderView 
@@ -171,7 +291,7 @@ const App: React.FC = () => {
         />
       </div>
 
-      {/* Library Grid */}
+      {/* Library */}
       <main className="max-w-6xl mx-auto p-6 md:p-8">
         
         {error && (
@@ -180,6 +300,74 @@ const App: React.FC = () => {
             </div>
         )}
 
+        {!isLoadingLibrary && library.length > 0 && (
+          <div className="mb-6 space-y-3">
+            {/* Filter, Sort & View */}
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative flex-1 min-w-[12rem]">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="Filter by title or author"
+                  className="w-full pl-9 pr-8 py-2 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:border-blue-400"
+                />
+                {query && (
+                  <button onClick={() => setQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-slate-600" title="Clear">
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+              {tags.length > 0 && (
+                <select
+                  value={activeTag || ''}
+                  onChange={e => setTag(e.target.value || null)}
+                  className="py-2 px-2 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:border-blue-400"
+                  title="Tag"
+                >
+                  <option value="">All tags</option>
+                  {tags.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              )}
+              <select
+                value={viewSettings.sort}
+                onChange={e => setViewSettings(prev => ({ ...prev, sort: e.target.value as LibrarySort }))}
+                className="py-2 px-2 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:border-blue-400"
+                title="Sort by"
+              >
+                {LIBRARY_SORTS.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+              </select>
+              <div className="flex bg-white border border-slate-200 rounded-lg p-0.5">
+                {(['grid', 'list'] as const).map(layout => (
+                  <button
+                    key={layout}
+                    onClick={() => setViewSettings(prev => ({ ...prev, layout }))}
+                    className={`p-1.5 rounded-md transition-colors ${viewSettings.layout === layout ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:text-slate-600'}`}
+                    title={layout === 'grid' ? 'Grid' : 'List'}
+                  >
+                    {layout === 'grid' ? <LayoutGrid size={16} /> : <LayoutList size={16} />}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Shelves */}
+            {shelves.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {[undefined, ...shelves].map(s => (
+                  <button
+                    key={s || ''}
+                    onClick={() => setShelf(s || null)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${activeShelf === s ? 'bg-blue-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:border-blue-300'}`}
+                  >
+                    {s || 'All books'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {isLoadingLibrary ? (
            <div className="flex flex-col items-center justify-center h-64 text-slate-400">
              <Loader2 className="w-10 h-10 animate-spin mb-4" />
@@ -201,9 +389,67 @@ const App: React.FC = () => {
                 Upload your first book
               </button>
            </div>
+        ) : visibleBooks.length === 0 ? (
+           <div className="flex flex-col items-center justify-center h-48 text-center text-slate-500">
+              <p className="mb-2">No books match.</p>
+              <button onClick={clearFilters} className="text-blue-600 font-medium hover:underline">
+                Show all books
+              </button>
+           </div>
+        ) : viewSettings.layout === 'list' ? (
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+             {visibleBooks.map((book) => (
+               <div 
+                 key={book.id} 
+                 className="group flex items-center gap-4 p-3 hover:bg-slate-50 transition-colors cursor-pointer"
+                 onClick={() => openBook(book.id)}
+               >
+                  <div className="w-10 h-14 flex-shrink-0 bg-slate-100 rounded overflow-hidden relative">
+                    <BookCover book={book} iconSize={20} />
+                    {isOpeningBook && selectedBookId === book.id && (
+                       <div className="absolute inset-0 bg-white/80 flex items-center justify-center">
+                         <Loader2 size={16} className="text-blue-600 animate-spin" />
+                       </div>
+                    )}
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-slate-800 truncate" title={book.title}>{book.title}</h3>
+                    <p className="text-sm text-slate-500 truncate">{book.author}</p>
+                  </div>
+
+                  <div className="hidden lg:flex flex-wrap gap-1 w-48 justify-end">
+                    {book.tags.map(t => (
+                      <span key={t} className="text-[10px] bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">{t}</span>
+                    ))}
+                  </div>
+
+                  <div className="hidden sm:flex items-center gap-2 w-32 text-xs text-slate-400">
+                    {jobs[book.id]?.status === 'running' ? (
+                      <span className="flex items-center gap-1 text-blue-600"><Languages size={12} /> Translating</span>
+                    ) : progress[book.id]?.percentage !== undefined ? (
+                      <>
+                        <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-600" style={{ width: `${progress[book.id].percentage}%` }} />
+                        </div>
+                        <span className="w-8 text-right">{Math.floor(progress[book.id].percentage!)}%</span>
+                      </>
+                    ) : null}
+                  </div>
+
+                  <span className="hidden md:block w-24 text-xs text-slate-400 text-right" title="Last opened">
+                    {book.lastOpenedAt ? new Date(book.lastOpenedAt).toLocaleDateString() : 'Not opened'}
+                  </span>
+
+                  <div className="flex items-center">
+                    {renderBookActions(book)}
+                  </div>
+               </div>
+             ))}
+          </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-             {library.map((book) => (
+             {visibleBooks.map((book) => (
                <div 
                  key={book.id} 
                  className="group bg-white rounded-xl border border-slate-200 shadow-sm hover:shadow-md hover:border-blue-300 transition-all cursor-pointer flex flex-col overflow-hidden relative"
@@ -211,19 +457,25 @@ const App: React.FC = () => {
                >
                   {/* Cover */}
                   <div className="aspect-[2/3] bg-slate-100 relative overflow-hidden">
-                    {book.cover ? (
-                      <img 
-                        src={URL.createObjectURL(book.cover)} 
-                        alt={`Cover for ${book.title}`}
-                        className="w-full h-full object-cover transition-transform group-hover:scale-105"
-                        onLoad={(e) => URL.revokeObjectURL((e.target as HTMLImageElement).src)}
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center text-slate-300 bg-slate-100">
-                        <BookOpen size={48} />
-                      </div>
-                    )}
+                    <BookCover book={book} iconSize={48} />
                     
+                    {jobs[book.id]?.status === 'running' && (
+                       <div className="absolute top-2 left-2 bg-blue-600/90 text-white text-[10px] font-medium px-2 py-1 rounded-full flex items-center gap-1 shadow-sm">
+                         <Languages size={12} /> Translating
+                       </div>
+                    )}
+                    {jobs[book.id]?.status === 'incomplete' && (
+                       <div className="absolute top-2 left-2 bg-amber-500/90 text-white text-[10px] font-medium px-2 py-1 rounded-full flex items-center gap-1 shadow-sm" title={jobs[book.id].error}>
+                         <Languages size={12} /> Partly translated
+                       </div>
+                    )}
+
+                    {progress[book.id]?.percentage !== undefined && (
+                       <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/10" title={`${Math.floor(progress[book.id].percentage!)}% read`}>
+                         <div className="h-full bg-blue-600" style={{ width: `${progress[book.id].percentage}%` }} />
+                       </div>
+                    )}
+
                     {/* Overlay while opening */}
                     {isOpeningBook && selectedBookId === book.id && (
                        <div className="absolute inset-0 bg-white/80 flex items-center justify-center z-10">
@@ -236,18 +488,17 @@ const App: React.FC = () => {
                   <div className="p-4 flex-1 flex flex-col">
                     <h3 className="font-semibold text-slate-800 line-clamp-2 mb-1" title={book.title}>{book.title}</h3>
                     <p className="text-sm text-slate-500 line-clamp-1 mb-3">{book.author}</p>
+                    {book.tags.length > 0 && (
+                      <p className="text-[10px] text-slate-400 line-clamp-1 -mt-2 mb-3">{book.tags.join(' · ')}</p>
+                    )}
                     <div className="mt-auto text-xs text-slate-400 flex justify-between items-center">
-                       <span>{new Date(book.addedAt).toLocaleDateString()}</span>
-                       <button 
-                         onClick={(e) => {
-                            e.stopPropagation();
-                            setBookToDelete({ id: book.id, title: book.title });
-                         }}
-                         className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors -mr-2"
-                         title="Delete Book"
-                       >
-                         <Trash2 size={18} />
-                       </button>
+                       <span>
+                         {new Date(book.addedAt).toLocaleDateString()}
+                         {progress[book.id]?.percentage !== undefined && ` · ${Math.floor(progress[book.id].percentage!)}%`}
+                       </span>
+                       <div className="flex items-center -mr-2">
+                         {renderBookActions(book)}
+                       </div>
                     </div>
                   </div>
                </div>
@@ -256,6 +507,28 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {statsBook && (
+        <ReadingStats
+          bookId={statsBook.id}
+          title={statsBook.title}
+          percentage={progress[statsBook.id]?.percentage}
+          onClose={() => setStatsBook(null)}
+        />
+      )}
+
+      {bookToLabel && (
+        <BookLabelsEditor
+          book={bookToLabel}
+          allShelves={shelves}
+          allTags={tags}
+          onSave={(bookShelves, bookTags) => {
+            saveBook({ ...bookToLabel, shelves: bookShelves, tags: bookTags });
+            setBookToLabel(null);
+          }}
+          onClose={() => setBookToLabel(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {bookToDelete && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -295,6 +568,21 @@ const App: React.FC = () => {
 
 export default App;
 
+function BookCover({ book, iconSize }: { book: LibraryBook; iconSize: number }) {
+  return book.cover ? (
+    <img 
+      src={URL.createObjectURL(book.cover)} 
+      alt={`Cover for ${book.title}`}
+      className="w-full h-full object-cover transition-transform group-hover:scale-105"
+      onLoad={(e) => URL.revokeObjectURL((e.target as HTMLImageElement).src)}
+    />
+  ) : (
+    <div className="w-full h-full flex items-center justify-center text-slate-300 bg-slate-100">
+      <BookOpen size={iconSize} />
+    </div>
+  );
+}
+
 function AlertCircle(props: React.SVGProps<SVGSVGElement>) {
   return (
     <svg
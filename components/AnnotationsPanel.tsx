@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Bookmark, Highlighter, Pencil, StickyNote, Trash2, X } from 'lucide-react';
+import { Annotation, ChapterRef } from '../types';
+import { ANNOTATION_COLORS } from '../services/annotations';
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[];
+  chapters: ChapterRef[];
+  onJump: (annotation: Annotation) => void;
+  onUpdate: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+  onClose: () => void;
+}
+
+type Filter = 'all' | 'highlights' | 'notes' | 'bookmarks';
+
+const FILTERS: { id: Filter; label: string; matches: (a: Annotation) => boolean }[] = [
+  { id: 'all', label: 'All', matches: () => true },
+  { id: 'highlights', label: 'Highlights', matches: a => a.kind === 'highlight' },
+  { id: 'notes', label: 'Notes', matches: a => !!a.note },
+  { id: 'bookmarks', label: 'Bookmarks', matches: a => a.kind === 'bookmark' }
+];
+
+/**
+ * The book's highlights, notes and bookmarks, by chapter in reading order.
+ */
+export const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({ annotations, chapters, onJump, onUpdate, onDelete, onClose }) => {
+  const [filter, setFilter] = useState<Filter>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const matches = FILTERS.find(f => f.id === filter)!.matches;
+  const groups = chapters
+    .map((chapter, index) => ({
+      chapter,
+      index,
+      items: annotations
+        .filter(a => a.chapterHref === chapter.href && matches(a))
+        .sort((a, b) => a.createdAt - b.createdAt)
+    }))
+    .filter(group => group.items.length > 0);
+
+  const startEditing = (annotation: Annotation) => {
+    setEditingId(annotation.id);
+    setDraft(annotation.note || '');
+  };
+
+  const saveNote = (annotation: Annotation) => {
+    onUpdate({ ...annotation, note: draft.trim() || undefined, updatedAt: Date.now() });
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/20 backdrop-blur-[1px] z-40 animate-in fade-in duration-200" onClick={onClose} />
+      <div className="fixed top-0 right-0 bottom-0 w-80 max-w-[85vw] z-50 shadow-2xl bg-white text-slate-800 flex flex-col border-l border-slate-100 animate-in slide-in-from-right duration-300">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+          <h2 className="font-semibold text-lg flex items-center gap-2">
+            <Highlighter size={20} className="text-blue-600" /> Annotations
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-4 py-2 border-b border-slate-100 text-xs">
+          {FILTERS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFilter(f.id)}
+              className={`px-2 py-1 rounded-full ${filter === f.id ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {groups.length === 0 && (
+            <div className="p-8 text-center text-sm text-slate-400">
+              Select text to highlight it or add a note. Bookmark your place from the toolbar.
+            </div>
+          )}
+          {groups.map(({ chapter, index, items }) => (
+            <div key={chapter.href} className="mb-3">
+              <p className="px-2 py-1 text-xs font-semibold text-slate-500 uppercase tracking-wider truncate">
+                {chapter.title || `Chapter ${index + 1}`}
+              </p>
+              {items.map(annotation => {
+                const color = ANNOTATION_COLORS.find(c => c.id === (annotation.color || 'yellow'))!;
+                return (
+                  <div key={annotation.id} className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-50 group">
+                    {annotation.kind === 'bookmark' ? (
+                      <Bookmark size={14} className="mt-1 shrink-0 text-blue-600" />
+                    ) : (
+                      <span className={`mt-1.5 w-2.5 h-2.5 rounded-full shrink-0 ${color.swatch}`} />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <button onClick={() => onJump(annotation)} className="text-left text-sm line-clamp-3 hover:text-blue-600" title="Go to">
+                        {annotation.text}
+                      </button>
+                      {editingId === annotation.id ? (
+                        <form onSubmit={(e) => { e.preventDefault(); saveNote(annotation); }} className="mt-1 space-y-1">
+                          <textarea
+                            autoFocus
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            rows={3}
+                            className="w-full text-xs p-1.5 rounded border border-slate-300 focus:border-blue-500 outline-none resize-y"
+                          />
+                          <div className="flex gap-1">
+                            <button type="submit" className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700">Save</button>
+                            <button type="button" onClick={() => setEditingId(null)} className="px-2 py-1 text-xs rounded text-slate-500 hover:bg-slate-100">Cancel</button>
+                          </div>
+                        </form>
+                      ) : annotation.note && (
+                        <p className="mt-1 text-xs text-slate-500 flex gap-1 whitespace-pre-wrap">
+                          <StickyNote size={12} className="shrink-0 mt-0.5" /> {annotation.note}
+                        </p>
+                      )}
+                      {annotation.kind === 'highlight' && editingId !== annotation.id && (
+                        <div className="mt-1 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {ANNOTATION_COLORS.map(c => (
+                            <button
+                              key={c.id}
+                              onClick={() => onUpdate({ ...annotation, color: c.id, updatedAt: Date.now() })}
+                              className={`w-3.5 h-3.5 rounded-full border ${c.swatch} ${c.id === color.id ? 'border-slate-600' : 'border-black/10'}`}
+                              title={c.label}
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => startEditing(annotation)}
+                        className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                        title={annotation.note ? 'Edit note' : 'Add note'}
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      <button
+                        onClick={() => onDelete(annotation)}
+                        className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
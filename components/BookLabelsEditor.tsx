@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Library, Plus, Tag, X } from 'lucide-react';
+import { LibraryBook } from '../types';
+import { parseLabels } from '../services/library';
+
+interface BookLabelsEditorProps {
+  book: LibraryBook;
+  allShelves: string[];
+  allTags: string[];
+  onSave: (shelves: string[], tags: string[]) => void;
+  onClose: () => void;
+}
+
+interface LabelFieldProps {
+  label: string;
+  icon: React.ReactNode;
+  placeholder: string;
+  values: string[];
+  suggestions: string[]; // Labels used on other books
+  onChange: (values: string[]) => void;
+}
+
+// Chips for the labels given, an input for new ones (comma or Enter adds) and the others in use to pick from
+const LabelField: React.FC<LabelFieldProps> = ({ label, icon, placeholder, values, suggestions, onChange }) => {
+  const [input, setInput] = useState('');
+
+  const add = (text: string) => {
+    onChange(parseLabels([...values, text].join(',')));
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(input);
+    } else if (e.key === 'Backspace' && !input && values.length > 0) {
+      onChange(values.slice(0, -1));
+    }
+  };
+
+  const unused = suggestions.filter(s => !values.includes(s));
+
+  return (
+    <div className="mb-4">
+      <label className="text-xs font-semibold uppercase tracking-wider text-slate-400 flex items-center gap-1 mb-2">
+        {icon} {label}
+      </label>
+      <div className="flex flex-wrap items-center gap-1 p-2 border border-slate-200 rounded-lg focus-within:border-blue-400">
+        {values.map(value => (
+          <span key={value} className="flex items-center gap-1 bg-blue-50 text-blue-700 text-xs px-2 py-1 rounded-full">
+            {value}
+            <button onClick={() => onChange(values.filter(v => v !== value))} className="hover:text-blue-900" title={`Remove ${value}`}>
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && add(input)}
+          placeholder={values.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[8rem] text-sm outline-none py-1"
+        />
+      </div>
+      {unused.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {unused.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => add(suggestion)}
+              className="flex items-center gap-0.5 text-xs text-slate-500 px-2 py-0.5 rounded-full border border-slate-200 hover:border-blue-300 hover:text-blue-600"
+            >
+              <Plus size={10} /> {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Puts a book on shelves and tags it. Shelves are the user's own
+ * collections; both are kept on the book, so they exist while a book uses them.
+ */
+export const BookLabelsEditor: React.FC<BookLabelsEditorProps> = ({ book, allShelves, allTags, onSave, onClose }) => {
+  const [shelves, setShelves] = useState(book.shelves);
+  const [tags, setTags] = useState(book.tags);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-white rounded-xl shadow-2xl p-6 w-full max-w-md border border-slate-100 animate-in zoom-in-95 duration-200">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">Shelves & Tags</h3>
+        <p className="text-sm text-slate-500 truncate mb-4" title={book.title}>{book.title}</p>
+
+        <LabelField
+          label="Shelves"
+          icon={<Library size={12} />}
+          placeholder="e.g. Currently reading"
+          values={shelves}
+          suggestions={allShelves}
+          onChange={setShelves}
+        />
+        <LabelField
+          label="Tags"
+          icon={<Tag size={12} />}
+          placeholder="e.g. classic, B2"
+          values={tags}
+          suggestions={allTags}
+          onChange={setTags}
+        />
+
+        <div className="flex justify-end gap-3 mt-2">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(shelves, tags)}
+            className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { BookA, Plus, Trash2, X } from 'lucide-react';
+import { GlossaryEntry } from '../types';
+
+interface GlossaryPanelProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  onClose: () => void;
+}
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ entries, onChange, onClose }) => {
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const canAdd = source.trim().length > 0 && target.trim().length > 0;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+
+    const entry: GlossaryEntry = {
+      id: crypto.randomUUID(),
+      source: source.trim(),
+      target: target.trim(),
+      notes: notes.trim() || undefined
+    };
+    // One entry per source term: re-adding a term replaces it
+    onChange([...entries.filter(e => e.source.toLowerCase() !== entry.source.toLowerCase()), entry]);
+    setSource('');
+    setTarget('');
+    setNotes('');
+  };
+
+  const updateEntry = (id: string, patch: Partial<GlossaryEntry>) => {
+    onChange(entries.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-white text-slate-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col border border-slate-100 animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <BookA size={20} className="text-blue-600" /> Glossary
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleAdd} className="p-4 border-b border-slate-100 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder="Source term"
+              className="flex-1 min-w-0 text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
+            />
+            <input
+              type="text"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder="Required translation"
+              className="flex-1 min-w-0 text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes (optional), e.g. character name, female"
+              className="flex-1 min-w-0 text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!canAdd}
+              className="px-3 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-1"
+            >
+              <Plus size={16} /> Add
+            </button>
+          </div>
+        </form>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {entries.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-400">
+              Add names, places and invented terms so every batch translates them the same way.
+            </div>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-50 group">
+                <div className="flex-1 min-w-0 grid grid-cols-2 gap-2">
+                  <input
+                    value={entry.source}
+                    onChange={(e) => updateEntry(entry.id, { source: e.target.value })}
+                    className="text-sm font-medium p-1 rounded border border-transparent hover:border-slate-200 focus:border-blue-500 outline-none bg-transparent"
+                  />
+                  <input
+                    value={entry.target}
+                    onChange={(e) => updateEntry(entry.id, { target: e.target.value })}
+                    className="text-sm p-1 rounded border border-transparent hover:border-slate-200 focus:border-blue-500 outline-none bg-transparent"
+                  />
+                  {entry.notes && (
+                    <p className="col-span-2 text-xs text-slate-400 px-1 truncate" title={entry.notes}>{entry.notes}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                  className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100"
+                  title="Remove term"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { TextRange } from '../services/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: TextRange[]; // Sorted, non-overlapping
+  className?: string;
+}
+
+/**
+ * Plain text with the given ranges marked. Rendered as React nodes, so text
+ * from the book is never interpreted as markup.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, className = 'bg-yellow-200 text-slate-900 rounded px-0.5' }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.substring(position, start));
+    parts.push(<mark key={index} className={className}>{text.substring(start, end)}</mark>);
+    position = end;
+  });
+  if (position < text.length) parts.push(text.substring(position));
+  return <>{parts}</>;
+};
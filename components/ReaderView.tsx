@@ -1,10 +1,32 @@
 
-import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { ChevronLeft, ChevronRight, Globe, Loader2, ArrowLeft, List, X, AlertCircle, Settings, Minus, Plus, Moon, Sun, Coffee, Search, Server, Key, PauseCircle, RefreshCw } from 'lucide-react';
-import { ParsedBook, Segment, TargetLanguage, TocItem, AISettings } from '../types';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Globe, ScrollText, BookOpen, Loader2, ArrowLeft, List, X, AlertCircle, Settings, Minus, Plus, Moon, Sun, Coffee, Search, Server, Key, PauseCircle, PlayCircle, RefreshCw, Check, Languages, Download, BookA, AlertTriangle, Pencil, Bookmark, Highlighter, GraduationCap, Volume2, Square } from 'lucide-react';
+import { ParsedBook, Segment, TargetLanguage, TARGET_LANGUAGE_CODES, TocItem, AISettings, GlossaryEntry, UsageCounts, Annotation, AnnotationColor, VocabularyCard } from '../types';
 import { parseChapterContent } from '../services/epubParser';
-import { translateSegmentsBatch } from '../services/geminiService';
-import { db } from '../services/db';
+import { getPrecedingContext, isTranslationError, mergeBatchResults, runChapterBatches, translateSegmentsBatch } from '../services/geminiService';
+import { RATE_LIMIT_FIELDS, packBatchesFor } from '../services/translationScheduler';
+import { applyTranslationResult, getTranslationSource, toTranslationItem } from '../services/inlineMarkup';
+import { db, BookTranslationJob, ReadingSession, TranslationVersion } from '../services/db';
+import { translationQueue } from '../services/translationQueue';
+import { estimateBookUsage, estimateUsage, formatEstimate } from '../services/usage';
+import { exportTranslatedEpub, ExportMode } from '../services/epubExporter';
+import { BookSearchResults, ensureSearchIndex, SearchHit, SearchScope, searchBook } from '../services/bookSearch';
+import { getQueryError, getSnippet, ORIGINAL_SOURCE, SearchOptions } from '../services/searchIndex';
+import { findGlossaryViolations } from '../services/glossary';
+import { findSegment, matchSavedTranslations } from '../services/segmentIds';
+import { clearHighlights, createAnnotation, getTextSelection, paintHighlights, TextSelection } from '../services/annotations';
+import { createCard, defineWord, exportAnkiTsv, getDueCards, getWordContext, WordContext } from '../services/vocabulary';
+import { getNextReadAloudItem, getReadAloudItems, pickVoice, READ_ALOUD_MODES, ReadAloudItem, ReadAloudMode } from '../services/readAloud';
+import { BookLayout, countWords, createReadingSession, getBookLayout, getBookPercentage } from '../services/readingStats';
+import { getProviders, getSettingValue, setSettingValue, switchProvider } from '../services/providers';
+import { AnnotationsPanel } from './AnnotationsPanel';
+import { GlossaryPanel } from './GlossaryPanel';
+import { HighlightedText } from './HighlightedText';
+import { SegmentEditor } from './SegmentEditor';
+import { SelectionToolbar } from './SelectionToolbar';
+import { UsageSummary } from './UsageSummary';
+import { VocabularyPanel } from './VocabularyPanel';
+import { WordLookup } from './WordLookup';
 import JSZip from 'jszip';
 
 interface ReaderViewProps {
@@ -14,26 +36,61 @@ interface ReaderViewProps {
   onBack: () => void;
 }
 
-// Increased to save tokens on system prompts per request
-const BATCH_SIZE = 30; 
+type ReaderLayout = 'side-by-side' | 'interleaved' | 'reveal' | 'translation-only' | 'original-only';
 
 interface ReaderSettings {
+  flow: 'scroll' | 'paginated';
+  layout: ReaderLayout;
   fontSize: number;
   fontFamily: 'font-serif' | 'font-sans' | 'font-mono';
   theme: 'light' | 'sepia' | 'dark';
+  readAloudMode: ReadAloudMode;
+  speechRate: number;
 }
 
-interface SearchResult {
-    chapterIndex: number;
-    chapterTitle: string;
-    segmentId: string;
-    snippet: string;
-}
+const LAYOUTS: { id: ReaderLayout; label: string }[] = [
+  { id: 'side-by-side', label: 'Side by side' },
+  { id: 'interleaved', label: 'Interleaved' },
+  { id: 'reveal', label: 'Tap to reveal' },
+  { id: 'translation-only', label: 'Translation only' },
+  { id: 'original-only', label: 'Original only' }
+];
+
+const SPEECH_RATES = [0.75, 1, 1.25, 1.5];
+
+const SPEAKING_STYLES = 'bg-blue-500/10 rounded transition-colors';
+
+// Search results shown at a time; more load on demand
+const SEARCH_PAGE_SIZE = 50;
+
+const SEARCH_OPTION_FIELDS: { key: keyof SearchOptions; label: string }[] = [
+  { key: 'matchCase', label: 'Match case' },
+  { key: 'wholeWord', label: 'Whole words' },
+  { key: 'matchDiacritics', label: 'Match accents' },
+  { key: 'regex', label: 'Regex' }
+];
+
+// Horizontal padding of a page; columns are spaced twice that, so each page is one container width
+const PAGE_PADDING = 32;
+
+// Horizontal travel that counts as a page-turning swipe
+const SWIPE_DISTANCE = 50;
+
+// Reading time is counted in ticks, and stops after a while without scrolling, keys or taps
+const SESSION_TICK = 15 * 1000;
+const IDLE_TIMEOUT = 2 * 60 * 1000;
+
+// Segments passed at once that still count as read rather than skipped by a jump
+const MAX_READ_STEP = 40;
 
 const DEFAULT_SETTINGS: ReaderSettings = {
+  flow: 'scroll',
+  layout: 'side-by-side',
   fontSize: 18,
   fontFamily: 'font-serif',
   theme: 'light',
+  readAloudMode: 'original',
+  speechRate: 1
 };
 
 const DEFAULT_AI_SETTINGS: AISettings = {
@@ -43,10 +100,13 @@ const DEFAULT_AI_SETTINGS: AISettings = {
   model: 'gemini-2.5-flash'
 };
 
-const isTranslationError = (text?: string) => {
-  return text?.includes("[Translation Failed]") || text?.includes("[Error: Retry Limit Exceeded]");
+const saveUsage = (bookId: string, chapterHref: string, settings: AISettings, usage: UsageCounts) => {
+  db.addUsage(bookId, chapterHref, settings, usage).catch(e => console.error("Failed to save usage", e));
 };
 
+// Sanitized inline markup (see services/inlineMarkup.ts) lost its styling to Tailwind's preflight
+const INLINE_MARKUP_STYLES = '[&_a]:underline [&_a[data-href]]:cursor-pointer [&_rt]:text-[0.5em]';
+
 export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile, onBack }) => {
   // Book State
   const [currentChapterIndex, setCurrentChapterIndex] = useState(0);
@@ -57,31 +117,81 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
   const [isStopping, setIsStopping] = useState(false);
   const [translationProgress, setTranslationProgress] = useState(0);
   const [zipInstance, setZipInstance] = useState<JSZip | null>(null);
+  const [bookJob, setBookJob] = useState<BookTranslationJob | undefined>();
+  const [exportingMode, setExportingMode] = useState<ExportMode | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [bookEstimate, setBookEstimate] = useState<string | null>(null);
   
   // Refs
   const currentChapterRef = useRef<string>('');
+  const targetLangRef = useRef<TargetLanguage>(targetLang);
+  const segmentsRef = useRef<Segment[]>([]); // For batches finishing after the reader changed segments
   const searchInputRef = useRef<HTMLInputElement>(null);
   const pendingScrollRef = useRef<string | null>(null);
+  const pendingAnchorRef = useRef<string | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const segmentControllersRef = useRef(new Set<AbortController>()); // Single segments being retranslated
+  const pendingLastPageRef = useRef(false); // Open the next loaded chapter on its last page
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
 
   // UI State
   const [isTocOpen, setIsTocOpen] = useState(false);
+  const [page, setPage] = useState(0); // Paginated mode
+  const [pageCount, setPageCount] = useState(1);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
   const [settingsTab, setSettingsTab] = useState<'view' | 'ai'>('view');
   const [showRetranslateConfirm, setShowRetranslateConfirm] = useState(false);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false);
+
+  // Annotations State
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
+  const [visibleSegmentId, setVisibleSegmentId] = useState<string | null>(null);
+  const [scrollRequest, setScrollRequest] = useState(0); // Re-runs the scroll effect for jumps within the chapter
+
+  // Vocabulary State
+  const [isVocabularyOpen, setIsVocabularyOpen] = useState(false);
+  const [vocabularyCards, setVocabularyCards] = useState<VocabularyCard[]>([]);
+  // Read Aloud State
+  const [isReadingAloud, setIsReadingAloud] = useState(false);
+  const [readAloudItem, setReadAloudItem] = useState<ReadAloudItem | null>(null);
+  const [loadedChapterHref, setLoadedChapterHref] = useState<string | null>(null); // Chapter the segments belong to
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const readAloudItemsRef = useRef<ReadAloudItem[]>([]);
+
+  // Reading Statistics
+  const [bookLayout, setBookLayout] = useState<BookLayout | null>(null); // Character offsets, once the book is indexed
+  const sessionRef = useRef<ReadingSession>(createReadingSession(bookId));
+  const lastActivityRef = useRef(Date.now());
+  const lastReadRef = useRef<{ chapterHref: string; index: number } | null>(null);
+  const readSegmentsRef = useRef(new Set<string>()); // chapterHref#segmentId, so rereading is not counted twice
+
+  // Segments whose translation was revealed, in the tap-to-reveal layout
+  const [revealedSegmentIds, setRevealedSegmentIds] = useState<Set<string>>(new Set());
+
+  const [wordLookup, setWordLookup] = useState<(WordContext & { selection: TextSelection; parallel?: string }) | null>(null);
 
   // Search State
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchResults, setSearchResults] = useState<BookSearchResults | null>(null);
+  const [searchScope, setSearchScope] = useState<SearchScope>('all');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({});
+  const [searchChapterFilter, setSearchChapterFilter] = useState<string | null>(null);
+  const [visibleResultCount, setVisibleResultCount] = useState(SEARCH_PAGE_SIZE);
 
   // Settings State
   const [settings, setSettings] = useState<ReaderSettings>(() => {
     const saved = localStorage.getItem('lingo-reader-settings');
-    return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
+    // Two columns do not fit a phone; settings saved by older versions lack the newer fields
+    const defaults: ReaderSettings = { ...DEFAULT_SETTINGS, layout: window.innerWidth < 768 ? 'interleaved' : 'side-by-side' };
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
   });
 
   const [aiSettings, setAiSettings] = useState<AISettings>(() => {
@@ -90,6 +200,10 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
   });
 
   const currentChapter = book.chapters[currentChapterIndex];
+  const isPaginated = settings.flow === 'paginated';
+  const bookPercentage = bookLayout && currentChapter && visibleSegmentId
+    ? getBookPercentage(bookLayout, currentChapter.href, visibleSegmentId)
+    : null;
 
   // Initialize Zip Engine & Restore Progress
   useEffect(() => {
@@ -105,7 +219,7 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
             if (progress.chapterIndex >= 0 && progress.chapterIndex < book.chapters.length) {
                 setCurrentChapterIndex(progress.chapterIndex);
                 if (progress.segmentId) {
-                    pendingScrollRef.current = progress.segmentId.replace('seg-', '');
+                    pendingScrollRef.current = progress.segmentId;
                 }
             }
         }
@@ -116,6 +230,69 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
     init();
   }, [epubFile, bookId, book.chapters.length]);
 
+  // Measure the book for whole-book progress; imported books are indexed already
+  useEffect(() => {
+    if (!zipInstance) return;
+    ensureSearchIndex(bookId, zipInstance, book.chapters)
+      .then(() => db.getSearchDocuments(bookId))
+      .then(documents => setBookLayout(getBookLayout(documents, book.chapters)))
+      .catch(e => console.error("Failed to measure the book", e));
+  }, [zipInstance, bookId, book.chapters]);
+
+  // Count reading time while the reader is on the page and not idle
+  useEffect(() => {
+    const saveSession = () => {
+      sessionRef.current.updatedAt = Date.now();
+      db.saveReadingSession({ ...sessionRef.current }).catch(e => console.error("Failed to save reading session", e));
+    };
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    const activity = ['keydown', 'pointerdown', 'wheel', 'touchstart'];
+    activity.forEach(type => window.addEventListener(type, markActive, { passive: true }));
+    // Scrolling happens in the reader's own container, which does not bubble
+    window.addEventListener('scroll', markActive, { capture: true, passive: true });
+
+    const timer = setInterval(() => {
+      if (document.visibilityState !== 'visible' || Date.now() - lastActivityRef.current > IDLE_TIMEOUT) return;
+      sessionRef.current.seconds += SESSION_TICK / 1000;
+      saveSession();
+    }, SESSION_TICK);
+
+    return () => {
+      clearInterval(timer);
+      activity.forEach(type => window.removeEventListener(type, markActive));
+      window.removeEventListener('scroll', markActive, { capture: true });
+      const { seconds, words, segmentsTranslated } = sessionRef.current;
+      if (seconds || words || segmentsTranslated) saveSession();
+    };
+  }, []);
+
+  // Load the book's highlights, notes and bookmarks
+  useEffect(() => {
+    db.getAnnotations(bookId).then(setAnnotations).catch(e => console.error("Failed to load annotations", e));
+  }, [bookId]);
+
+  // Paint the open chapter's highlights whenever its text is re-rendered: highlight
+  // ranges hold the text nodes, so layout, font, page and revealed or edited segments count too
+  useEffect(() => {
+    if (!scrollContainerRef.current || !currentChapter) return;
+    paintHighlights(scrollContainerRef.current, annotations.filter(a => a.chapterHref === currentChapter.href));
+  }, [
+    annotations, segments, currentChapter, settings.layout, settings.flow, settings.fontSize, settings.fontFamily,
+    page, revealedSegmentIds, editingSegmentId
+  ]);
+
+  useEffect(() => clearHighlights, []);
+
+  // Vocabulary cards are shared by all books
+  useEffect(() => {
+    db.getVocabularyCards().then(setVocabularyCards).catch(e => console.error("Failed to load vocabulary", e));
+  }, []);
+
+  // Load the book's glossary
+  useEffect(() => {
+    db.getGlossary(bookId).then(setGlossary).catch(e => console.error("Failed to load glossary", e));
+  }, [bookId]);
+
   // Sync current chapter ID
   useEffect(() => {
     if (currentChapter) {
@@ -123,6 +300,78 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
     }
   }, [currentChapter]);
 
+  // Sync target language for async loaders
+  useEffect(() => {
+    targetLangRef.current = targetLang;
+  }, [targetLang]);
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+  }, [segments]);
+
+  // Retranslations of single segments end with their chapter and language
+  useEffect(() => {
+    const controllers = segmentControllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, [currentChapter, targetLang]);
+
+  // Swap in cached translations when the target language changes
+  useEffect(() => {
+    if (!currentChapter) return;
+    let active = true;
+    const chapterId = currentChapter.id;
+
+    db.getTranslations(bookId, currentChapter.href, targetLang)
+      .then(savedTranslations => {
+        if (!active || currentChapterRef.current !== chapterId) return;
+        setSegments(prev => {
+          const { translations } = matchSavedTranslations(prev, savedTranslations);
+          return prev.map(seg => 
+            seg.type === 'text' 
+              ? { ...seg, translatedText: translations[seg.id]?.text, translatedHtml: translations[seg.id]?.html, isEdited: translations[seg.id]?.edited } 
+              : seg
+          );
+        });
+      })
+      .catch(e => console.error("Failed to load cached translations", e));
+
+    return () => {
+      active = false;
+    };
+  }, [targetLang]);
+
+  // Follow the whole-book translation job and pick up its results for the open chapter
+  useEffect(() => {
+    translationQueue.getJob(bookId).then(setBookJob).catch(console.error);
+
+    return translationQueue.subscribe(bookId, (job, savedChapterHref) => {
+      setBookJob(job);
+      if (!savedChapterHref || job.targetLanguage !== targetLangRef.current) return;
+
+      const chapter = book.chapters.find(c => c.id === currentChapterRef.current);
+      if (!chapter || chapter.href !== savedChapterHref) return;
+
+      db.getTranslations(bookId, savedChapterHref, job.targetLanguage)
+        .then(savedTranslations => {
+          if (currentChapterRef.current !== chapter.id) return;
+          // Only fill gaps: never clobber segments the reader is translating itself
+          setSegments(prev => {
+            const { translations } = matchSavedTranslations(prev, savedTranslations);
+            return prev.map(seg => {
+              const saved = translations[seg.id];
+              if (seg.type !== 'text' || seg.isLoading || !saved) return seg;
+              if (seg.translatedText && !isTranslationError(seg.translatedText)) return seg;
+              return { ...seg, translatedText: saved.text, translatedHtml: saved.html, isEdited: saved.edited };
+            });
+          });
+        })
+        .catch(console.error);
+    });
+  }, [bookId, book.chapters]);
+
   // Persist Settings
   useEffect(() => {
     localStorage.setItem('lingo-reader-settings', JSON.stringify(settings));
@@ -132,6 +381,8 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
     localStorage.setItem('lingo-ai-settings', JSON.stringify(aiSettings));
   }, [aiSettings]);
 
+  const activeProvider = getProviders().find(p => p.id === aiSettings.provider);
+
   // Reset confirmation when translation starts or stops
   useEffect(() => {
     if (!isTranslating) setShowRetranslateConfirm(false);
@@ -139,14 +390,22 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
 
   // Auto-scroll to pending segment after segments load
   useEffect(() => {
+    if (pendingAnchorRef.current && !isLoadingChapter && segments.length > 0) {
+        const anchor = pendingAnchorRef.current;
+        pendingAnchorRef.current = null;
+        const target = segments.find(s => s.anchors?.includes(anchor));
+        if (target) pendingScrollRef.current = target.id;
+    }
+
     if (pendingScrollRef.current && !isLoadingChapter && segments.length > 0) {
-        const scrollTargetId = `seg-${pendingScrollRef.current}`;
+        // Progress saved before content-addressed IDs still points at a position
+        const scrollTargetId = findSegment(segments, pendingScrollRef.current)?.id ?? pendingScrollRef.current;
         
         const attemptScroll = (delay: number) => {
             setTimeout(() => {
                 const element = document.getElementById(scrollTargetId);
                 if (element) {
-                    element.scrollIntoView({ behavior: 'auto', block: 'center' });
+                    scrollToSegment(element, 'auto');
                     element.classList.add('bg-yellow-200/30', 'transition-colors', 'duration-1000');
                     setTimeout(() => {
                         element.classList.remove('bg-yellow-200/30');
@@ -163,7 +422,14 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
             pendingScrollRef.current = null;
         }, 1000);
     }
-  }, [segments, isLoadingChapter]);
+  }, [segments, isLoadingChapter, scrollRequest]);
+
+  // Opens the chapter and scrolls to the segment, also within the open chapter
+  const jumpToSegment = (chapterIndex: number, segmentId: string) => {
+      pendingScrollRef.current = segmentId;
+      setCurrentChapterIndex(chapterIndex);
+      setScrollRequest(n => n + 1);
+  };
 
   const cleanupResources = useCallback((segmentList: Segment[]) => {
     segmentList.forEach(seg => {
@@ -183,7 +449,9 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
       cleanupResources(segments);
       setIsLoadingChapter(true);
       setSegments([]); 
+      setLoadedChapterHref(null);
       setShowRetranslateConfirm(false);
+      setEditingSegmentId(null);
       
       if (abortControllerRef.current) {
           abortControllerRef.current.abort();
@@ -200,18 +468,20 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
             return;
         }
 
-        const savedTranslations = await db.getTranslations(bookId, currentChapter.href);
+        const savedTranslations = await db.getChapterTranslations(bookId, currentChapter.href, targetLangRef.current, extractedSegments);
         
         if (!active) return;
 
         const mergedSegments = extractedSegments.map(seg => {
-          if (savedTranslations[seg.id]) {
-            return { ...seg, translatedText: savedTranslations[seg.id] };
+          const saved = savedTranslations[seg.id];
+          if (saved) {
+            return { ...seg, translatedText: saved.text, translatedHtml: saved.html, isEdited: saved.edited };
           }
           return seg;
         });
 
         setSegments(mergedSegments);
+        setLoadedChapterHref(currentChapter.href);
       } catch (e) {
         if (active) console.error("Failed to load chapter", e);
       } finally {
@@ -252,10 +522,10 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
     setIsStopping(false);
     setTranslationProgress(0);
 
-    // Filter: include segments that are untranslated OR have error messages OR if forced
+    // Filter: include segments that are untranslated OR have error messages OR if forced (except hand edits)
     const segmentsToTranslate = segments.filter(s => 
       s.type === 'text' && 
-      (force || !s.translatedText || isTranslationError(s.translatedText))
+      ((force && !s.isEdited) || !s.translatedText || isTranslationError(s.translatedText))
     );
     
     if (segmentsToTranslate.length === 0) {
@@ -263,63 +533,77 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
         return;
     }
 
-    const totalBatches = Math.ceil(segmentsToTranslate.length / BATCH_SIZE);
+    const batches = packBatchesFor(segmentsToTranslate, getTranslationSource, aiSettings);
     let completedBatches = 0;
     let currentSegments = [...segments];
+    const chapterHref = currentChapter.href;
+    // Segments streamed in for the batches in flight, saved if the run is stopped
+    const streamedSegments = new Map<string, Segment>();
+    const recordUsage = (usage: UsageCounts) => saveUsage(bookId, chapterHref, aiSettings, usage);
 
     try {
-        for (let i = 0; i < segmentsToTranslate.length; i += BATCH_SIZE) {
-          if (controller.signal.aborted) break;
-          if (currentChapterRef.current !== translationChapterId) break;
+        await runChapterBatches(batches, () => currentSegments, aiSettings, async (batch, context) => {
+          if (currentChapterRef.current !== translationChapterId) return;
 
-          const batch = segmentsToTranslate.slice(i, i + BATCH_SIZE);
-          const texts = batch.map(s => s.originalText);
+          const items = batch.map(toTranslationItem);
           
           const batchIds = new Set(batch.map(b => b.id));
           setSegments(prev => prev.map(s => batchIds.has(s.id) ? { ...s, isLoading: true } : s));
 
-          // Pass aiSettings AND the abort signal to service
-          const translations = await translateSegmentsBatch(texts, targetLang, aiSettings, controller.signal);
-
-          if (controller.signal.aborted) break;
-          if (currentChapterRef.current !== translationChapterId) break;
-
-          currentSegments = currentSegments.map(s => {
-            if (batchIds.has(s.id)) {
-              const indexInBatch = batch.findIndex(b => b.id === s.id);
-              return { 
-                ...s, 
-                translatedText: translations[indexInBatch], 
-                isLoading: false 
-              };
+          const handleStreamedSegment = (id: string, text: string) => {
+            const source = batch.find(b => b.id === id);
+            if (!source || controller.signal.aborted) return;
+            const updated: Segment = { ...source, ...applyTranslationResult(source, text), isLoading: false };
+            streamedSegments.set(id, updated);
+            if (currentChapterRef.current === translationChapterId) {
+              setSegments(prev => prev.map(s => s.id === id ? updated : s));
             }
-            return s;
+          };
+
+          // Pass aiSettings AND the abort signal to service
+          const translations = await translateSegmentsBatch(items, targetLang, aiSettings, controller.signal, {
+            glossary,
+            book: book.metadata,
+            ...context
+          }, handleStreamedSegment, recordUsage);
+          const streamed = new Map<string, Segment>();
+          batchIds.forEach(id => {
+            const segment = streamedSegments.get(id);
+            if (segment) streamed.set(id, segment);
+            streamedSegments.delete(id);
           });
 
-          setSegments([...currentSegments]); 
+          if (controller.signal.aborted) return;
+          if (currentChapterRef.current !== translationChapterId) return;
+
+          const translated: Segment[] = batch.map(s => {
+            const result = translations[s.id];
+            return { 
+              ...s, 
+              ...(isTranslationError(result) 
+                ? { translatedText: result, translatedHtml: undefined } 
+                : applyTranslationResult(s, result)), 
+              isLoading: false 
+            };
+          });
+          // Only this batch: segments edited, retranslated or restored meanwhile keep their newer state
+          const { applied } = mergeBatchResults(segmentsRef.current, batch, translated, streamed);
+          currentSegments = mergeBatchResults(currentSegments, batch, applied).segments;
+          setSegments(prev => mergeBatchResults(prev, batch, applied, streamed).segments);
+          sessionRef.current.segmentsTranslated += batch.filter(s => translations[s.id] && !isTranslationError(translations[s.id])).length;
           
-          if (currentChapter) {
-            await db.saveTranslations(bookId, currentChapter.href, currentSegments);
-          }
+          await db.saveTranslations(bookId, chapterHref, targetLang, applied, aiSettings);
 
           completedBatches++;
-          setTranslationProgress(Math.round((completedBatches / totalBatches) * 100));
-
-          // Small delay between batches
-          if (i + BATCH_SIZE < segmentsToTranslate.length) {
-            try {
-                for (let d = 0; d < 5; d++) { 
-                    if (controller.signal.aborted) throw new Error("Aborted");
-                    await new Promise(resolve => setTimeout(resolve, 100));
-                }
-            } catch (e) {
-                break; 
-            }
-          }
-        }
+          setTranslationProgress(Math.round((completedBatches / batches.length) * 100));
+        }, controller.signal, recordUsage);
     } catch (error: any) {
         if (error.message === "Aborted") {
             console.log("Translation stopped by user.");
+            if (streamedSegments.size > 0) {
+                db.saveTranslations(bookId, chapterHref, targetLang, Array.from(streamedSegments.values()), aiSettings)
+                  .catch(e => console.error("Failed to save partial translations", e));
+            }
         } else {
             console.error("Translation Error", error);
         }
@@ -335,7 +619,112 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
             abortControllerRef.current = null;
         }
     }
-  }, [segments, targetLang, currentChapter, bookId, aiSettings]);
+  }, [segments, targetLang, currentChapter, bookId, aiSettings, glossary, book.metadata]);
+
+  // Stores one segment's new translation and shows it, unless the reader has moved on
+  const saveSegment = async (updated: Segment, chapterId: string, chapterHref: string, savedWith: AISettings = aiSettings) => {
+    const language = targetLang;
+    await db.saveTranslations(bookId, chapterHref, language, [updated], savedWith);
+    if (currentChapterRef.current === chapterId && targetLangRef.current === language) {
+      setSegments(prev => prev.map(s => s.id === updated.id ? updated : s));
+    }
+  };
+
+  const handleRetranslateSegment = async (segment: Segment, instruction?: string) => {
+    const { id: chapterId, href: chapterHref } = currentChapter;
+    const controller = new AbortController();
+    segmentControllersRef.current.add(controller);
+    let translations: Record<string, string>;
+    try {
+      translations = await translateSegmentsBatch(
+        [toTranslationItem(segment)], targetLang, aiSettings, controller.signal, {
+          glossary,
+          book: book.metadata,
+          precedingSegments: getPrecedingContext(segments, segment.id),
+          instruction
+        },
+        undefined,
+        usage => saveUsage(bookId, chapterHref, aiSettings, usage)
+      );
+    } finally {
+      segmentControllersRef.current.delete(controller);
+    }
+    if (controller.signal.aborted) throw new Error("Stopped: the chapter or language changed.");
+
+    const result = translations[segment.id];
+    if (isTranslationError(result)) throw new Error(result);
+    sessionRef.current.segmentsTranslated++;
+    await saveSegment({ ...segment, ...applyTranslationResult(segment, result), isEdited: false }, chapterId, chapterHref);
+  };
+
+  // Hand edits are plain text, so any inline markup of the translation is dropped
+  const handleEditSegment = (segment: Segment, text: string) =>
+    saveSegment({ ...segment, translatedText: text, translatedHtml: undefined, isEdited: true }, currentChapter.id, currentChapter.href);
+
+  const handleRestoreVersion = (segment: Segment, version: TranslationVersion) =>
+    saveSegment(
+      { ...segment, translatedText: version.text, translatedHtml: version.html, isEdited: version.edited },
+      currentChapter.id,
+      currentChapter.href,
+      { ...aiSettings, provider: version.provider, model: version.model }
+    );
+
+  const handleGlossaryChange = (entries: GlossaryEntry[]) => {
+    setGlossary(entries);
+    db.saveGlossary(bookId, entries).catch(e => console.error("Failed to save glossary", e));
+  };
+
+  // Translated segments where a glossary term did not produce its required translation
+  const glossaryViolations = useMemo(() => {
+    const violations = new Map<string, GlossaryEntry[]>();
+    if (glossary.length === 0) return violations;
+    segments.forEach(seg => {
+      if (seg.type !== 'text' || !seg.translatedText || isTranslationError(seg.translatedText)) return;
+      const missed = findGlossaryViolations(seg.originalText, seg.translatedText, glossary);
+      if (missed.length > 0) violations.set(seg.id, missed);
+    });
+    return violations;
+  }, [segments, glossary]);
+
+  // Whole-book estimate, worked out when the panel with the button is opened
+  useEffect(() => {
+    if (!isTocOpen || !zipInstance || bookJob?.status === 'running') return;
+    let active = true;
+    setBookEstimate(null);
+    estimateBookUsage(zipInstance, book, bookId, targetLang, aiSettings)
+      .then(usage => { if (active) setBookEstimate(formatEstimate(usage, aiSettings)); })
+      .catch(e => console.error("Failed to estimate book usage", e));
+    return () => {
+      active = false;
+    };
+  }, [isTocOpen, zipInstance, book, bookId, targetLang, aiSettings, bookJob?.status]);
+
+  const handleTranslateBook = () => {
+    translationQueue.start(bookId, targetLang, aiSettings).catch(console.error);
+  };
+
+  const handlePauseBookTranslation = () => {
+    translationQueue.pause(bookId).catch(console.error);
+  };
+
+  const handleExport = async (mode: ExportMode) => {
+    setExportingMode(mode);
+    setExportError(null);
+    try {
+      const blob = await exportTranslatedEpub(bookId, targetLang, mode);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${book.metadata.title} - ${mode === 'bilingual' ? 'Bilingual ' : ''}${targetLang}.epub`.replace(/[\\/:*?"<>|]/g, '_');
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+      console.error("Export failed", e);
+      setExportError(e.message || "Export failed.");
+    } finally {
+      setExportingMode(null);
+    }
+  };
 
   const handleStopTranslation = () => {
       if (abortControllerRef.current) {
@@ -345,41 +734,24 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
   };
 
   // Search Logic
+  const searchQueryError = searchQuery.trim() ? getQueryError(searchQuery, searchOptions) : null;
+
   const performSearch = async () => {
-      if (!searchQuery.trim() || !zipInstance) return;
+      if (!searchQuery.trim() || !zipInstance || searchQueryError) return;
       
       setIsSearching(true);
-      setSearchResults([]);
-      
-      const queryLower = searchQuery.toLowerCase();
-      const results: SearchResult[] = [];
+      setSearchResults(null);
+      setSearchChapterFilter(null);
+      setVisibleResultCount(SEARCH_PAGE_SIZE);
 
       try {
-          for (let i = 0; i < book.chapters.length; i++) {
-              const chapter = book.chapters[i];
-              const chapterSegments = await parseChapterContent(zipInstance, chapter, 'text-only');
-              
-              for (const seg of chapterSegments) {
-                  if (seg.type === 'text' && seg.originalText.toLowerCase().includes(queryLower)) {
-                      const text = seg.originalText;
-                      const matchIndex = text.toLowerCase().indexOf(queryLower);
-                      const start = Math.max(0, matchIndex - 30);
-                      const end = Math.min(text.length, matchIndex + queryLower.length + 30);
-                      const snippet = (start > 0 ? '...' : '') + text.substring(start, end) + (end < text.length ? '...' : '');
-
-                      results.push({
-                          chapterIndex: i,
-                          chapterTitle: chapter.title || `Chapter ${i + 1}`,
-                          segmentId: seg.id,
-                          snippet: snippet
-                      });
-
-                      if (results.length >= 50) break;
-                  }
-              }
-              if (results.length >= 50) break;
-          }
-          setSearchResults(results);
+          // Books imported before the index existed are indexed on their first search
+          await ensureSearchIndex(bookId, zipInstance, book.chapters, targetLang);
+          setSearchResults(await searchBook(bookId, book.chapters, searchQuery, {
+              targetLanguage: targetLang,
+              scope: searchScope,
+              ...searchOptions
+          }));
       } catch (e) {
           console.error("Search failed", e);
       } finally {
@@ -387,23 +759,167 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
       }
   };
 
+  // Re-run the search when its options change
+  useEffect(() => {
+      if (searchResults) performSearch();
+  }, [searchScope, searchOptions]);
+
+  const filteredSearchHits = searchResults
+      ? searchResults.hits.filter(hit => !searchChapterFilter || hit.chapterHref === searchChapterFilter)
+      : [];
+
+  // Annotations
+  const handleTextSelection = () => {
+      // Read once the browser has settled the selection
+      setTimeout(() => setTextSelection(getTextSelection(window.getSelection())), 0);
+  };
+
+  const saveAnnotation = (annotation: Annotation) => {
+      setAnnotations(prev => [...prev.filter(a => a.id !== annotation.id), annotation]);
+      db.saveAnnotation(annotation).catch(e => console.error("Failed to save annotation", e));
+  };
+
+  const deleteAnnotation = (annotation: Annotation) => {
+      setAnnotations(prev => prev.filter(a => a.id !== annotation.id));
+      db.deleteAnnotation(annotation.id).catch(e => console.error("Failed to delete annotation", e));
+  };
+
+  const handleHighlight = (color: AnnotationColor, note?: string) => {
+      if (!textSelection || !currentChapter) return;
+      saveAnnotation(createAnnotation(bookId, {
+          chapterHref: currentChapter.href,
+          segmentId: textSelection.segmentId,
+          kind: 'highlight',
+          side: textSelection.side,
+          range: textSelection.range,
+          text: textSelection.text,
+          color,
+          note
+      }));
+      window.getSelection()?.removeAllRanges();
+      setTextSelection(null);
+  };
+
+  // Bookmarks mark the segment at the top of the view
+  const topSegment = segments.find(s => s.id === visibleSegmentId) || segments[0];
+  const topBookmark = topSegment && annotations.find(a =>
+      a.kind === 'bookmark' && a.chapterHref === currentChapter?.href && a.segmentId === topSegment.id
+  );
+
+  const toggleBookmark = () => {
+      if (topBookmark) return deleteAnnotation(topBookmark);
+      if (!topSegment || !currentChapter) return;
+      saveAnnotation(createAnnotation(bookId, {
+          chapterHref: currentChapter.href,
+          segmentId: topSegment.id,
+          kind: 'bookmark',
+          text: topSegment.originalText.slice(0, 160)
+      }));
+  };
+
+  const handleAnnotationJump = (annotation: Annotation) => {
+      const chapterIndex = book.chapters.findIndex(c => c.href === annotation.chapterHref);
+      if (chapterIndex === -1) return;
+      jumpToSegment(chapterIndex, annotation.segmentId);
+      setIsAnnotationsOpen(false);
+  };
+
+  // Vocabulary
+  const handleDefine = () => {
+      const segment = textSelection && segments.find(s => s.id === textSelection.segmentId);
+      if (!textSelection || !segment) return;
+      const [text, parallel] = textSelection.side === 'original'
+          ? [segment.originalText, segment.translatedText]
+          : [segment.translatedText || '', segment.originalText];
+      setWordLookup({
+          selection: textSelection,
+          ...getWordContext(text, textSelection.range),
+          parallel: parallel && !isTranslationError(parallel) ? parallel : undefined
+      });
+      window.getSelection()?.removeAllRanges();
+      setTextSelection(null);
+  };
+
+  const lookUpWord = () => {
+      if (!wordLookup || !currentChapter) return Promise.reject(new Error("Nothing to look up"));
+      const chapterHref = currentChapter.href;
+      return defineWord({
+          word: wordLookup.selection.text.trim(),
+          context: wordLookup.context,
+          side: wordLookup.selection.side,
+          parallel: wordLookup.parallel,
+          targetLanguage: targetLang,
+          book: book.metadata
+      }, aiSettings, undefined, usage => saveUsage(bookId, chapterHref, aiSettings, usage));
+  };
+
+  const saveVocabularyCard = (card: VocabularyCard) => {
+      setVocabularyCards(prev => [...prev.filter(c => c.id !== card.id), card]);
+      db.saveVocabularyCard(card).catch(e => console.error("Failed to save vocabulary card", e));
+  };
+
+  const deleteVocabularyCard = (card: VocabularyCard) => {
+      setVocabularyCards(prev => prev.filter(c => c.id !== card.id));
+      db.deleteVocabularyCard(card.id).catch(e => console.error("Failed to delete vocabulary card", e));
+  };
+
+  const handleSaveWord = (definition: string) => {
+      if (!wordLookup || !currentChapter) return;
+      saveVocabularyCard(createCard({
+          bookId,
+          bookTitle: book.metadata.title,
+          chapterHref: currentChapter.href,
+          segmentId: wordLookup.selection.segmentId,
+          side: wordLookup.selection.side,
+          word: wordLookup.selection.text.trim(),
+          context: wordLookup.context,
+          wordRange: wordLookup.wordRange,
+          definition,
+          targetLanguage: targetLang
+      }));
+      setWordLookup(null);
+  };
+
+  const handleVocabularyJump = (card: VocabularyCard) => {
+      const chapterIndex = book.chapters.findIndex(c => c.href === card.chapterHref);
+      if (chapterIndex === -1) return;
+      jumpToSegment(chapterIndex, card.segmentId);
+      setIsVocabularyOpen(false);
+  };
+
+  const handleExportVocabulary = (cards: VocabularyCard[]) => {
+      const url = URL.createObjectURL(new Blob([exportAnkiTsv(cards)], { type: 'text/tab-separated-values' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'LingoBinder vocabulary.txt';
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const dueCardCount = getDueCards(vocabularyCards).length;
+
   const handleSearchKeyDown = (e: React.KeyboardEvent) => {
       if (e.key === 'Enter') {
           performSearch();
       }
   };
 
-  const handleSearchResultClick = (result: SearchResult) => {
-      setCurrentChapterIndex(result.chapterIndex);
-      pendingScrollRef.current = result.segmentId.replace('seg-', '');
+  const handleSearchResultClick = (result: SearchHit) => {
+      jumpToSegment(result.chapterIndex, result.segmentId);
       setIsSearchOpen(false);
   };
 
+  const saveReadingProgress = (segmentId: string) => {
+      const percentage = bookLayout ? getBookPercentage(bookLayout, currentChapter.href, segmentId) : undefined;
+      db.saveProgress(bookId, currentChapterIndex, segmentId, percentage).catch(console.error);
+  };
+
   // Scroll Tracking
   const handleScroll = useCallback(() => {
       if (!scrollContainerRef.current || isLoadingChapter) return;
       
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      setTextSelection(null); // The toolbar would no longer sit over the text
       
       saveTimeoutRef.current = setTimeout(() => {
           const container = scrollContainerRef.current;
@@ -418,19 +934,28 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
               const el = document.getElementById(seg.id);
               if (el) {
                   const rect = el.getBoundingClientRect();
-                  if (rect.bottom > containerRect.top + offset) {
+                  // Pages lie side by side: the first segment reaching into the page
+                  const isInView = isPaginated ? rect.right > containerRect.left + 1 : rect.bottom > containerRect.top + offset;
+                  if (isInView) {
                       foundSegmentId = seg.id;
                       break;
                   }
               }
           }
 
+          setVisibleSegmentId(foundSegmentId);
           if (foundSegmentId) {
-             db.saveProgress(bookId, currentChapterIndex, foundSegmentId).catch(console.error);
+             saveReadingProgress(foundSegmentId);
           }
 
       }, 1000); 
-  }, [bookId, currentChapterIndex, segments, isLoadingChapter]);
+
+      // Jumps and the browser's own scrolling (find in page, focus) can move pages too
+      if (isPaginated) {
+          const container = scrollContainerRef.current;
+          setPage(Math.round(container.scrollLeft / container.clientWidth));
+      }
+  }, [bookId, currentChapterIndex, segments, isLoadingChapter, isPaginated, bookLayout]);
 
 
   // Navigation
@@ -448,30 +973,256 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
     }
   }, [currentChapterIndex]);
 
+  const findChapterIndex = (fileHref: string) => book.chapters.findIndex(c => 
+    c.href === fileHref || 
+    c.href.endsWith(`/${fileHref}`) || 
+    fileHref.endsWith(c.href)
+  );
+
   const handleTocNavigation = (href: string) => {
-    const [fileHref] = href.split('#');
-    const chapterIndex = book.chapters.findIndex(c => 
-      c.href === fileHref || 
-      c.href.endsWith(`/${fileHref}`) || 
-      fileHref.endsWith(c.href)
-    );
+    const [fileHref, fragment] = href.split('#');
+    const chapterIndex = findChapterIndex(fileHref);
     
     if (chapterIndex !== -1) {
-      setCurrentChapterIndex(chapterIndex);
       setIsTocOpen(false);
+
+      if (chapterIndex === currentChapterIndex && fragment) {
+        const target = segments.find(s => s.anchors?.includes(fragment));
+        if (target) {
+          const element = document.getElementById(target.id);
+          if (element) scrollToSegment(element, 'smooth', 'start');
+          return;
+        }
+      }
+
+      pendingAnchorRef.current = fragment || null;
+      setCurrentChapterIndex(chapterIndex);
       if (scrollContainerRef.current) scrollContainerRef.current.scrollTo(0, 0);
     }
   };
 
+  // Book-internal links inside segment markup carry their zip path in data-href
+  const handleInlineLinkClick = (e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest('a[data-href]');
+    if (!link) return;
+    e.preventDefault();
+    handleTocNavigation(link.getAttribute('data-href') || '');
+  };
+
+  // Pagination: the chapter is laid out in CSS columns one container wide, and
+  // turning a page scrolls the container sideways by that width
+  const countPages = (container: HTMLElement) => Math.max(1, Math.round(container.scrollWidth / container.clientWidth));
+
+  const turnToPage = (target: number, behavior: ScrollBehavior = 'auto') => {
+    const container = scrollContainerRef.current;
+    if (!container || container.clientWidth === 0) return;
+    const next = Math.max(0, Math.min(target, countPages(container) - 1));
+    container.scrollTo({ left: next * container.clientWidth, behavior });
+    setPage(next);
+  };
+
+  const nextPage = () => {
+    if (page < pageCount - 1) turnToPage(page + 1);
+    else nextChapter();
+  };
+
+  const prevPage = () => {
+    if (page > 0) return turnToPage(page - 1);
+    if (currentChapterIndex === 0) return;
+    pendingLastPageRef.current = true;
+    prevChapter();
+  };
+
+  // Brings a segment into view: its first line's page, or scrolled to in scroll mode
+  const scrollToSegment = (element: HTMLElement, behavior: ScrollBehavior, block: ScrollLogicalPosition = 'center') => {
+    const container = scrollContainerRef.current;
+    if (!isPaginated || !container) return element.scrollIntoView({ behavior, block });
+    const offset = element.getBoundingClientRect().left - container.getBoundingClientRect().left + container.scrollLeft;
+    turnToPage(Math.floor(offset / container.clientWidth), behavior);
+  };
+
+  // Columns are added as content flows, so the page count is re-measured after every render
+  const measurePages = () => {
+    const container = scrollContainerRef.current;
+    if (!isPaginated || !container || container.clientWidth === 0) return;
+    setPageCount(countPages(container));
+  };
+
+  useEffect(measurePages);
+
+  useEffect(() => {
+    setPage(0);
+  }, [currentChapterIndex]);
+
+  // Switching between scrolling and pages keeps the place
+  useEffect(() => {
+    const element = visibleSegmentId && document.getElementById(visibleSegmentId);
+    if (element) scrollToSegment(element, 'auto');
+    else setPage(0);
+  }, [isPaginated]);
+
+  // Coming back from the next chapter lands on the last page
+  useEffect(() => {
+    if (!pendingLastPageRef.current || isLoadingChapter || loadedChapterHref !== currentChapter?.href) return;
+    pendingLastPageRef.current = false;
+    turnToPage(Number.MAX_SAFE_INTEGER);
+  }, [pageCount, isLoadingChapter, loadedChapterHref]);
+
+  // Keep the page showing the same text when the page size changes
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!isPaginated || !container) return;
+    let width = container.clientWidth;
+    const observer = new ResizeObserver(() => {
+      if (container.clientWidth === width) return;
+      width = container.clientWidth;
+      measurePages();
+      const element = visibleSegmentId && document.getElementById(visibleSegmentId);
+      if (element) scrollToSegment(element, 'auto');
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isPaginated, visibleSegmentId, pageCount]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (!start || !isPaginated || !window.getSelection()?.isCollapsed) return;
+    const dx = e.changedTouches[0].clientX - start.x;
+    const dy = e.changedTouches[0].clientY - start.y;
+    if (Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dx) < Math.abs(dy)) return;
+    if (dx < 0) nextPage();
+    else prevPage();
+  };
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLTextAreaElement) return;
+      if (isPaginated) {
+        if (e.key === 'ArrowRight' || e.key === 'PageDown' || (e.key === ' ' && !e.shiftKey)) nextPage();
+        else if (e.key === 'ArrowLeft' || e.key === 'PageUp' || (e.key === ' ' && e.shiftKey)) prevPage();
+        else return;
+        e.preventDefault();
+        return;
+      }
       if (e.key === 'ArrowRight') nextChapter();
       else if (e.key === 'ArrowLeft') prevChapter();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [nextChapter, prevChapter]);
+  }, [nextChapter, prevChapter, isPaginated, page, pageCount]);
+
+  // Read Aloud
+  const readAloudItems = useMemo(() => getReadAloudItems(segments, settings.readAloudMode), [segments, settings.readAloudMode]);
+  readAloudItemsRef.current = readAloudItems;
+
+  // Voices load asynchronously in some browsers
+  useEffect(() => {
+    if (typeof speechSynthesis === 'undefined') return;
+    const loadVoices = () => setVoices(speechSynthesis.getVoices());
+    loadVoices();
+    speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => {
+      speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+      speechSynthesis.cancel();
+    };
+  }, []);
+
+  const stopReadAloud = () => {
+    setIsReadingAloud(false);
+    setReadAloudItem(null);
+    if (typeof speechSynthesis !== 'undefined') speechSynthesis.cancel();
+  };
+
+  // Starts from the segment at the top of the view
+  const startReadAloud = () => {
+    const top = segments.findIndex(s => s.id === visibleSegmentId);
+    setReadAloudItem(readAloudItems.find(item => item.position >= top) || null);
+    setIsReadingAloud(true);
+  };
+
+  // Words read: the text passed on the way to the segment now in view, counted once per session
+  useEffect(() => {
+    if (!visibleSegmentId || !currentChapter || loadedChapterHref !== currentChapter.href) return;
+    const index = segments.findIndex(s => s.id === visibleSegmentId);
+    const last = lastReadRef.current;
+    lastReadRef.current = index === -1 ? null : { chapterHref: currentChapter.href, index };
+    if (!last || last.chapterHref !== currentChapter.href || index <= last.index || index - last.index > MAX_READ_STEP) return;
+
+    segments.slice(last.index, index).forEach(segment => {
+      const key = `${currentChapter.href}#${segment.id}`;
+      if (segment.type !== 'text' || readSegmentsRef.current.has(key)) return;
+      readSegmentsRef.current.add(key);
+      sessionRef.current.words += countWords(segment.originalText);
+    });
+  }, [visibleSegmentId]);
+
+  // A new chapter is read from its start
+  useEffect(() => {
+    setReadAloudItem(null);
+  }, [currentChapterIndex]);
+
+  // ...and starts with its translations hidden again
+  useEffect(() => {
+    setRevealedSegmentIds(new Set());
+  }, [currentChapterIndex]);
+
+  useEffect(() => {
+    if (!isReadingAloud || !currentChapter || loadedChapterHref !== currentChapter.href) return;
+
+    const finishChapter = () => {
+      if (currentChapterIndex < book.chapters.length - 1) nextChapter();
+      else stopReadAloud();
+    };
+
+    if (!readAloudItem) {
+      const first = readAloudItemsRef.current[0];
+      if (first) setReadAloudItem(first);
+      // Chapters with text but nothing to read yet (untranslated, in translation mode) stop the reading
+      else if (segments.some(s => s.type === 'text')) stopReadAloud();
+      else finishChapter();
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(readAloudItem.text);
+    utterance.lang = readAloudItem.side === 'original' ? book.metadata.language : TARGET_LANGUAGE_CODES[targetLang];
+    utterance.voice = pickVoice(voices, utterance.lang) || null;
+    utterance.rate = settings.speechRate;
+
+    // Cancelling fires end or error events too; only a finished utterance moves on
+    let cancelled = false;
+    const advance = () => {
+      if (cancelled) return;
+      const next = getNextReadAloudItem(readAloudItemsRef.current, readAloudItem);
+      if (next) setReadAloudItem(next);
+      else finishChapter();
+    };
+    utterance.onend = advance;
+    utterance.onerror = (e) => {
+      if (e.error === 'interrupted' || e.error === 'canceled') return;
+      console.warn("Read aloud failed", e.error);
+      advance();
+    };
+    speechSynthesis.speak(utterance);
+
+    setVisibleSegmentId(readAloudItem.segmentId);
+    const element = document.getElementById(readAloudItem.segmentId);
+    if (element) scrollToSegment(element, 'smooth');
+    saveReadingProgress(readAloudItem.segmentId);
+    lastActivityRef.current = Date.now(); // Listening is reading
+
+    return () => {
+      cancelled = true;
+      speechSynthesis.cancel();
+    };
+  }, [isReadingAloud, readAloudItem, loadedChapterHref, settings.speechRate]);
+
+  const isSpeaking = (segmentId: string, side: 'original' | 'translation') =>
+    isReadingAloud && readAloudItem?.segmentId === segmentId && readAloudItem.side === side;
 
   // Styling Helpers
   const getThemeColors = () => {
@@ -517,6 +1268,25 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
 
   const theme = getThemeColors();
 
+  // Layout: two columns side by side, or one column with the other language below or left out
+  const layout = settings.layout;
+  const isTwoColumn = layout === 'side-by-side';
+  // Translation-only still shows what has no translation (yet), so no text goes missing
+  const showsOriginal = (segment: Segment) =>
+    layout !== 'translation-only' || segment.type === 'image' || !segment.translatedText || isTranslationError(segment.translatedText);
+  const showsTranslation = (segment: Segment) =>
+    isTwoColumn || (layout !== 'original-only' && segment.type === 'text' && (!!segment.translatedText || segment.isLoading));
+  const getOriginalColumnStyles = (segment: Segment) =>
+    isTwoColumn ? 'w-1/2 pr-6' : layout === 'translation-only' && segment.type === 'text' ? 'opacity-60' : '';
+  const translationColumnStyles = isTwoColumn
+    ? `w-1/2 pl-6 border-l ${theme.border}`
+    : layout === 'translation-only' ? '' : `mt-2 pl-4 border-l-2 ${theme.border}`;
+
+  const revealSegment = (segmentId: string) => {
+    if (layout !== 'reveal' || !window.getSelection()?.isCollapsed) return; // Not while selecting text
+    setRevealedSegmentIds(prev => new Set(prev).add(segmentId));
+  };
+
   const getTagStyles = (tag: string) => {
     switch (tag) {
       case 'h1': return 'text-3xl font-bold mb-6 mt-8 leading-tight';
@@ -528,15 +1298,34 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
     }
   };
 
+  const ChapterJobStatus: React.FC<{ href: string }> = ({ href }) => {
+    const chapter = book.chapters[findChapterIndex(href.split('#')[0])];
+    const progress = chapter && bookJob?.chapters[chapter.href];
+    if (!chapter || !progress) return null;
+
+    if (bookJob?.status === 'running' && bookJob.currentChapterHref === chapter.href) {
+      return <Loader2 size={12} className="animate-spin shrink-0 opacity-60" />;
+    }
+    if (progress.translated >= progress.total) {
+      return <Check size={14} className="shrink-0 text-emerald-500" />;
+    }
+    return (
+      <span className={`text-[10px] font-mono shrink-0 ${theme.secondaryText}`}>
+        {Math.floor((progress.translated / progress.total) * 100)}%
+      </span>
+    );
+  };
+
   const TocItemView: React.FC<{ item: TocItem, level?: number }> = ({ item, level = 0 }) => (
     <div className="w-full">
       <button 
         onClick={() => handleTocNavigation(item.href)}
-        className={`w-full text-left px-4 py-2 text-sm transition-colors truncate ${theme.hover}`}
+        className={`w-full text-left px-4 py-2 text-sm transition-colors flex items-center gap-2 ${theme.hover}`}
         style={{ paddingLeft: `${1 + level}rem`, color: 'inherit' }}
         title={item.label}
       >
-        {item.label}
+        <span className="flex-1 truncate">{item.label}</span>
+        <ChapterJobStatus href={item.href} />
       </button>
       {item.subitems.length > 0 && (
         <div>
@@ -546,10 +1335,29 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
     </div>
   );
 
+  // Chapters are only counted once the job has reached them
+  const bookJobDoneChapters = book.chapters.filter(c => {
+    const progress = bookJob?.chapters[c.href];
+    return progress && progress.translated >= progress.total;
+  }).length;
+  const bookJobPercent = book.chapters.length > 0 
+    ? Math.floor((bookJobDoneChapters / book.chapters.length) * 100) 
+    : 0;
+
   const canTranslate = segments.some(s => s.type === 'text' && (!s.translatedText || isTranslationError(s.translatedText)));
   const hasErrors = segments.some(s => s.type === 'text' && isTranslationError(s.translatedText));
   const hasTranslatedSegments = segments.some(s => s.type === 'text' && !!s.translatedText);
 
+  // Expected cost before starting: the untranslated segments, or all of them for a retranslation
+  const chapterEstimate = useMemo(() => formatEstimate(estimateUsage(
+    segments.filter(s => s.type === 'text' && (!s.translatedText || isTranslationError(s.translatedText))).map(getTranslationSource),
+    aiSettings
+  ), aiSettings), [segments, aiSettings]);
+  const retranslateEstimate = useMemo(() => formatEstimate(estimateUsage(
+    segments.filter(s => s.type === 'text' && !s.isEdited).map(getTranslationSource),
+    aiSettings
+  ), aiSettings), [segments, aiSettings]);
+
   if (!zipInstance) {
     return (
       <div className={`h-screen flex flex-col items-center justify-center ${theme.bg} ${theme.text}`}>
@@ -587,11 +1395,57 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
              <Search size={20} />
           </button>
 
+          <button 
+             onClick={() => setIsGlossaryOpen(true)}
+             className={`p-2 rounded-full transition-colors ${theme.hover}`}
+             title="Glossary"
+          >
+             <BookA size={20} />
+          </button>
+
+          <button 
+             onClick={() => setIsAnnotationsOpen(true)}
+             className={`p-2 rounded-full transition-colors ${theme.hover}`}
+             title="Highlights, Notes & Bookmarks"
+          >
+             <Highlighter size={20} />
+          </button>
+
+          <button 
+             onClick={() => setIsVocabularyOpen(true)}
+             className={`relative p-2 rounded-full transition-colors ${theme.hover}`}
+             title={dueCardCount > 0 ? `Vocabulary (${dueCardCount} due for review)` : "Vocabulary"}
+          >
+             <GraduationCap size={20} />
+             {dueCardCount > 0 && <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-blue-600" />}
+          </button>
+
+          <button 
+             onClick={toggleBookmark}
+             disabled={!topSegment}
+             className={`p-2 rounded-full transition-colors disabled:opacity-30 ${topBookmark ? theme.highlight : ''} ${theme.hover}`}
+             title={topBookmark ? "Remove Bookmark" : "Bookmark This Place"}
+          >
+             <Bookmark size={20} fill={topBookmark ? 'currentColor' : 'none'} />
+          </button>
+
+          <button 
+             onClick={isReadingAloud ? stopReadAloud : startReadAloud}
+             disabled={typeof speechSynthesis === 'undefined'}
+             className={`p-2 rounded-full transition-colors disabled:opacity-30 ${isReadingAloud ? theme.highlight : ''} ${theme.hover}`}
+             title={isReadingAloud ? "Stop Reading Aloud" : "Read Aloud"}
+          >
+             {isReadingAloud ? <Square size={20} /> : <Volume2 size={20} />}
+          </button>
+
           <div className="flex flex-col">
             <h1 className="font-semibold max-w-[150px] md:max-w-xs truncate text-sm md:text-base" title={book.metadata.title}>
               {book.metadata.title}
             </h1>
-            <span className={`text-xs opacity-70`}>Chapter {currentChapterIndex + 1} of {book.chapters.length}</span>
+            <span className={`text-xs opacity-70 max-w-[150px] md:max-w-xs truncate`} title={currentChapter?.title}>
+              {currentChapter?.title} · {currentChapterIndex + 1} of {book.chapters.length}
+              {bookPercentage !== null && ` · ${Math.floor(bookPercentage)}%`}
+            </span>
           </div>
         </div>
 
@@ -645,6 +1499,36 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                 <div className="p-4">
                   {settingsTab === 'view' ? (
                     <div className="space-y-4">
+                        <div>
+                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Reading Mode</label>
+                        <div className="flex gap-2">
+                            {([['scroll', 'Scroll', ScrollText], ['paginated', 'Pages', BookOpen]] as const).map(([flow, label, Icon]) => (
+                                <button 
+                                    key={flow}
+                                    onClick={() => setSettings(s => ({ ...s, flow }))}
+                                    className={`flex-1 py-2 text-sm border rounded-md transition-colors flex items-center justify-center gap-2 ${settings.flow === flow ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}
+                                >
+                                    <Icon size={16} /> {label}
+                                </button>
+                            ))}
+                        </div>
+                        </div>
+
+                        <div>
+                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Layout</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {LAYOUTS.map(option => (
+                                <button 
+                                    key={option.id}
+                                    onClick={() => setSettings(s => ({ ...s, layout: option.id }))}
+                                    className={`py-2 text-sm border rounded-md transition-colors ${settings.layout === option.id ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        </div>
+
                         <div>
                         <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Font Size</label>
                         <div className="flex items-center justify-between bg-slate-100 rounded-lg p-1">
@@ -710,96 +1594,146 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                             </button>
                         </div>
                         </div>
-                    </div>
-                  ) : (
-                    <div className="space-y-4">
+
                         <div>
-                            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Provider</label>
-                            <div className="grid grid-cols-2 gap-2">
+                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Read Aloud</label>
+                        <div className="flex gap-2 mb-2">
+                            {READ_ALOUD_MODES.map(mode => (
                                 <button 
-                                    onClick={() => setAiSettings(s => ({ ...s, provider: 'gemini', model: 'gemini-2.5-flash' }))}
-                                    className={`py-2 px-3 text-sm border rounded-lg text-center transition-colors ${aiSettings.provider === 'gemini' ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}
+                                    key={mode.id}
+                                    onClick={() => setSettings(s => ({ ...s, readAloudMode: mode.id }))}
+                                    className={`flex-1 py-2 text-sm border rounded-md transition-colors ${settings.readAloudMode === mode.id ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}
                                 >
-                                    Google Gemini
+                                    {mode.label}
                                 </button>
+                            ))}
+                        </div>
+                        <div className="flex gap-2">
+                            {SPEECH_RATES.map(rate => (
                                 <button 
-                                    onClick={() => setAiSettings(s => ({ ...s, provider: 'openai', model: 'google/gemini-2.5-flash' }))}
-                                    className={`py-2 px-3 text-sm border rounded-lg text-center transition-colors ${aiSettings.provider === 'openai' ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}
+                                    key={rate}
+                                    onClick={() => setSettings(s => ({ ...s, speechRate: rate }))}
+                                    className={`flex-1 py-1 text-xs border rounded-md transition-colors ${settings.speechRate === rate ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}
                                 >
-                                    OpenAI / Custom
+                                    {rate}×
                                 </button>
+                            ))}
+                        </div>
+                        </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Provider</label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {getProviders().map(provider => (
+                                    <button 
+                                        key={provider.id}
+                                        onClick={() => setAiSettings(s => switchProvider(s, provider.id))}
+                                        className={`py-2 px-3 text-sm border rounded-lg text-center transition-colors ${aiSettings.provider === provider.id ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}
+                                    >
+                                        {provider.label}
+                                    </button>
+                                ))}
                             </div>
                         </div>
 
-                        {aiSettings.provider === 'gemini' ? (
-                             <div className="space-y-4">
-                                <div className="p-3 bg-blue-50 text-blue-800 text-xs rounded-lg border border-blue-100">
-                                   <p className="font-medium mb-1">Using Google Gemini</p>
-                                   <p className="opacity-80">Leave API Key empty to use the system default key.</p>
-                                </div>
-                                
-                                <div>
-                                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-1">
-                                        <Key size={12} /> API Key (Optional)
-                                    </label>
-                                    <input 
-                                        type="password" 
-                                        value={aiSettings.apiKey}
-                                        onChange={(e) => setAiSettings(s => ({ ...s, apiKey: e.target.value }))}
-                                        placeholder="Use system default or enter key"
-                                        className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
-                                    />
-                                </div>
-
-                                <div>
-                                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Model Name</label>
-                                    <input 
-                                        type="text" 
-                                        value={aiSettings.model}
-                                        onChange={(e) => setAiSettings(s => ({ ...s, model: e.target.value }))}
-                                        className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
-                                        placeholder="gemini-2.5-flash"
-                                    />
-                                </div>
-                             </div>
-                        ) : (
+                        {activeProvider && (
                             <div className="space-y-3">
+                                {activeProvider.notice && (
+                                    <div className="p-3 bg-blue-50 text-blue-800 text-xs rounded-lg border border-blue-100">
+                                       <p className="font-medium mb-1">Using {activeProvider.label}</p>
+                                       <p className="opacity-80">{activeProvider.notice}</p>
+                                    </div>
+                                )}
+
+                                {activeProvider.settingsSchema.map(field => (
+                                    <div key={field.key}>
+                                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-1">
+                                            {field.type === 'password' && <Key size={12} />}
+                                            {field.type === 'url' && <Server size={12} />}
+                                            {field.label}{field.optional && ' (Optional)'}
+                                        </label>
+                                        {field.type === 'select' ? (
+                                            <select
+                                                value={getSettingValue(aiSettings, field.key)}
+                                                onChange={(e) => setAiSettings(s => setSettingValue(s, field.key, e.target.value))}
+                                                className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none bg-white"
+                                            >
+                                                {field.choices?.map(choice => (
+                                                    <option key={choice.value} value={choice.value}>{choice.label}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            <input 
+                                                type={field.type === 'password' ? 'password' : 'text'}
+                                                value={getSettingValue(aiSettings, field.key)}
+                                                onChange={(e) => setAiSettings(s => setSettingValue(s, field.key, e.target.value))}
+                                                placeholder={field.placeholder}
+                                                className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+
                                 <div>
-                                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-1">
-                                        <Server size={12} /> Base URL
-                                    </label>
-                                    <input 
-                                        type="text" 
-                                        value={aiSettings.baseUrl}
-                                        onChange={(e) => setAiSettings(s => ({ ...s, baseUrl: e.target.value }))}
-                                        placeholder="https://openrouter.ai/api/v1"
-                                        className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
-                                    />
-                                </div>
-                                <div>
-                                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-1">
-                                        <Key size={12} /> API Key
-                                    </label>
-                                    <input 
-                                        type="password" 
-                                        value={aiSettings.apiKey}
-                                        onChange={(e) => setAiSettings(s => ({ ...s, apiKey: e.target.value }))}
-                                        placeholder="sk-..."
-                                        className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
-                                    />
-                                </div>
-                                <div>
-                                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Model Name</label>
-                                    <input 
-                                        type="text" 
-                                        value={aiSettings.model}
-                                        onChange={(e) => setAiSettings(s => ({ ...s, model: e.target.value }))}
-                                        placeholder="google/gemini-2.5-flash"
-                                        className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
-                                    />
+                                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Rate Limits</label>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {RATE_LIMIT_FIELDS.map(field => (
+                                            <label key={field.key} className="text-xs text-slate-500">
+                                                {field.label}
+                                                <input 
+                                                    type="number"
+                                                    min={0}
+                                                    value={getSettingValue(aiSettings, field.key)}
+                                                    onChange={(e) => setAiSettings(s => setSettingValue(s, field.key, e.target.value))}
+                                                    placeholder={String(activeProvider.capabilities.rateLimits[field.key])}
+                                                    className="w-full text-sm p-2 mt-1 rounded border border-slate-300 focus:border-blue-500 outline-none"
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-slate-400 mt-1">Empty uses the provider's default; 0 removes a per-minute limit.</p>
                                 </div>
                             </div>
                         )}
+
+                        {activeProvider?.translateStream && (
+                        <label className="flex items-start gap-2 text-sm cursor-pointer">
+                            <input 
+                                type="checkbox" 
+                                checked={aiSettings.streaming !== false}
+                                onChange={(e) => setAiSettings(s => ({ ...s, streaming: e.target.checked }))}
+                                className="mt-1"
+                            />
+                            <span>
+                                Stream results
+                                <span className="block text-xs text-slate-400">Show each paragraph as soon as it is translated.</span>
+                            </span>
+                        </label>
+                        )}
+
+                        {activeProvider?.complete && (
+                        <label className="flex items-start gap-2 text-sm cursor-pointer">
+                            <input 
+                                type="checkbox" 
+                                checked={!!aiSettings.chapterSummary}
+                                onChange={(e) => setAiSettings(s => ({ ...s, chapterSummary: e.target.checked }))}
+                                className="mt-1"
+                            />
+                            <span>
+                                Running chapter summary
+                                <span className="block text-xs text-slate-400">Keeps long chapters coherent. Costs one extra request per batch.</span>
+                            </span>
+                        </label>
+                        )}
+
+                        <UsageSummary 
+                            bookId={bookId} 
+                            aiSettings={aiSettings} 
+                            onChange={setAiSettings} 
+                            refreshKey={`${isTranslating}-${bookJob?.updatedAt}`} 
+                        />
                     </div>
                   )}
                 </div>
@@ -835,6 +1769,7 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                 {canTranslate && (
                     <button 
                     onClick={() => handleTranslate(false)}
+                    title={`Estimated: ${chapterEstimate}`}
                     className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-all shadow-sm
                         ${hasErrors 
                         ? 'bg-amber-500 text-white hover:bg-amber-600 hover:shadow-md'
@@ -877,11 +1812,18 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
 
       {/* Main Content Area */}
       <div 
-        className="flex-1 overflow-y-auto pt-4" 
+        className={isPaginated ? `flex-1 min-h-0 w-full ${isTwoColumn ? 'max-w-[1600px]' : 'max-w-3xl'} mx-auto overflow-hidden` : 'flex-1 overflow-y-auto pt-4'} 
         ref={scrollContainerRef}
         onScroll={handleScroll}
+        onMouseUp={handleTextSelection}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
       >
-        <div className="max-w-[1600px] mx-auto p-6 md:p-10">
+        <div 
+          className={isPaginated ? 'h-full' : `${isTwoColumn ? 'max-w-[1600px]' : 'max-w-3xl'} mx-auto p-6 md:p-10`}
+          // One column per page; the overflow flows into further columns to the right
+          style={isPaginated ? { columnCount: 1, columnGap: PAGE_PADDING * 2, columnFill: 'auto', padding: `24px ${PAGE_PADDING}px` } : undefined}
+        >
           {isLoadingChapter ? (
             <div className="flex flex-col items-center justify-center h-64 opacity-50">
               <Loader2 className="w-10 h-10 animate-spin mb-4" />
@@ -899,29 +1841,40 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
             <div className="space-y-8">
                {/* Content Rows */}
                {segments.map((segment) => (
-                 <div id={segment.id} key={segment.id} className="flex group min-h-[2rem] transition-colors duration-500 rounded-lg p-1 -m-1">
+                 <div 
+                   id={segment.id} 
+                   key={segment.id} 
+                   className={`${isTwoColumn ? 'flex' : 'flex flex-col'} group min-h-[2rem] transition-colors duration-500 rounded-lg p-1 -m-1`}
+                   onClick={() => revealSegment(segment.id)}
+                 >
                    {/* Original Text Side */}
-                   <div className="w-1/2 pr-6">
+                   {showsOriginal(segment) && (
+                   <div className={getOriginalColumnStyles(segment)}>
                      {segment.type === 'image' && segment.imageUrl ? (
                        <div className="mb-4 flex justify-center">
                          <img 
                            src={segment.imageUrl} 
                            alt={segment.originalText} 
-                           className="max-w-full h-auto rounded-lg shadow-sm max-h-[500px]" 
+                           className={`max-w-full h-auto rounded-lg shadow-sm ${isPaginated ? 'max-h-[60vh]' : 'max-h-[500px]'}`} 
                          />
                        </div>
                      ) : (
                        <div 
-                          className={`${getTagStyles(segment.tagName)} ${settings.fontFamily}`}
+                          className={`${getTagStyles(segment.tagName)} ${settings.fontFamily} ${INLINE_MARKUP_STYLES} ${isSpeaking(segment.id, 'original') ? SPEAKING_STYLES : ''}`}
                           style={{ fontSize: `${settings.fontSize}px` }}
+                          onClick={handleInlineLinkClick}
                        >
-                         {segment.originalText}
+                         {segment.originalHtml 
+                           ? <span data-segment-id={segment.id} data-annotation-side="original" dangerouslySetInnerHTML={{ __html: segment.originalHtml }} /> 
+                           : <span data-segment-id={segment.id} data-annotation-side="original">{segment.originalText}</span>}
                        </div>
                      )}
                    </div>
+                   )}
 
                    {/* Translated Text Side */}
-                   <div className={`w-1/2 pl-6 border-l ${theme.border} relative`}>
+                   {showsTranslation(segment) && (
+                   <div className={`${translationColumnStyles} relative`}>
                      {segment.type === 'image' ? (
                        null
                      ) : segment.isLoading ? (
@@ -940,19 +1893,69 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                                 <RefreshCw size={10} /> Retry
                             </button>
                         </div>
-                     ) : segment.translatedText ? (
+                     ) : layout === 'reveal' && segment.translatedText && !revealedSegmentIds.has(segment.id) ? (
                         <div 
-                           className={`${getTagStyles(segment.tagName)} ${settings.fontFamily} ${theme.text}`}
+                           className={`${getTagStyles(segment.tagName)} ${settings.fontFamily} blur-sm select-none cursor-pointer opacity-60`}
                            style={{ fontSize: `${settings.fontSize}px` }}
+                           title="Tap to reveal the translation"
+                           aria-label="Hidden translation"
                         >
                           {segment.translatedText}
                         </div>
+                     ) : segment.translatedText ? (
+                        <>
+                        <div 
+                           className={`${getTagStyles(segment.tagName)} ${settings.fontFamily} ${theme.text} ${INLINE_MARKUP_STYLES} ${isSpeaking(segment.id, 'translation') ? SPEAKING_STYLES : ''}`}
+                           style={{ fontSize: `${settings.fontSize}px` }}
+                           onClick={handleInlineLinkClick}
+                        >
+                          {segment.translatedHtml 
+                            ? <span data-segment-id={segment.id} data-annotation-side="translation" dangerouslySetInnerHTML={{ __html: segment.translatedHtml }} /> 
+                            : <span data-segment-id={segment.id} data-annotation-side="translation">{segment.translatedText}</span>}
+                          {glossaryViolations.has(segment.id) && (
+                            <span 
+                              className="inline-flex items-center gap-1 ml-2 align-middle text-xs text-amber-600 bg-amber-50 border border-amber-200 rounded px-1.5 py-0.5 not-italic font-sans"
+                              title={glossaryViolations.get(segment.id)!.map(e => `Expected "${e.target}" for "${e.source}"`).join('\n')}
+                            >
+                              <AlertTriangle size={12} /> Glossary
+                            </span>
+                          )}
+                          {segment.isEdited && (
+                            <span 
+                              className={`inline-flex items-center gap-1 ml-2 align-middle text-xs rounded px-1.5 py-0.5 border not-italic font-sans ${theme.border} ${theme.secondaryText}`}
+                              title="Edited by hand"
+                            >
+                              <Pencil size={10} /> Edited
+                            </span>
+                          )}
+                        </div>
+                        {!isTranslating && editingSegmentId !== segment.id && (
+                          <button 
+                            onClick={(e) => { e.stopPropagation(); setEditingSegmentId(segment.id); }}
+                            className={`absolute top-0 right-0 p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity ${theme.hover}`}
+                            title="Retranslate, edit or view history"
+                          >
+                            <Pencil size={14} />
+                          </button>
+                        )}
+                        {editingSegmentId === segment.id && (
+                          <SegmentEditor 
+                            segment={segment}
+                            onRetranslate={(instruction) => handleRetranslateSegment(segment, instruction)}
+                            onSave={(text) => handleEditSegment(segment, text)}
+                            loadHistory={() => db.getSegmentHistory(bookId, currentChapter.href, targetLang, segment.id)}
+                            onRestore={(version) => handleRestoreVersion(segment, version)}
+                            onClose={() => setEditingSegmentId(null)}
+                          />
+                        )}
+                        </>
                      ) : (
                        <div className="h-full flex items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200">
                           {/* Empty placeholder */}
                        </div>
                      )}
                    </div>
+                   )}
                  </div>
                ))}
 
@@ -966,8 +1969,8 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                    <ChevronLeft /> Previous Chapter
                  </button>
                  
-                 <div className={`text-sm ${theme.secondaryText}`}>
-                   {currentChapterIndex + 1} / {book.chapters.length}
+                 <div className={`text-sm text-center truncate px-4 ${theme.secondaryText}`} title={currentChapter?.title}>
+                   {currentChapter?.title} · {currentChapterIndex + 1} / {book.chapters.length}
                  </div>
 
                  <button 
@@ -983,6 +1986,28 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
         </div>
       </div>
 
+      {isPaginated && (
+        <div className={`flex items-center justify-center gap-4 py-2 text-xs border-t ${theme.border} ${theme.secondaryText}`}>
+          <button 
+            onClick={prevPage}
+            disabled={page === 0 && currentChapterIndex === 0}
+            className={`p-1 rounded-full transition-colors disabled:opacity-30 ${theme.hover}`}
+            title="Previous Page"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span>Page {page + 1} of {pageCount} in chapter</span>
+          <button 
+            onClick={nextPage}
+            disabled={page >= pageCount - 1 && currentChapterIndex === book.chapters.length - 1}
+            className={`p-1 rounded-full transition-colors disabled:opacity-30 ${theme.hover}`}
+            title="Next Page"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Table of Contents Sidebar */}
       {isTocOpen && (
         <>
@@ -1000,6 +2025,89 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                 <X size={20} />
               </button>
             </div>
+
+            {/* Whole-book translation */}
+            <div className={`p-4 border-b text-sm ${theme.border}`}>
+              {bookJob?.status === 'running' ? (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 font-medium">
+                      <Loader2 size={14} className="animate-spin" /> Translating book ({bookJob.targetLanguage})
+                    </span>
+                    <button 
+                      onClick={handlePauseBookTranslation}
+                      className={`p-1 rounded-full transition-colors ${theme.hover}`}
+                      title="Pause"
+                    >
+                      <PauseCircle size={18} />
+                    </button>
+                  </div>
+                  <div className={`h-1.5 rounded-full overflow-hidden ${theme.inputBg}`}>
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${bookJobPercent}%` }} />
+                  </div>
+                  <p className={`text-xs ${theme.secondaryText}`}>
+                    {bookJobDoneChapters} of {book.chapters.length} chapters done
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {bookJob?.status === 'error' && (
+                    <p className="text-xs text-red-600 flex items-center gap-1">
+                      <AlertCircle size={12} /> {bookJob.error}
+                    </p>
+                  )}
+                  {bookJob?.status === 'incomplete' && bookJob.targetLanguage === targetLang && (
+                    <p className="text-xs text-amber-600 flex items-center gap-1">
+                      <AlertTriangle size={12} /> {bookJob.error}
+                    </p>
+                  )}
+                  {bookJob?.status === 'completed' && bookJob.targetLanguage === targetLang && (
+                    <p className="text-xs text-emerald-600 flex items-center gap-1">
+                      <Check size={12} /> Whole book translated into {bookJob.targetLanguage}
+                    </p>
+                  )}
+                  <button 
+                    onClick={handleTranslateBook}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    {bookJob?.status === 'paused' || bookJob?.status === 'error' 
+                      ? <><PlayCircle size={16} /> Resume Book Translation</> 
+                      : bookJob?.status === 'incomplete' && bookJob.targetLanguage === targetLang
+                        ? <><RefreshCw size={16} /> Retry Failed Segments</>
+                        : <><Languages size={16} /> Translate Whole Book</>}
+                  </button>
+                  {bookJob?.status === 'paused' && (
+                    <p className={`text-xs text-center ${theme.secondaryText}`}>
+                      Paused at {bookJobPercent}% ({bookJob.targetLanguage})
+                    </p>
+                  )}
+                  <p className={`text-xs text-center ${theme.secondaryText}`}>
+                    {bookEstimate ? `Remaining: ${bookEstimate}` : 'Estimating cost...'}
+                  </p>
+                </div>
+              )}
+
+              {/* Export */}
+              <div className="mt-3 flex gap-2">
+                {(['bilingual', 'translation-only'] as ExportMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => handleExport(mode)}
+                    disabled={exportingMode !== null}
+                    className={`flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg border text-xs font-medium transition-colors disabled:opacity-50 ${theme.border} ${theme.hover}`}
+                    title={`Export ${targetLang} EPUB`}
+                  >
+                    {exportingMode === mode ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                    {mode === 'bilingual' ? 'Bilingual EPUB' : 'Translation EPUB'}
+                  </button>
+                ))}
+              </div>
+              {exportError && (
+                <p className="mt-2 text-xs text-red-600 flex items-center gap-1">
+                  <AlertCircle size={12} /> {exportError}
+                </p>
+              )}
+            </div>
             
             <div className="flex-1 overflow-y-auto py-2">
               {book.toc.length === 0 ? (
@@ -1011,6 +2119,33 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                    <TocItemView key={idx} item={item} />
                  ))
               )}
+
+              {book.landmarks.length > 0 && (
+                <div className={`mt-4 pt-2 border-t ${theme.border}`}>
+                  <h3 className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${theme.secondaryText}`}>Landmarks</h3>
+                  {book.landmarks.map((item, idx) => (
+                    <TocItemView key={idx} item={item} />
+                  ))}
+                </div>
+              )}
+
+              {book.pageList.length > 0 && (
+                <div className={`mt-4 pt-2 border-t ${theme.border}`}>
+                  <h3 className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${theme.secondaryText}`}>Pages</h3>
+                  <div className="px-4 pb-2 flex flex-wrap gap-1">
+                    {book.pageList.map((item, idx) => (
+                      <button
+                        key={idx}
+                        onClick={() => handleTocNavigation(item.href)}
+                        className={`min-w-[2.5rem] px-2 py-1 text-xs rounded border transition-colors ${theme.border} ${theme.hover}`}
+                        title={`Page ${item.label}`}
+                      >
+                        {item.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </>
@@ -1038,20 +2173,83 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
                   <button onClick={() => setIsSearchOpen(false)} className={`p-1 rounded-full ${theme.hover}`}><X size={20} className="opacity-50" /></button>
                </div>
                
+               <div className={`flex flex-wrap items-center gap-3 px-4 py-2 border-b text-xs ${theme.border}`}>
+                  <div className={`flex rounded-lg border overflow-hidden ${theme.border}`}>
+                    {(['all', 'original', 'translation'] as SearchScope[]).map(scope => (
+                      <button
+                        key={scope}
+                        onClick={() => setSearchScope(scope)}
+                        className={`px-2 py-1 capitalize ${searchScope === scope ? 'bg-blue-600 text-white' : `opacity-60 ${theme.hover}`}`}
+                      >
+                        {scope}
+                      </button>
+                    ))}
+                  </div>
+                  {SEARCH_OPTION_FIELDS.map(field => (
+                    <label key={field.key} className="flex items-center gap-1 opacity-70 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!searchOptions[field.key]}
+                        onChange={e => setSearchOptions(options => ({ ...options, [field.key]: e.target.checked }))}
+                      />
+                      {field.label}
+                    </label>
+                  ))}
+                  {!searchOptions.regex && <span className="opacity-40 ml-auto">Use "quotes" for a phrase</span>}
+               </div>
+
+               {searchQueryError && (
+                  <div className="flex items-center gap-2 px-4 py-2 text-xs text-red-600 bg-red-50">
+                    <AlertCircle size={14} /> {searchQueryError}
+                  </div>
+               )}
+
+               {searchResults && searchResults.hits.length > 0 && (
+                  <div className={`flex gap-1 px-4 py-2 border-b overflow-x-auto text-xs ${theme.border}`}>
+                    <button
+                      onClick={() => { setSearchChapterFilter(null); setVisibleResultCount(SEARCH_PAGE_SIZE); }}
+                      className={`shrink-0 px-2 py-1 rounded-full ${searchChapterFilter === null ? 'bg-blue-600 text-white' : `opacity-60 ${theme.hover}`}`}
+                    >
+                      {searchResults.hits.length} results in {Object.keys(searchResults.chapterCounts).length} chapters
+                    </button>
+                    {book.chapters.map((chapter, index) => searchResults.chapterCounts[chapter.href] ? (
+                      <button
+                        key={chapter.href}
+                        onClick={() => { setSearchChapterFilter(chapter.href); setVisibleResultCount(SEARCH_PAGE_SIZE); }}
+                        className={`shrink-0 max-w-[12rem] truncate px-2 py-1 rounded-full ${searchChapterFilter === chapter.href ? 'bg-blue-600 text-white' : `opacity-60 ${theme.hover}`}`}
+                        title={chapter.title}
+                      >
+                        {chapter.title || `Chapter ${index + 1}`} ({searchResults.chapterCounts[chapter.href]})
+                      </button>
+                    ) : null)}
+                  </div>
+               )}
+               
                <div className="flex-1 overflow-y-auto p-2">
-                  {searchResults.map((result, i) => (
+                  {filteredSearchHits.slice(0, visibleResultCount).map((result, i) => (
                       <button 
                         key={i} 
                         onClick={() => handleSearchResultClick(result)} 
                         className={`w-full text-left p-3 rounded-lg mb-1 transition-colors block group ${theme.hover}`}
                       >
                           <div className={`text-xs opacity-50 mb-1 flex justify-between`}>
-                            <span>{result.chapterTitle}</span>
+                            <span>{book.chapters[result.chapterIndex].title || `Chapter ${result.chapterIndex + 1}`}</span>
+                            {result.source !== ORIGINAL_SOURCE && <span>Translation</span>}
+                          </div>
+                          <div className="text-sm font-medium truncate leading-snug">
+                            <HighlightedText {...getSnippet(result.text, result.ranges)} />
                           </div>
-                          <div className="text-sm font-medium truncate leading-snug" dangerouslySetInnerHTML={{ __html: result.snippet.replace(new RegExp(searchQuery, 'gi'), match => `<span class="bg-yellow-200 text-slate-900 rounded px-0.5">${match}</span>`) }} />
                       </button>
                   ))}
-                  {!isSearching && searchResults.length === 0 && searchQuery && (
+                  {filteredSearchHits.length > visibleResultCount && (
+                      <button
+                        onClick={() => setVisibleResultCount(count => count + SEARCH_PAGE_SIZE)}
+                        className={`w-full p-3 rounded-lg text-sm text-blue-600 ${theme.hover}`}
+                      >
+                        Show more ({filteredSearchHits.length - visibleResultCount} remaining)
+                      </button>
+                  )}
+                  {!isSearching && searchResults?.hits.length === 0 && searchQuery && (
                       <div className="p-12 text-center opacity-50">
                         <p>No results found for "{searchQuery}"</p>
                       </div>
@@ -1066,6 +2264,56 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
         </div>
       )}
 
+      {textSelection && (
+        <SelectionToolbar 
+          selection={textSelection}
+          onHighlight={handleHighlight}
+          onDefine={handleDefine}
+          onClose={() => setTextSelection(null)}
+        />
+      )}
+
+      {wordLookup && (
+        <WordLookup 
+          word={wordLookup.selection.text.trim()}
+          context={wordLookup.context}
+          onLookUp={lookUpWord}
+          onSave={handleSaveWord}
+          onClose={() => setWordLookup(null)}
+        />
+      )}
+
+      {isVocabularyOpen && (
+        <VocabularyPanel 
+          cards={vocabularyCards}
+          bookId={bookId}
+          onJump={handleVocabularyJump}
+          onUpdate={saveVocabularyCard}
+          onDelete={deleteVocabularyCard}
+          onExport={handleExportVocabulary}
+          onClose={() => setIsVocabularyOpen(false)}
+        />
+      )}
+
+      {isAnnotationsOpen && (
+        <AnnotationsPanel 
+          annotations={annotations}
+          chapters={book.chapters}
+          onJump={handleAnnotationJump}
+          onUpdate={saveAnnotation}
+          onDelete={deleteAnnotation}
+          onClose={() => setIsAnnotationsOpen(false)}
+        />
+      )}
+
+      {isGlossaryOpen && (
+        <GlossaryPanel 
+          entries={glossary} 
+          onChange={handleGlossaryChange} 
+          onClose={() => setIsGlossaryOpen(false)} 
+        />
+      )}
+
       {/* Retranslate Confirmation Modal */}
       {showRetranslateConfirm && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -1076,8 +2324,9 @@ export const ReaderView: React.FC<ReaderViewProps> = ({ bookId, book, epubFile,
             <div className="relative bg-white rounded-xl shadow-2xl p-6 w-full max-w-sm border border-slate-100 scale-100 animate-in zoom-in-95 duration-200">
                 <h3 className="text-lg font-bold text-slate-800 mb-2">Retranslate Chapter?</h3>
                 <p className="text-slate-600 mb-6 leading-relaxed">
-                    This will overwrite all existing translations in this chapter. Are you sure?
+                    This will overwrite all existing translations in this chapter, except segments you edited by hand. Are you sure?
                 </p>
+                <p className="-mt-4 mb-6 text-sm text-slate-500">Estimated: {retranslateEstimate}</p>
                 <div className="flex justify-end gap-3">
                     <button 
                         onClick={() => setShowRetranslateConfirm(false)} 
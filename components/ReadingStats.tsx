@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3, Loader2, X } from 'lucide-react';
+import { db, ReadingSession } from '../services/db';
+import { formatDuration, getDailyHistory } from '../services/readingStats';
+
+interface ReadingStatsProps {
+  bookId: string;
+  title: string;
+  percentage?: number;
+  onClose: () => void;
+}
+
+// Days shown in the reading history chart
+const HISTORY_DAYS = 14;
+
+/**
+ * A book's reading statistics: how far along it is, totals over all sessions
+ * and the minutes read on each of the last two weeks.
+ */
+export const ReadingStats: React.FC<ReadingStatsProps> = ({ bookId, title, percentage, onClose }) => {
+  const [sessions, setSessions] = useState<ReadingSession[] | null>(null);
+
+  useEffect(() => {
+    db.getReadingSessions(bookId)
+      .then(setSessions)
+      .catch(e => {
+        console.error("Failed to load reading sessions", e);
+        setSessions([]);
+      });
+  }, [bookId]);
+
+  const total = (key: 'seconds' | 'words' | 'segmentsTranslated') =>
+    (sessions || []).reduce((sum, session) => sum + session[key], 0);
+  const history = getDailyHistory(sessions || [], HISTORY_DAYS);
+  const busiestDay = Math.max(...history.map(day => day.seconds), 60);
+  const readingSessions = (sessions || []).filter(session => session.seconds > 0);
+
+  const figures = [
+    { label: 'Read', value: percentage !== undefined ? `${Math.floor(percentage)}%` : '—' },
+    { label: 'Time reading', value: formatDuration(total('seconds')) },
+    { label: 'Words read', value: total('words').toLocaleString() },
+    { label: 'Segments translated', value: total('segmentsTranslated').toLocaleString() },
+    { label: 'Sessions', value: readingSessions.length.toLocaleString() },
+    {
+      label: 'Average session',
+      value: readingSessions.length ? formatDuration(total('seconds') / readingSessions.length) : '—'
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-white rounded-xl shadow-2xl p-6 w-full max-w-lg border border-slate-100 animate-in zoom-in-95 duration-200">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <BarChart3 size={20} className="text-blue-600" /> Reading Statistics
+            </h3>
+            <p className="text-sm text-slate-500 truncate" title={title}>{title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 rounded-full text-slate-400 hover:bg-slate-100 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {sessions === null ? (
+          <div className="flex justify-center py-12 text-slate-400">
+            <Loader2 className="animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="h-2 rounded-full bg-slate-100 overflow-hidden mb-4">
+              <div className="h-full bg-blue-600 rounded-full" style={{ width: `${percentage || 0}%` }} />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 mb-6">
+              {figures.map(({ label, value }) => (
+                <div key={label} className="bg-slate-50 rounded-lg p-3">
+                  <p className="text-lg font-semibold text-slate-800">{value}</p>
+                  <p className="text-[11px] text-slate-500">{label}</p>
+                </div>
+              ))}
+            </div>
+
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-2">Last {HISTORY_DAYS} days</h4>
+            <div className="flex items-end gap-1 h-28">
+              {history.map(day => (
+                <div
+                  key={day.date}
+                  className="flex-1 h-full flex flex-col justify-end"
+                  title={`${new Date(`${day.date}T00:00`).toLocaleDateString()}: ${day.seconds ? formatDuration(day.seconds) : 'no reading'}${day.words ? `, ${day.words.toLocaleString()} words` : ''}`}
+                >
+                  <div
+                    className={`rounded-t ${day.seconds ? 'bg-blue-500' : 'bg-slate-100'}`}
+                    style={{ height: day.seconds ? `${Math.max(4, (day.seconds / busiestDay) * 100)}%` : '2px' }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+              <span>{new Date(`${history[0].date}T00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+              <span>Today</span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, Pencil, RefreshCw, RotateCcw, X } from 'lucide-react';
+import { Segment } from '../types';
+import { TranslationVersion } from '../services/db';
+
+interface SegmentEditorProps {
+  segment: Segment;
+  onRetranslate: (instruction?: string) => Promise<void>;
+  onSave: (text: string) => Promise<void>;
+  loadHistory: () => Promise<TranslationVersion[]>;
+  onRestore: (version: TranslationVersion) => Promise<void>;
+  onClose: () => void;
+}
+
+type Mode = 'retranslate' | 'edit' | 'history';
+
+const INSTRUCTION_SUGGESTIONS = ['More formal', 'More casual', 'More literal', 'Shorter'];
+
+/**
+ * Actions on one segment's translation: retranslate it (optionally with an
+ * instruction), correct it by hand, or go back to an earlier version.
+ */
+export const SegmentEditor: React.FC<SegmentEditorProps> = ({ segment, onRetranslate, onSave, loadHistory, onRestore, onClose }) => {
+  const [mode, setMode] = useState<Mode>('retranslate');
+  const [instruction, setInstruction] = useState('');
+  const [draft, setDraft] = useState(segment.translatedText || '');
+  const [history, setHistory] = useState<TranslationVersion[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mode !== 'history') return;
+    loadHistory()
+      .then(versions => setHistory([...versions].reverse()))
+      .catch(e => {
+        console.error("Failed to load translation history", e);
+        setError("Could not load the history.");
+      });
+  }, [mode]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      onClose();
+    } catch (e: any) {
+      setError(e.message || "Something went wrong.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const tabClass = (tab: Mode) =>
+    `flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${mode === tab ? 'bg-blue-50 text-blue-700' : 'text-slate-500 hover:bg-slate-100'}`;
+
+  return (
+    <div className="mt-2 p-3 bg-white text-slate-800 rounded-lg shadow-lg border border-slate-200 font-sans text-sm space-y-2" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center gap-1">
+        <button onClick={() => setMode('retranslate')} className={tabClass('retranslate')}><RefreshCw size={12} /> Retranslate</button>
+        <button onClick={() => setMode('edit')} className={tabClass('edit')}><Pencil size={12} /> Edit</button>
+        <button onClick={() => setMode('history')} className={tabClass('history')}><History size={12} /> History</button>
+        <button onClick={onClose} className="ml-auto p-1 rounded-full text-slate-400 hover:bg-slate-100" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {mode === 'retranslate' && (
+        <form onSubmit={(e) => { e.preventDefault(); run(() => onRetranslate(instruction.trim() || undefined)); }} className="space-y-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="Instruction (optional), e.g. more formal"
+            className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none"
+          />
+          <div className="flex flex-wrap gap-1">
+            {INSTRUCTION_SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                type="button"
+                onClick={() => setInstruction(suggestion.toLowerCase())}
+                className="px-2 py-0.5 rounded-full border border-slate-200 text-xs text-slate-500 hover:bg-slate-50"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+          {segment.isEdited && (
+            <p className="text-xs text-amber-600">This replaces your own edit; it stays in the history.</p>
+          )}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-1"
+          >
+            {isBusy ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Retranslate Segment
+          </button>
+        </form>
+      )}
+
+      {mode === 'edit' && (
+        <form onSubmit={(e) => { e.preventDefault(); run(() => onSave(draft.trim())); }} className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={4}
+            className="w-full text-sm p-2 rounded border border-slate-300 focus:border-blue-500 outline-none resize-y"
+          />
+          <p className="text-xs text-slate-400">Edited segments are kept when the chapter is retranslated.</p>
+          <button
+            type="submit"
+            disabled={isBusy || !draft.trim() || draft.trim() === segment.translatedText}
+            className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-1"
+          >
+            {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Pencil size={12} />} Save Edit
+          </button>
+        </form>
+      )}
+
+      {mode === 'history' && (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {history === null && !error && <Loader2 size={14} className="animate-spin text-slate-400" />}
+          {history?.length === 0 && (
+            <p className="text-xs text-slate-400">No earlier versions of this segment.</p>
+          )}
+          {history?.map((version, index) => (
+            <div key={index} className="flex items-start gap-2 p-2 rounded border border-slate-100">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm">{version.text}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {version.edited ? 'Edited by hand' : version.model || version.provider}
+                  {version.savedAt && ` · ${new Date(version.savedAt).toLocaleString()}`}
+                </p>
+              </div>
+              <button
+                onClick={() => run(() => onRestore(version))}
+                disabled={isBusy}
+                className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-50"
+                title="Restore this version"
+              >
+                <RotateCcw size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
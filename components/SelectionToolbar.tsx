@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Check, GraduationCap, StickyNote, X } from 'lucide-react';
+import { AnnotationColor } from '../types';
+import { ANNOTATION_COLORS, TextSelection } from '../services/annotations';
+
+interface SelectionToolbarProps {
+  selection: TextSelection;
+  onHighlight: (color: AnnotationColor, note?: string) => void;
+  onDefine: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Floats above selected text: pick a color to highlight it, add a note, or
+ * look the words up for a vocabulary card.
+ */
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({ selection, onHighlight, onDefine, onClose }) => {
+  const [isWritingNote, setIsWritingNote] = useState(false);
+  const [note, setNote] = useState('');
+
+  return (
+    <div
+      className="fixed z-50 -translate-x-1/2 -translate-y-full bg-white text-slate-800 rounded-lg shadow-xl border border-slate-200 font-sans text-sm p-1.5 animate-in fade-in duration-100"
+      style={{ top: Math.max(selection.top - 8, 48), left: selection.left }}
+      // Keep the text selected while using the toolbar
+      onMouseDown={e => { if (!(e.target instanceof HTMLTextAreaElement)) e.preventDefault(); }}
+      onMouseUp={e => e.stopPropagation()}
+    >
+      {isWritingNote ? (
+        <form
+          onSubmit={(e) => { e.preventDefault(); onHighlight('yellow', note.trim() || undefined); }}
+          className="flex items-start gap-1 w-64"
+        >
+          <textarea
+            autoFocus
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            placeholder="Note"
+            className="flex-1 text-sm p-1.5 rounded border border-slate-300 focus:border-blue-500 outline-none resize-none"
+          />
+          <div className="flex flex-col gap-1">
+            <button type="submit" className="p-1.5 rounded bg-blue-600 text-white hover:bg-blue-700" title="Save note">
+              <Check size={14} />
+            </button>
+            <button type="button" onClick={onClose} className="p-1.5 rounded text-slate-400 hover:bg-slate-100" title="Cancel">
+              <X size={14} />
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-center gap-1">
+          {ANNOTATION_COLORS.map(color => (
+            <button
+              key={color.id}
+              onClick={() => onHighlight(color.id)}
+              className={`w-6 h-6 rounded-full border border-black/10 hover:scale-110 transition-transform ${color.swatch}`}
+              title={`Highlight ${color.label.toLowerCase()}`}
+            />
+          ))}
+          <div className="w-px h-5 bg-slate-200 mx-1" />
+          <button onClick={() => setIsWritingNote(true)} className="p-1 rounded hover:bg-slate-100 flex items-center gap-1 text-xs" title="Highlight with a note">
+            <StickyNote size={14} /> Note
+          </button>
+          <button onClick={onDefine} className="p-1 rounded hover:bg-slate-100 flex items-center gap-1 text-xs" title="Look up and save as a vocabulary card">
+            <GraduationCap size={14} /> Define
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Coins } from 'lucide-react';
+import { AISettings, ModelPrice } from '../types';
+import { db, UsageRecord } from '../services/db';
+import { getProvider } from '../services/providers';
+import { calculateCost, formatCost, formatUsage, getPrice, setPrice, sumUsage } from '../services/usage';
+
+interface UsageSummaryProps {
+  bookId: string;
+  aiSettings: AISettings;
+  onChange: (update: (settings: AISettings) => AISettings) => void;
+  refreshKey?: unknown; // Reloads the totals when it changes, e.g. after a translation run
+}
+
+const PRICE_FIELDS: Record<'tokens' | 'characters', { key: keyof ModelPrice; label: string }[]> = {
+  tokens: [
+    { key: 'input', label: 'Input / 1M tokens' },
+    { key: 'output', label: 'Output / 1M tokens' }
+  ],
+  characters: [
+    { key: 'characters', label: '/ 1M characters' }
+  ]
+};
+
+export const UsageSummary: React.FC<UsageSummaryProps> = ({ bookId, aiSettings, onChange, refreshKey }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+
+  useEffect(() => {
+    db.getUsage().then(setRecords).catch(e => console.error("Failed to load usage", e));
+  }, [refreshKey]);
+
+  // Each record is priced by its own model; unknown if any of them has no price
+  const getCost = (group: UsageRecord[]) => group.reduce<number | undefined>((total, record) => {
+    const cost = calculateCost(record, getPrice(aiSettings, record.provider, record.model));
+    return total === undefined || cost === undefined ? undefined : total + cost;
+  }, 0);
+
+  const bookRecords = records.filter(r => r.bookId === bookId);
+
+  const byModel = useMemo(() => {
+    const groups = new Map<string, UsageRecord[]>();
+    records.forEach(record => {
+      const key = `${record.provider}:${record.model}`;
+      groups.set(key, [...(groups.get(key) || []), record]);
+    });
+    return Array.from(groups.values());
+  }, [records]);
+
+  const billing = getProvider(aiSettings.provider).capabilities.billing;
+  const price = getPrice(aiSettings, aiSettings.provider, aiSettings.model);
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-slate-100">
+      <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-1">
+        <Coins size={12} /> Usage & Cost
+      </label>
+
+      <div>
+        <p className="text-xs text-slate-500 mb-1">Price for {aiSettings.model || aiSettings.provider} (USD)</p>
+        <div className="grid grid-cols-2 gap-2">
+          {PRICE_FIELDS[billing].map(field => (
+            <label key={field.key} className="text-xs text-slate-500">
+              {field.label}
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={price?.[field.key] ?? ''}
+                onChange={(e) => onChange(s => setPrice(s, field.key, e.target.value))}
+                className="w-full text-sm p-2 mt-1 rounded border border-slate-300 focus:border-blue-500 outline-none"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-sm">
+        <div className="flex justify-between gap-2">
+          <span className="font-medium">This book</span>
+          <span>{bookRecords.length > 0 ? formatCost(getCost(bookRecords)) : '$0.00'}</span>
+        </div>
+        {bookRecords.length > 0 && (
+          <p className="text-xs text-slate-400">{formatUsage(sumUsage(bookRecords))}</p>
+        )}
+      </div>
+
+      {byModel.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-slate-500">All books, by model</p>
+          {byModel.map(group => (
+            <div key={group[0].provider + group[0].model} className="text-xs">
+              <div className="flex justify-between gap-2">
+                <span className="truncate">{group[0].model || group[0].provider}</span>
+                <span className="shrink-0">{formatCost(getCost(group))}</span>
+              </div>
+              <p className="text-slate-400">{formatUsage(sumUsage(group))}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
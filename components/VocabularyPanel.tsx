@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Download, GraduationCap, Trash2, X } from 'lucide-react';
+import { VocabularyCard } from '../types';
+import { formatInterval, getDueCards, getWordRange, REVIEW_GRADES, ReviewGrade, scheduleReview } from '../services/vocabulary';
+import { HighlightedText } from './HighlightedText';
+
+interface VocabularyPanelProps {
+  cards: VocabularyCard[]; // Of every book
+  bookId: string;
+  onJump: (card: VocabularyCard) => void;
+  onUpdate: (card: VocabularyCard) => void;
+  onDelete: (card: VocabularyCard) => void;
+  onExport: (cards: VocabularyCard[]) => void;
+  onClose: () => void;
+}
+
+type Scope = 'book' | 'all';
+
+// The context sentence with the selected word marked
+const getWordRanges = (card: VocabularyCard): [number, number][] => {
+  const range = getWordRange(card);
+  return range ? [range] : [];
+};
+
+/**
+ * Saved vocabulary of this book or all books, with a review session over the
+ * cards that are due and an export for Anki.
+ */
+export const VocabularyPanel: React.FC<VocabularyPanelProps> = ({ cards, bookId, onJump, onUpdate, onDelete, onExport, onClose }) => {
+  const [scope, setScope] = useState<Scope>('book');
+  // Card ids still to review this session; null outside a review
+  const [queue, setQueue] = useState<string[] | null>(null);
+  const [showAnswer, setShowAnswer] = useState(false);
+
+  const scopedCards = cards
+    .filter(card => scope === 'all' || card.bookId === bookId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const dueCards = getDueCards(scopedCards);
+  const current = queue && cards.find(card => card.id === queue[0]);
+
+  const startReview = () => {
+    setQueue(dueCards.map(card => card.id));
+    setShowAnswer(false);
+  };
+
+  const grade = (card: VocabularyCard, grade: ReviewGrade) => {
+    onUpdate({ ...card, review: scheduleReview(card.review, grade) });
+    // Forgotten cards come back at the end of the session
+    setQueue(prev => prev && [...prev.slice(1), ...(grade === 'again' ? [card.id] : [])]);
+    setShowAnswer(false);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/20 backdrop-blur-[1px] z-40 animate-in fade-in duration-200" onClick={onClose} />
+      <div className="fixed top-0 right-0 bottom-0 w-96 max-w-[90vw] z-50 shadow-2xl bg-white text-slate-800 flex flex-col border-l border-slate-100 animate-in slide-in-from-right duration-300">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+          <h2 className="font-semibold text-lg flex items-center gap-2">
+            {queue ? (
+              <button onClick={() => setQueue(null)} className="p-1 -ml-1 rounded-full hover:bg-slate-100" title="Back to the list">
+                <ArrowLeft size={18} />
+              </button>
+            ) : (
+              <GraduationCap size={20} className="text-blue-600" />
+            )}
+            {queue ? 'Review' : 'Vocabulary'}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {queue ? (
+          <div className="flex-1 overflow-y-auto p-4">
+            {current ? (
+              <div className="space-y-4">
+                <p className="text-xs text-slate-400">{queue.length} left</p>
+                <p className="text-2xl font-bold">{current.word}</p>
+                <p className="text-sm text-slate-500 italic leading-relaxed">
+                  <HighlightedText text={current.context} ranges={getWordRanges(current)} />
+                </p>
+                {showAnswer ? (
+                  <>
+                    <p className="text-sm whitespace-pre-wrap border-t border-slate-100 pt-4">{current.definition}</p>
+                    <div className="grid grid-cols-4 gap-1 pt-2">
+                      {REVIEW_GRADES.map(({ id, label }) => (
+                        <button
+                          key={id}
+                          onClick={() => grade(current, id)}
+                          className={`flex flex-col items-center py-2 rounded-lg text-sm font-medium transition-colors ${id === 'again' ? 'bg-red-50 text-red-700 hover:bg-red-100' : 'bg-slate-50 hover:bg-slate-100'}`}
+                        >
+                          {label}
+                          <span className="text-[10px] font-normal opacity-60">{formatInterval(scheduleReview(current.review, id).interval)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <button onClick={() => setShowAnswer(true)} className="w-full py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors">
+                    Show answer
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="p-8 text-center text-sm text-slate-400">All caught up. Nothing else is due.</div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-1 px-4 py-2 border-b border-slate-100 text-xs">
+              {(['book', 'all'] as Scope[]).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setScope(s)}
+                  className={`px-2 py-1 rounded-full ${scope === s ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                >
+                  {s === 'book' ? 'This book' : 'All books'}
+                </button>
+              ))}
+              <button
+                onClick={() => onExport(scopedCards)}
+                disabled={scopedCards.length === 0}
+                className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-40"
+                title="Export for Anki (tab-separated)"
+              >
+                <Download size={12} /> Anki
+              </button>
+            </div>
+
+            <div className="p-4 border-b border-slate-100">
+              <button
+                onClick={startReview}
+                disabled={dueCards.length === 0}
+                className="w-full py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-500 transition-colors"
+              >
+                {dueCards.length > 0 ? `Review ${dueCards.length} due` : 'Nothing due for review'}
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2">
+              {scopedCards.length === 0 && (
+                <div className="p-8 text-center text-sm text-slate-400">
+                  Select a word in either column and choose Define to save it here.
+                </div>
+              )}
+              {scopedCards.map(card => (
+                <div key={card.id} className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-50 group">
+                  <div className="flex-1 min-w-0">
+                    <button
+                      onClick={() => onJump(card)}
+                      disabled={card.bookId !== bookId}
+                      className="text-left text-sm font-semibold hover:text-blue-600 disabled:hover:text-inherit"
+                      title={card.bookId === bookId ? 'Go to' : card.bookTitle}
+                    >
+                      {card.word}
+                    </button>
+                    <p className="text-xs text-slate-600 line-clamp-2">{card.definition}</p>
+                    {scope === 'all' && <p className="text-[10px] text-slate-400 truncate">{card.bookTitle}</p>}
+                  </div>
+                  <button
+                    onClick={() => onDelete(card)}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100"
+                    title="Delete"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
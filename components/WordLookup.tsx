@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { GraduationCap, Loader2, RefreshCw, X } from 'lucide-react';
+
+interface WordLookupProps {
+  word: string;
+  context: string;
+  onLookUp: () => Promise<string>;
+  onSave: (definition: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks the provider what the selected words mean in their sentence; the
+ * answer can be corrected before it is saved as a vocabulary card.
+ */
+export const WordLookup: React.FC<WordLookupProps> = ({ word, context, onLookUp, onSave, onClose }) => {
+  const [definition, setDefinition] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    setIsLoading(true);
+    setError(null);
+    onLookUp()
+      .then(text => { if (active) setDefinition(text); })
+      .catch(e => { if (active) setError(e.message || "The lookup failed."); })
+      .finally(() => { if (active) setIsLoading(false); });
+    return () => { active = false; };
+  }, [attempt]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-white text-slate-800 rounded-xl shadow-2xl p-5 w-full max-w-md border border-slate-100 font-sans space-y-3 animate-in zoom-in-95 duration-200">
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <GraduationCap size={20} className="text-blue-600 shrink-0" /> {word}
+          </h3>
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-slate-100 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+        <p className="text-sm text-slate-500 italic leading-relaxed">{context}</p>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-slate-500 py-6 justify-center">
+            <Loader2 size={16} className="animate-spin" /> Looking up...
+          </div>
+        ) : (
+          <textarea
+            value={definition}
+            onChange={(e) => setDefinition(e.target.value)}
+            rows={5}
+            placeholder="Definition"
+            className="w-full text-sm p-2 rounded-lg border border-slate-300 focus:border-blue-500 outline-none resize-y"
+          />
+        )}
+        {error && (
+          <p className="text-xs text-red-600 flex items-center gap-2">
+            {error}
+            <button onClick={() => setAttempt(n => n + 1)} className="flex items-center gap-1 underline">
+              <RefreshCw size={12} /> Retry
+            </button>
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-100 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(definition.trim())}
+            disabled={isLoading || !definition.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors shadow-sm"
+          >
+            Save card
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
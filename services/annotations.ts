@@ -0,0 +1,115 @@
+import { Annotation, AnnotationColor, AnnotationSide } from "../types";
+
+/**
+ * Highlights are stored as character offsets into one side of a segment (its
+ * original or translated text, as rendered) and painted with the CSS Custom
+ * Highlight API, so the book's markup is never rewritten to show them.
+ */
+
+export const ANNOTATION_COLORS: { id: AnnotationColor; label: string; swatch: string }[] = [
+  { id: 'yellow', label: 'Yellow', swatch: 'bg-yellow-300' },
+  { id: 'green', label: 'Green', swatch: 'bg-green-300' },
+  { id: 'blue', label: 'Blue', swatch: 'bg-sky-300' },
+  { id: 'pink', label: 'Pink', swatch: 'bg-pink-300' }
+];
+
+// Styled by ::highlight(annotation-<color>) rules in index.html
+const getHighlightName = (color: AnnotationColor) => `annotation-${color}`;
+
+// Text selected inside one side of a segment, ready to become a highlight
+export interface TextSelection {
+  segmentId: string;
+  side: AnnotationSide;
+  range: [number, number];
+  text: string;
+  top: number; // Viewport position of the selection, for the toolbar
+  left: number;
+}
+
+export const createAnnotation = (
+  bookId: string,
+  fields: Omit<Annotation, 'id' | 'bookId' | 'createdAt' | 'updatedAt'>
+): Annotation => ({
+  ...fields,
+  id: `${bookId}_${crypto.randomUUID()}`,
+  bookId,
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+// The element holding one side's text; segment IDs are safe in selectors
+const getSideElement = (root: ParentNode, segmentId: string, side: AnnotationSide) =>
+  root.querySelector(`[data-segment-id="${segmentId}"][data-annotation-side="${side}"]`);
+
+/**
+ * The selection as a highlight target, or null unless it lies within the text
+ * of a single segment side.
+ */
+export const getTextSelection = (selection: Selection | null): TextSelection | null => {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  const common = range.commonAncestorContainer;
+  const container = (common instanceof Element ? common : common.parentElement)?.closest('[data-annotation-side]');
+  const text = range.toString();
+  if (!container || !text.trim()) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  const rect = range.getBoundingClientRect();
+
+  return {
+    segmentId: container.getAttribute('data-segment-id')!,
+    side: container.getAttribute('data-annotation-side') as AnnotationSide,
+    range: [start, start + text.length],
+    text,
+    top: rect.top,
+    left: rect.left + rect.width / 2
+  };
+};
+
+// A DOM range over the given character offsets of the element's text
+const createDomRange = (element: Element, [start, end]: [number, number]): Range | null => {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length || 0;
+    if (!started && start <= offset + length) {
+      range.setStart(node, start - offset);
+      started = true;
+    }
+    if (started && end <= offset + length) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset += length;
+  }
+  return null; // The text is shorter than it was: the segment changed since
+};
+
+/**
+ * Paints the highlights found under `root`, replacing any painted before.
+ * Does nothing where the browser lacks the Custom Highlight API.
+ */
+export const paintHighlights = (root: ParentNode, annotations: Annotation[]) => {
+  if (typeof CSS === 'undefined' || !('highlights' in CSS) || typeof Highlight === 'undefined') return;
+
+  ANNOTATION_COLORS.forEach(({ id: color }) => {
+    const ranges = annotations
+      .filter(a => a.kind === 'highlight' && a.range && a.side && (a.color || 'yellow') === color)
+      .map(a => {
+        const element = getSideElement(root, a.segmentId, a.side!);
+        return element ? createDomRange(element, a.range!) : null;
+      })
+      .filter((range): range is Range => range !== null);
+    CSS.highlights.set(getHighlightName(color), new Highlight(...ranges));
+  });
+};
+
+export const clearHighlights = () => {
+  if (typeof CSS === 'undefined' || !('highlights' in CSS)) return;
+  ANNOTATION_COLORS.forEach(({ id }) => CSS.highlights.delete(getHighlightName(id)));
+};
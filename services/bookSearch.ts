@@ -0,0 +1,134 @@
+import JSZip from "jszip";
+import { ChapterRef, TargetLanguage } from "../types";
+import { db } from "./db";
+import { parseChapterContent } from "./epubParser";
+import { isTranslationError } from "./geminiService";
+import {
+  buildSearchDocument,
+  getSearchDocumentKey,
+  matchDocument,
+  ORIGINAL_SOURCE,
+  parseQuery,
+  SEARCH_INDEX_VERSION,
+  SearchDocument,
+  SearchOptions,
+  TextRange
+} from "./searchIndex";
+
+export type SearchScope = 'all' | 'original' | 'translation';
+
+export interface BookSearchOptions extends SearchOptions {
+  targetLanguage: TargetLanguage; // Which translation to search
+  scope?: SearchScope;
+}
+
+export interface SearchHit {
+  chapterIndex: number;
+  chapterHref: string;
+  segmentId: string;
+  source: string; // ORIGINAL_SOURCE or the target language
+  text: string;
+  ranges: TextRange[];
+}
+
+export interface BookSearchResults {
+  hits: SearchHit[]; // In reading order
+  chapterCounts: Record<string, number>; // chapterHref -> hits
+}
+
+/**
+ * Indexes what has no up-to-date search document yet: each chapter's original
+ * text and, when given, its saved translation in `targetLanguage`. Later
+ * translations are indexed as they are saved.
+ */
+export const ensureSearchIndex = async (
+  bookId: string,
+  zip: JSZip,
+  chapters: ChapterRef[],
+  targetLanguage?: TargetLanguage
+) => {
+  const current = new Set(
+    (await db.getSearchDocuments(bookId)).filter(doc => doc.version === SEARCH_INDEX_VERSION).map(doc => doc.id)
+  );
+
+  for (const chapter of chapters) {
+    const documents: SearchDocument[] = [];
+
+    if (!current.has(getSearchDocumentKey(bookId, chapter.href, ORIGINAL_SOURCE))) {
+      const segments = await parseChapterContent(zip, chapter, 'text-only');
+      documents.push(buildSearchDocument(
+        bookId,
+        chapter.href,
+        ORIGINAL_SOURCE,
+        segments.filter(s => s.type === 'text').map(s => ({ id: s.id, text: s.originalText }))
+      ));
+    }
+
+    if (targetLanguage && !current.has(getSearchDocumentKey(bookId, chapter.href, targetLanguage))) {
+      const saved = await db.getTranslations(bookId, chapter.href, targetLanguage);
+      documents.push(buildSearchDocument(
+        bookId,
+        chapter.href,
+        targetLanguage,
+        Object.entries(saved)
+          .filter(([, translation]) => !isTranslationError(translation.text))
+          .map(([id, translation]) => ({ id, text: translation.text }))
+      ));
+    }
+
+    if (documents.length > 0) await db.saveSearchDocuments(documents);
+  }
+};
+
+// Indexes a newly imported book's original text
+export const indexBookFile = async (bookId: string, file: Blob, chapters: ChapterRef[]) => {
+  const zip = await new JSZip().loadAsync(file);
+  await ensureSearchIndex(bookId, zip, chapters);
+};
+
+/**
+ * Searches the book's original text and/or its translation. Hits come in
+ * reading order, a translation hit right after the original of its segment.
+ * Throws if the query is an invalid regular expression.
+ */
+export const searchBook = async (
+  bookId: string,
+  chapters: ChapterRef[],
+  query: string,
+  options: BookSearchOptions
+): Promise<BookSearchResults> => {
+  const parsed = parseQuery(query, options);
+  const scope = options.scope || 'all';
+  const documents = await db.getSearchDocuments(bookId);
+
+  const chapterIndexes = new Map(chapters.map((chapter, index) => [chapter.href, index]));
+  const positions = new Map<string, number>();
+  documents
+    .filter(doc => doc.source === ORIGINAL_SOURCE)
+    .forEach(doc => doc.segments.forEach((segment, index) => positions.set(`${doc.chapterHref}#${segment.id}`, index)));
+  const getPosition = (hit: SearchHit) => positions.get(`${hit.chapterHref}#${hit.segmentId}`) ?? Number.MAX_SAFE_INTEGER;
+
+  const hits: SearchHit[] = [];
+  documents
+    .filter(doc => doc.source === ORIGINAL_SOURCE ? scope !== 'translation' : doc.source === options.targetLanguage && scope !== 'original')
+    .forEach(doc => {
+      const chapterIndex = chapterIndexes.get(doc.chapterHref);
+      if (chapterIndex === undefined) return;
+      matchDocument(doc, parsed).forEach(({ index, ranges }) => {
+        const segment = doc.segments[index];
+        hits.push({ chapterIndex, chapterHref: doc.chapterHref, segmentId: segment.id, source: doc.source, text: segment.text, ranges });
+      });
+    });
+
+  hits.sort((a, b) =>
+    a.chapterIndex - b.chapterIndex ||
+    getPosition(a) - getPosition(b) ||
+    Number(a.source !== ORIGINAL_SOURCE) - Number(b.source !== ORIGINAL_SOURCE)
+  );
+
+  const chapterCounts: Record<string, number> = {};
+  hits.forEach(hit => {
+    chapterCounts[hit.chapterHref] = (chapterCounts[hit.chapterHref] || 0) + 1;
+  });
+  return { hits, chapterCounts };
+};
@@ -1,26 +1,205 @@
-import { LibraryBook, Segment } from "../types";
+import { AISettings, Annotation, GlossaryEntry, LibraryBook, Segment, TargetLanguage, UsageCounts, VocabularyCard } from "../types";
+import { isTranslationError } from "./geminiService";
+import { buildSearchDocument, SearchDocument } from "./searchIndex";
+import { getSourceHash, matchSavedTranslations } from "./segmentIds";
 
 const DB_NAME = "LingoBinderDB";
-const DB_VERSION = 4;
+const DB_VERSION = 13;
 
 // Stores
 const STORE_BOOKS = "books";
 const STORE_FILES = "files"; // Stores raw EPUB blobs
 const STORE_TRANSLATIONS = "translations";
 const STORE_PROGRESS = "progress";
+const STORE_JOBS = "jobs"; // Whole-book translation jobs
+const STORE_GLOSSARY = "glossary"; // One term list per book
+const STORE_USAGE = "usage"; // API usage per book, chapter and model
+const STORE_SEARCH = "search"; // Full-text search documents per chapter and language
+const STORE_ANNOTATIONS = "annotations"; // Highlights, notes and bookmarks
+const STORE_VOCABULARY = "vocabulary"; // Vocabulary cards of all books, kept when a book is removed
+const STORE_SESSIONS = "sessions"; // Reading sessions per book, for statistics
+
+interface StoredSegmentTranslation {
+  text: string;
+  html?: string; // Inline markup, only when it validated against the source
+  provider: string;
+  model: string;
+  edited?: boolean; // Written by hand
+  savedAt?: number;
+  sourceHash?: string; // Hash of the source text it translates; missing in older records
+  history?: TranslationVersion[]; // Earlier versions, oldest first
+}
+
+// Versions kept per segment, besides the current one
+const MAX_HISTORY = 20;
+
+interface StoredGlossary {
+  bookId: string;
+  entries: GlossaryEntry[];
+}
 
 interface StoredTranslation {
-  id: string; // Composite key: bookId_chapterHref
-  segments: Record<string, string>; // segmentId -> translatedText
+  id: string; // Composite key: bookId_chapterHref_targetLanguage
+  bookId: string;
+  chapterHref: string;
+  targetLanguage: string;
+  segments: Record<string, StoredSegmentTranslation>; // segmentId -> translation
+}
+
+// Pre-v5 records were keyed by bookId_chapterHref only and had no language.
+// The reader defaulted to Chinese, so that is the best guess for old data.
+const LEGACY_TARGET_LANGUAGE = TargetLanguage.CHINESE;
+
+const getTranslationKey = (bookId: string, chapterHref: string, targetLanguage: string) =>
+  `${bookId}_${chapterHref}_${targetLanguage}`;
+
+const getUsageKey = (bookId: string, chapterHref: string, provider: string, model: string) =>
+  `${bookId}_${chapterHref}_${provider}_${model}`;
+
+const migrateTranslationsToV5 = (store: IDBObjectStore) => {
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const legacy = cursor.value as { id: string; segments: Record<string, unknown> };
+    if (!("targetLanguage" in legacy)) {
+      // Book IDs are UUIDs, so the first underscore separates bookId from href
+      const separator = legacy.id.indexOf("_");
+      const bookId = legacy.id.substring(0, separator);
+      const chapterHref = legacy.id.substring(separator + 1);
+
+      const segments: Record<string, StoredSegmentTranslation> = {};
+      Object.entries(legacy.segments || {}).forEach(([segmentId, text]) => {
+        if (typeof text === "string") {
+          segments[segmentId] = { text, provider: "unknown", model: "unknown" };
+        }
+      });
+
+      const migrated: StoredTranslation = {
+        id: getTranslationKey(bookId, chapterHref, LEGACY_TARGET_LANGUAGE),
+        bookId,
+        chapterHref,
+        targetLanguage: LEGACY_TARGET_LANGUAGE,
+        segments
+      };
+      cursor.delete();
+      store.put(migrated);
+    }
+    cursor.continue();
+  };
+};
+
+export interface SavedTranslation {
+  text: string;
+  html?: string;
+  edited?: boolean;
+  sourceHash?: string;
+}
+
+// A translation a segment had before it was replaced
+export interface TranslationVersion {
+  text: string;
+  html?: string;
+  provider: string;
+  model: string;
+  edited?: boolean;
+  savedAt?: number; // Missing for versions saved before history was kept
+}
+
+// Moves the stored translation into the history when it is being replaced; failed attempts are not kept
+const getHistory = (existing: StoredSegmentTranslation | undefined, text: string): TranslationVersion[] | undefined => {
+  if (!existing || existing.text === text || isTranslationError(existing.text)) return existing?.history;
+  const { history = [], ...version } = existing;
+  return [...history, version].slice(-MAX_HISTORY);
+};
+
+// The chapter's translations as a search document; failed attempts are not indexed
+const getTranslationSearchDocument = (record: StoredTranslation): SearchDocument =>
+  buildSearchDocument(
+    record.bookId,
+    record.chapterHref,
+    record.targetLanguage,
+    Object.entries(record.segments)
+      .filter(([, entry]) => !isTranslationError(entry.text))
+      .map(([id, entry]) => ({ id, text: entry.text }))
+  );
+
+export interface ChapterJobProgress {
+  total: number; // Text segments in the chapter
+  translated: number;
+  failed?: number; // Left untranslated by this run, retried when the job is resumed
+}
+
+export interface BookTranslationJob {
+  bookId: string;
+  targetLanguage: TargetLanguage;
+  settings: AISettings; // Snapshot, so the job can resume after a reload
+  status: 'running' | 'paused' | 'completed' | 'incomplete' | 'error';
+  chapters: Record<string, ChapterJobProgress>; // chapterHref -> progress
+  currentChapterHref?: string;
+  error?: string;
+  updatedAt: number;
+}
+
+export interface UsageRecord extends UsageCounts {
+  id: string; // Composite key: bookId_chapterHref_provider_model
+  bookId: string;
+  chapterHref: string;
+  provider: string;
+  model: string;
+  updatedAt: number;
 }
 
 export interface ReadingProgress {
   bookId: string;
   chapterIndex: number;
   segmentId: string;
+  percentage?: number; // Through the whole book by characters; missing until the book is indexed
   updatedAt: number;
 }
 
+// One sitting with a book: time spent actively reading and what was read
+export interface ReadingSession {
+  id: string; // Composite key: bookId_startedAt
+  bookId: string;
+  startedAt: number;
+  updatedAt: number;
+  seconds: number;
+  words: number;
+  segmentsTranslated: number;
+}
+
+/**
+ * Books from before v13 get empty shelves and tags, and count as last opened
+ * when their reading progress was last saved.
+ */
+const migrateBooksToV13 = (books: IDBObjectStore, progress?: IDBObjectStore) => {
+  const lastRead = new Map<string, number>();
+  const migrate = () => {
+    const request = books.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const book = cursor.value as LibraryBook;
+      cursor.update({
+        ...book,
+        lastOpenedAt: book.lastOpenedAt ?? lastRead.get(book.id),
+        shelves: book.shelves || [],
+        tags: book.tags || []
+      });
+      cursor.continue();
+    };
+  };
+
+  if (!progress) return migrate();
+  const request = progress.getAll();
+  request.onsuccess = () => {
+    (request.result as ReadingProgress[]).forEach(p => lastRead.set(p.bookId, p.updatedAt));
+    migrate();
+  };
+};
+
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
@@ -29,19 +208,48 @@ const openDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const upgradeTx = (event.target as IDBOpenDBRequest).transaction;
       
       if (!db.objectStoreNames.contains(STORE_BOOKS)) {
         db.createObjectStore(STORE_BOOKS, { keyPath: "id" });
+      } else if (event.oldVersion < 13 && upgradeTx) {
+        migrateBooksToV13(
+          upgradeTx.objectStore(STORE_BOOKS),
+          db.objectStoreNames.contains(STORE_PROGRESS) ? upgradeTx.objectStore(STORE_PROGRESS) : undefined
+        );
       }
       if (!db.objectStoreNames.contains(STORE_FILES)) {
         db.createObjectStore(STORE_FILES); // Key will be bookId
       }
       if (!db.objectStoreNames.contains(STORE_TRANSLATIONS)) {
         db.createObjectStore(STORE_TRANSLATIONS, { keyPath: "id" });
+      } else if (event.oldVersion < 5 && upgradeTx) {
+        migrateTranslationsToV5(upgradeTx.objectStore(STORE_TRANSLATIONS));
       }
       if (!db.objectStoreNames.contains(STORE_PROGRESS)) {
         db.createObjectStore(STORE_PROGRESS, { keyPath: "bookId" });
       }
+      if (!db.objectStoreNames.contains(STORE_JOBS)) {
+        db.createObjectStore(STORE_JOBS, { keyPath: "bookId" });
+      }
+      if (!db.objectStoreNames.contains(STORE_GLOSSARY)) {
+        db.createObjectStore(STORE_GLOSSARY, { keyPath: "bookId" });
+      }
+      if (!db.objectStoreNames.contains(STORE_USAGE)) {
+        db.createObjectStore(STORE_USAGE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORE_SEARCH)) {
+        db.createObjectStore(STORE_SEARCH, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORE_ANNOTATIONS)) {
+        db.createObjectStore(STORE_ANNOTATIONS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORE_VOCABULARY)) {
+        db.createObjectStore(STORE_VOCABULARY, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORE_SESSIONS)) {
+        db.createObjectStore(STORE_SESSIONS, { keyPath: "id" });
+      }
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -72,6 +280,17 @@ export const db = {
     });
   },
 
+  // Saves a book's details: shelves, tags, when it was last opened
+  updateBook: async (book: LibraryBook) => {
+    const db = await openDB();
+    const tx = db.transaction(STORE_BOOKS, "readwrite");
+    tx.objectStore(STORE_BOOKS).put(book);
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
   getBookFile: async (id: string): Promise<Blob | undefined> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
@@ -87,31 +306,45 @@ export const db = {
     
     const stores = [STORE_BOOKS, STORE_FILES];
     if (db.objectStoreNames.contains(STORE_PROGRESS)) stores.push(STORE_PROGRESS);
+    if (db.objectStoreNames.contains(STORE_JOBS)) stores.push(STORE_JOBS);
+    if (db.objectStoreNames.contains(STORE_GLOSSARY)) stores.push(STORE_GLOSSARY);
+    if (db.objectStoreNames.contains(STORE_ANNOTATIONS)) stores.push(STORE_ANNOTATIONS);
 
-    // 1. Delete Book & File & Progress (Critical path)
+    // 1. Delete Book & File & Progress & Job & Glossary & Annotations (Critical path)
     const tx = db.transaction(stores, "readwrite");
     tx.objectStore(STORE_BOOKS).delete(id);
     tx.objectStore(STORE_FILES).delete(id);
     if (db.objectStoreNames.contains(STORE_PROGRESS)) {
         tx.objectStore(STORE_PROGRESS).delete(id);
     }
+    if (db.objectStoreNames.contains(STORE_JOBS)) {
+        tx.objectStore(STORE_JOBS).delete(id);
+    }
+    if (db.objectStoreNames.contains(STORE_GLOSSARY)) {
+        tx.objectStore(STORE_GLOSSARY).delete(id);
+    }
+    if (db.objectStoreNames.contains(STORE_ANNOTATIONS)) {
+        // The reader's own work: removed together with the book, not left behind
+        tx.objectStore(STORE_ANNOTATIONS).delete(IDBKeyRange.bound(`${id}_`, `${id}_\uffff`));
+    }
 
     await new Promise<void>((resolve, reject) => {
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
 
-    // 2. Cleanup Translations (Best effort)
-    if (db.objectStoreNames.contains(STORE_TRANSLATIONS)) {
+    // 2. Cleanup Translations, Usage, Search Index & Reading Sessions (Best effort)
+    const keyedByBook = [STORE_TRANSLATIONS, STORE_USAGE, STORE_SEARCH, STORE_SESSIONS].filter(store => db.objectStoreNames.contains(store));
+    if (keyedByBook.length > 0) {
         try {
-            const txTrans = db.transaction([STORE_TRANSLATIONS], "readwrite");
+            const txTrans = db.transaction(keyedByBook, "readwrite");
             const range = IDBKeyRange.bound(`${id}_`, `${id}_\uffff`);
-            txTrans.objectStore(STORE_TRANSLATIONS).delete(range);
+            keyedByBook.forEach(store => txTrans.objectStore(store).delete(range));
             
             await new Promise<void>((resolve) => {
                 txTrans.oncomplete = () => resolve();
                 txTrans.onerror = () => {
-                    console.warn("Translation cleanup failed silently");
+                    console.warn("Translation, usage, search index and session cleanup failed silently");
                     resolve();
                 };
             });
@@ -121,25 +354,23 @@ export const db = {
     }
   },
 
-  saveTranslations: async (bookId: string, chapterHref: string, segments: Segment[]) => {
+  saveTranslations: async (
+    bookId: string,
+    chapterHref: string,
+    targetLanguage: TargetLanguage,
+    segments: Segment[],
+    settings: AISettings
+  ) => {
     // Filter only segments that have translations
-    const translatedMap: Record<string, string> = {};
-    let hasContent = false;
-    
-    segments.forEach(s => {
-      if (s.translatedText) {
-        translatedMap[s.id] = s.translatedText;
-        hasContent = true;
-      }
-    });
-
-    if (!hasContent) return;
+    const translated = segments.filter(s => s.translatedText);
+    if (translated.length === 0) return;
 
     const db = await openDB();
     if (!db.objectStoreNames.contains(STORE_TRANSLATIONS)) return; 
 
-    const tx = db.transaction(STORE_TRANSLATIONS, "readwrite");
-    const id = `${bookId}_${chapterHref}`;
+    const indexed = db.objectStoreNames.contains(STORE_SEARCH);
+    const tx = db.transaction(indexed ? [STORE_TRANSLATIONS, STORE_SEARCH] : STORE_TRANSLATIONS, "readwrite");
+    const id = getTranslationKey(bookId, chapterHref, targetLanguage);
     
     const store = tx.objectStore(STORE_TRANSLATIONS);
     
@@ -147,11 +378,29 @@ export const db = {
        const getReq = store.get(id);
        getReq.onsuccess = () => {
          const existing = getReq.result as StoredTranslation | undefined;
-         const merged = {
+         const merged: StoredTranslation = {
             id,
-            segments: { ...(existing?.segments || {}), ...translatedMap }
+            bookId,
+            chapterHref,
+            targetLanguage,
+            segments: { ...(existing?.segments || {}) }
          };
+         translated.forEach(s => {
+            const previous = merged.segments[s.id];
+            merged.segments[s.id] = {
+              text: s.translatedText!,
+              html: s.translatedHtml,
+              provider: settings.provider,
+              model: settings.model,
+              edited: s.isEdited || undefined,
+              sourceHash: getSourceHash(s.originalText),
+              // Saving an unchanged segment again keeps its original date
+              savedAt: previous?.text === s.translatedText ? previous.savedAt : Date.now(),
+              history: getHistory(previous, s.translatedText!)
+            };
+         });
          store.put(merged);
+         if (indexed) tx.objectStore(STORE_SEARCH).put(getTranslationSearchDocument(merged));
        };
        
        tx.oncomplete = () => resolve();
@@ -159,23 +408,97 @@ export const db = {
     });
   },
 
-  getTranslations: async (bookId: string, chapterHref: string): Promise<Record<string, string>> => {
+  getTranslations: async (
+    bookId: string,
+    chapterHref: string,
+    targetLanguage: TargetLanguage
+  ): Promise<Record<string, SavedTranslation>> => {
     const db = await openDB();
     if (!db.objectStoreNames.contains(STORE_TRANSLATIONS)) return {};
 
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_TRANSLATIONS, "readonly");
-      const id = `${bookId}_${chapterHref}`;
+      const id = getTranslationKey(bookId, chapterHref, targetLanguage);
       const request = tx.objectStore(STORE_TRANSLATIONS).get(id);
       request.onsuccess = () => {
         const result = request.result as StoredTranslation | undefined;
-        resolve(result ? result.segments : {});
+        const translations: Record<string, SavedTranslation> = {};
+        if (result) {
+          Object.entries(result.segments).forEach(([segmentId, entry]) => {
+            translations[segmentId] = { text: entry.text, html: entry.html, edited: entry.edited, sourceHash: entry.sourceHash };
+          });
+        }
+        resolve(translations);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  /**
+   * Saved translations for the chapter's current segments, keyed by their IDs.
+   * Translations stored under an outdated ID are moved to the segment they
+   * belong to, so the next load finds them directly; ones whose source text
+   * changed are left out.
+   */
+  getChapterTranslations: async (
+    bookId: string,
+    chapterHref: string,
+    targetLanguage: TargetLanguage,
+    segments: Segment[]
+  ): Promise<Record<string, SavedTranslation>> => {
+    const { translations, moved } = matchSavedTranslations(segments, await db.getTranslations(bookId, chapterHref, targetLanguage));
+    if (moved.length === 0) return translations;
+
+    const sources = new Map(segments.map(s => [s.id, s.originalText]));
+    const dbInstance = await openDB();
+    const indexed = dbInstance.objectStoreNames.contains(STORE_SEARCH);
+    const tx = dbInstance.transaction(indexed ? [STORE_TRANSLATIONS, STORE_SEARCH] : STORE_TRANSLATIONS, "readwrite");
+    const store = tx.objectStore(STORE_TRANSLATIONS);
+    const request = store.get(getTranslationKey(bookId, chapterHref, targetLanguage));
+    request.onsuccess = () => {
+      const record = request.result as StoredTranslation | undefined;
+      if (!record) return;
+      moved.forEach(({ from, to }) => {
+        const entry = record.segments[from];
+        if (!entry) return;
+        delete record.segments[from];
+        record.segments[to] = { ...entry, sourceHash: getSourceHash(sources.get(to) || "") };
+      });
+      store.put(record);
+      if (indexed) tx.objectStore(STORE_SEARCH).put(getTranslationSearchDocument(record));
+    };
+
+    // Best effort: the matched translations are usable either way
+    await new Promise<void>((resolve) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => {
+        console.warn("Could not move translations to their new segment IDs", tx.error);
+        resolve();
+      };
+    });
+    return translations;
+  },
+
+  // Earlier versions of one segment's translation, oldest first
+  getSegmentHistory: async (
+    bookId: string,
+    chapterHref: string,
+    targetLanguage: TargetLanguage,
+    segmentId: string
+  ): Promise<TranslationVersion[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_TRANSLATIONS, "readonly");
+      const request = tx.objectStore(STORE_TRANSLATIONS).get(getTranslationKey(bookId, chapterHref, targetLanguage));
+      request.onsuccess = () => {
+        const result = request.result as StoredTranslation | undefined;
+        resolve(result?.segments[segmentId]?.history || []);
       };
       request.onerror = () => reject(request.error);
     });
   },
 
-  saveProgress: async (bookId: string, chapterIndex: number, segmentId: string) => {
+  saveProgress: async (bookId: string, chapterIndex: number, segmentId: string, percentage?: number) => {
       const db = await openDB();
       if (!db.objectStoreNames.contains(STORE_PROGRESS)) return;
 
@@ -183,6 +506,7 @@ export const db = {
           bookId,
           chapterIndex,
           segmentId,
+          percentage,
           updatedAt: Date.now()
       };
 
@@ -205,5 +529,227 @@ export const db = {
           request.onsuccess = () => resolve(request.result);
           request.onerror = () => reject(request.error);
       });
+  },
+
+  getAllProgress: async (): Promise<ReadingProgress[]> => {
+      const db = await openDB();
+      if (!db.objectStoreNames.contains(STORE_PROGRESS)) return [];
+
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_PROGRESS, "readonly");
+          const request = tx.objectStore(STORE_PROGRESS).getAll();
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  saveReadingSession: async (session: ReadingSession) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_SESSIONS, "readwrite");
+      tx.objectStore(STORE_SESSIONS).put(session);
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  getReadingSessions: async (bookId: string): Promise<ReadingSession[]> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_SESSIONS, "readonly");
+          const request = tx.objectStore(STORE_SESSIONS).getAll(IDBKeyRange.bound(`${bookId}_`, `${bookId}_\uffff`));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  getGlossary: async (bookId: string): Promise<GlossaryEntry[]> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_GLOSSARY, "readonly");
+          const request = tx.objectStore(STORE_GLOSSARY).get(bookId);
+          request.onsuccess = () => {
+              const result = request.result as StoredGlossary | undefined;
+              resolve(result ? result.entries : []);
+          };
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  saveGlossary: async (bookId: string, entries: GlossaryEntry[]) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_GLOSSARY, "readwrite");
+      const record: StoredGlossary = { bookId, entries };
+      tx.objectStore(STORE_GLOSSARY).put(record);
+
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  saveJob: async (job: BookTranslationJob) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_JOBS, "readwrite");
+      tx.objectStore(STORE_JOBS).put(job);
+
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  getJob: async (bookId: string): Promise<BookTranslationJob | undefined> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_JOBS, "readonly");
+          const request = tx.objectStore(STORE_JOBS).get(bookId);
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  getJobs: async (): Promise<BookTranslationJob[]> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_JOBS, "readonly");
+          const request = tx.objectStore(STORE_JOBS).getAll();
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  // Adds one or more requests' usage to the running totals for the chapter and model
+  addUsage: async (bookId: string, chapterHref: string, settings: AISettings, usage: UsageCounts) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_USAGE, "readwrite");
+      const store = tx.objectStore(STORE_USAGE);
+      const id = getUsageKey(bookId, chapterHref, settings.provider, settings.model);
+
+      return new Promise<void>((resolve, reject) => {
+          const getReq = store.get(id);
+          getReq.onsuccess = () => {
+              const existing = getReq.result as UsageRecord | undefined;
+              const record: UsageRecord = {
+                  id,
+                  bookId,
+                  chapterHref,
+                  provider: settings.provider,
+                  model: settings.model,
+                  inputTokens: (existing?.inputTokens || 0) + usage.inputTokens,
+                  outputTokens: (existing?.outputTokens || 0) + usage.outputTokens,
+                  characters: (existing?.characters || 0) + usage.characters,
+                  requests: (existing?.requests || 0) + usage.requests,
+                  updatedAt: Date.now()
+              };
+              store.put(record);
+          };
+
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  getUsage: async (): Promise<UsageRecord[]> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_USAGE, "readonly");
+          const request = tx.objectStore(STORE_USAGE).getAll();
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  saveAnnotation: async (annotation: Annotation) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_ANNOTATIONS, "readwrite");
+      tx.objectStore(STORE_ANNOTATIONS).put(annotation);
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  getAnnotations: async (bookId: string): Promise<Annotation[]> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_ANNOTATIONS, "readonly");
+          const request = tx.objectStore(STORE_ANNOTATIONS).getAll(IDBKeyRange.bound(`${bookId}_`, `${bookId}_\uffff`));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  deleteAnnotation: async (id: string) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_ANNOTATIONS, "readwrite");
+      tx.objectStore(STORE_ANNOTATIONS).delete(id);
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  saveVocabularyCard: async (card: VocabularyCard) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_VOCABULARY, "readwrite");
+      tx.objectStore(STORE_VOCABULARY).put(card);
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  getVocabularyCards: async (): Promise<VocabularyCard[]> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_VOCABULARY, "readonly");
+          const request = tx.objectStore(STORE_VOCABULARY).getAll();
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  deleteVocabularyCard: async (id: string) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_VOCABULARY, "readwrite");
+      tx.objectStore(STORE_VOCABULARY).delete(id);
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  saveSearchDocuments: async (documents: SearchDocument[]) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_SEARCH, "readwrite");
+      const store = tx.objectStore(STORE_SEARCH);
+      documents.forEach(document => store.put(document));
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
+  },
+
+  // Every search document of the book: originals and translations in all languages
+  getSearchDocuments: async (bookId: string): Promise<SearchDocument[]> => {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE_SEARCH, "readonly");
+          const request = tx.objectStore(STORE_SEARCH).getAll(IDBKeyRange.bound(`${bookId}_`, `${bookId}_\uffff`));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+  },
+
+  deleteJob: async (bookId: string) => {
+      const db = await openDB();
+      const tx = db.transaction(STORE_JOBS, "readwrite");
+      tx.objectStore(STORE_JOBS).delete(bookId);
+
+      return new Promise<void>((resolve, reject) => {
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+      });
   }
 };
\ No newline at end of file
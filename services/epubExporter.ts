@@ -0,0 +1,273 @@
+import JSZip from 'jszip';
+import { Segment, TargetLanguage, TARGET_LANGUAGE_CODES } from '../types';
+import { db, SavedTranslation } from './db';
+import { getOpfPath, parseEpub, parseXhtml, segmentDocument } from './epubParser';
+import { isTranslationError } from './geminiService';
+import { matchSavedTranslations } from './segmentIds';
+
+export type ExportMode = 'bilingual' | 'translation-only';
+
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+const XML_NS = "http://www.w3.org/XML/1998/namespace";
+const DC_NS = "http://purl.org/dc/elements/1.1/";
+
+const TRANSLATION_CLASS = "lingobinder-translation";
+const TRANSLATION_CSS = `.${TRANSLATION_CLASS} { color: #555; }`;
+
+// Helper: Path from one file in the zip to another, as an encoded relative href
+const relativeHref = (fromFile: string, toPath: string): string => {
+  const [target, fragment] = toPath.split('#');
+  const fromDirs = fromFile.split('/').slice(0, -1);
+  const toParts = target.split('/');
+
+  let common = 0;
+  while (common < fromDirs.length && common < toParts.length - 1 && fromDirs[common] === toParts[common]) {
+    common++;
+  }
+
+  const parts = [
+    ...fromDirs.slice(common).map(() => '..'),
+    ...toParts.slice(common).map(encodeURIComponent)
+  ];
+  return parts.join('/') + (fragment !== undefined ? `#${fragment}` : '');
+};
+
+// Helper: Append text, turning the '\n' the parser uses for <br> back into elements
+const appendText = (doc: Document, parent: Node, text: string) => {
+  text.split('\n').forEach((line, index) => {
+    if (index > 0) parent.appendChild(doc.createElementNS(XHTML_NS, 'br'));
+    if (line) parent.appendChild(doc.createTextNode(line));
+  });
+};
+
+// Helper: Rebuild sanitized inline markup (see inlineMarkup.ts) as XHTML nodes
+const appendMarkup = (doc: Document, parent: Node, source: Node, chapterHref: string) => {
+  source.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      appendText(doc, parent, child.textContent || '');
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+    const sourceEl = child as Element;
+    const el = doc.createElementNS(XHTML_NS, sourceEl.tagName.toLowerCase());
+    const dataHref = sourceEl.getAttribute('data-href');
+    const href = sourceEl.getAttribute('href');
+    const lang = sourceEl.getAttribute('lang');
+    if (dataHref) el.setAttribute('href', relativeHref(chapterHref, dataHref));
+    else if (href) el.setAttribute('href', href);
+    if (lang) el.setAttribute('lang', lang);
+
+    appendMarkup(doc, el, sourceEl, chapterHref);
+    parent.appendChild(el);
+  });
+};
+
+const appendTranslation = (doc: Document, parent: Node, translation: SavedTranslation, chapterHref: string) => {
+  if (translation.html) {
+    const source = new DOMParser().parseFromString(`<body>${translation.html}</body>`, 'text/html').body;
+    appendMarkup(doc, parent, source, chapterHref);
+  } else {
+    appendText(doc, parent, translation.text);
+  }
+};
+
+const setLanguage = (el: Element, code: string) => {
+  el.setAttribute('lang', code);
+  el.setAttributeNS(XML_NS, 'xml:lang', code);
+};
+
+const XMLNS_NS = "http://www.w3.org/2000/xmlns/";
+
+// Helper: A chapter read as HTML keeps its namespace declarations as plain
+// attributes, which XMLSerializer would write out next to its own
+const declareNamespaces = (doc: Document) => {
+  doc.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      if (attr.namespaceURI || !/^xmlns(:|$)/.test(attr.name)) return;
+      el.removeAttribute(attr.name);
+      if (attr.name !== 'xmlns') el.setAttributeNS(XMLNS_NS, attr.name, attr.value);
+    });
+  });
+};
+
+const serializeXml = (doc: Document, original: string): string => {
+  if (doc.contentType === "text/html") declareNamespaces(doc);
+  // XMLSerializer drops the XML declaration
+  const declaration = original.match(/^\s*<\?xml[^>]*\?>/)?.[0]?.trim();
+  const body = new XMLSerializer().serializeToString(doc);
+  return declaration ? `${declaration}\n${body}` : body;
+};
+
+/**
+ * Places translations into a chapter's XHTML. In bilingual mode each translated
+ * block gets a sibling copy right after it (inside it for list items). In
+ * translation-only mode a block's content is replaced, unless the block also
+ * contains other segments, in which case it falls back to the bilingual layout.
+ * A chapter that is not well-formed XML is read as HTML and written back as XHTML.
+ */
+const rewriteChapter = (
+  content: string,
+  chapterHref: string,
+  saved: Record<string, SavedTranslation>,
+  languageCode: string,
+  mode: ExportMode
+): string | null => {
+  const doc = parseXhtml(content);
+  const { segments, owners } = segmentDocument(doc, chapterHref);
+  const { translations } = matchSavedTranslations(segments, saved);
+
+  const byOwner = new Map<Element, Segment[]>();
+  segments.forEach(seg => {
+    const translation = translations[seg.id];
+    const owner = owners.get(seg.id);
+    if (seg.type !== 'text' || !owner || !translation || isTranslationError(translation.text)) return;
+    if (!byOwner.has(owner)) byOwner.set(owner, []);
+    byOwner.get(owner)!.push(seg);
+  });
+
+  if (byOwner.size === 0) return null;
+
+  byOwner.forEach((ownedSegments, owner) => {
+    const ownsNestedSegments = segments.some(s => {
+      const other = owners.get(s.id);
+      return other && other !== owner && owner.contains(other);
+    });
+
+    if (mode === 'translation-only' && ownedSegments.length === 1 && !ownsNestedSegments) {
+      // Keep link targets (page markers, footnote anchors) alive as empty spans
+      const anchorIds = Array.from(owner.querySelectorAll('[id]')).map(el => el.getAttribute('id')!);
+      while (owner.firstChild) owner.removeChild(owner.firstChild);
+      anchorIds.forEach(id => {
+        const anchor = doc.createElementNS(XHTML_NS, 'span');
+        anchor.setAttribute('id', id);
+        owner.appendChild(anchor);
+      });
+      appendTranslation(doc, owner, translations[ownedSegments[0].id], chapterHref);
+      setLanguage(owner, languageCode);
+      return;
+    }
+
+    const tag = owner.localName.toLowerCase();
+    let insertAfter: Node = owner;
+    ownedSegments.forEach(seg => {
+      const el = doc.createElementNS(XHTML_NS, tag === 'li' ? 'div' : tag);
+      el.setAttribute('class', TRANSLATION_CLASS);
+      setLanguage(el, languageCode);
+      appendTranslation(doc, el, translations[seg.id], chapterHref);
+
+      if (tag === 'li') {
+        owner.appendChild(el);
+      } else {
+        insertAfter.parentNode?.insertBefore(el, insertAfter.nextSibling);
+        insertAfter = el;
+      }
+    });
+  });
+
+  const head = doc.getElementsByTagNameNS(XHTML_NS, 'head')[0];
+  if (head) {
+    const style = doc.createElementNS(XHTML_NS, 'style');
+    style.setAttribute('type', 'text/css');
+    style.textContent = TRANSLATION_CSS;
+    head.appendChild(style);
+  }
+
+  return serializeXml(doc, content);
+};
+
+/**
+ * Updates the package metadata: language, title and identifier, so the export
+ * does not collide with the original book on a reading device.
+ */
+const rewriteOpf = (content: string, targetLanguage: TargetLanguage, mode: ExportMode): string => {
+  const doc = new DOMParser().parseFromString(content, "application/xml");
+  const languageCode = TARGET_LANGUAGE_CODES[targetLanguage];
+  const metadata = doc.getElementsByTagNameNS("*", "metadata")[0];
+  if (!metadata) return content;
+
+  const languages = Array.from(doc.getElementsByTagNameNS(DC_NS, "language"));
+  if (mode === 'translation-only') {
+    languages.slice(1).forEach(el => el.remove());
+    if (languages[0]) languages[0].textContent = languageCode;
+  }
+  if (mode === 'bilingual' || !languages[0]) {
+    if (!languages.some(el => el.textContent?.trim() === languageCode)) {
+      const language = doc.createElementNS(DC_NS, "dc:language");
+      language.textContent = languageCode;
+      const last = languages[languages.length - 1];
+      metadata.insertBefore(language, last ? last.nextSibling : null);
+    }
+  }
+
+  const title = doc.getElementsByTagNameNS(DC_NS, "title")[0];
+  if (title) {
+    const suffix = mode === 'bilingual' ? `Bilingual ${targetLanguage}` : targetLanguage;
+    title.textContent = `${title.textContent?.trim()} [${suffix}]`;
+  }
+
+  const uniqueIdRef = doc.documentElement.getAttribute("unique-identifier");
+  const identifier = uniqueIdRef
+    ? Array.from(doc.getElementsByTagNameNS(DC_NS, "identifier")).find(el => el.getAttribute("id") === uniqueIdRef)
+    : undefined;
+  if (identifier) {
+    identifier.textContent = `${identifier.textContent?.trim()}-lingobinder-${languageCode}-${mode}`;
+  }
+
+  const modified = Array.from(doc.getElementsByTagNameNS("*", "meta"))
+    .find(el => el.getAttribute("property") === "dcterms:modified");
+  if (modified) {
+    modified.textContent = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  }
+
+  return serializeXml(doc, content);
+};
+
+/**
+ * Builds a new EPUB from the stored original and its saved translations.
+ * Everything else in the archive (images, styles, NCX/nav TOC) is copied as-is.
+ */
+export const exportTranslatedEpub = async (
+  bookId: string,
+  targetLanguage: TargetLanguage,
+  mode: ExportMode
+): Promise<Blob> => {
+  const file = await db.getBookFile(bookId);
+  if (!file) throw new Error("Book file not found in storage.");
+
+  const zip = await new JSZip().loadAsync(file);
+  const book = await parseEpub(file);
+  if (book.coverUrl) URL.revokeObjectURL(book.coverUrl);
+
+  const languageCode = TARGET_LANGUAGE_CODES[targetLanguage];
+  const rewritten = new Map<string, string>();
+
+  for (const chapter of book.chapters) {
+    const translations = await db.getTranslations(bookId, chapter.href, targetLanguage);
+    if (Object.keys(translations).length === 0) continue;
+
+    const content = await zip.file(chapter.href)?.async("string");
+    if (!content) continue;
+
+    const chapterXml = rewriteChapter(content, chapter.href, translations, languageCode, mode);
+    if (chapterXml) rewritten.set(chapter.href, chapterXml);
+  }
+
+  if (rewritten.size === 0) throw new Error(`No ${targetLanguage} translations saved for this book yet.`);
+
+  const opfPath = await getOpfPath(zip);
+  const opfContent = await zip.file(opfPath)?.async("string");
+  if (opfContent) rewritten.set(opfPath, rewriteOpf(opfContent, targetLanguage, mode));
+
+  // The mimetype entry must come first and stay uncompressed
+  const output = new JSZip();
+  output.file("mimetype", "application/epub+zip", { compression: "STORE" });
+
+  for (const path of Object.keys(zip.files)) {
+    const entry = zip.files[path];
+    if (entry.dir || path === "mimetype") continue;
+    output.file(path, rewritten.get(path) ?? await entry.async("uint8array"));
+  }
+
+  return output.generateAsync({ type: "blob", mimeType: "application/epub+zip", compression: "DEFLATE" });
+};
@@ -1,9 +1,27 @@
 import JSZip from 'jszip';
 import { ParsedBook, ChapterRef, Segment, TocItem } from '../types';
+import { createSegmentIdGenerator } from './segmentIds';
+import { ANNOTATION_TAGS, closeInlineTag, escapeHtml, getInlineAttributes, openInlineTag, sanitizeInlineMarkup } from './inlineMarkup';
+
+/**
+ * Reads the package (OPF) document path from META-INF/container.xml.
+ */
+export const getOpfPath = async (zip: JSZip): Promise<string> => {
+  const containerXml = await zip.file("META-INF/container.xml")?.async("string");
+  if (!containerXml) throw new Error("Invalid EPUB: Missing META-INF/container.xml");
+
+  const containerDoc = new DOMParser().parseFromString(containerXml, "application/xml");
+  const rootfile = containerDoc.querySelector("rootfile");
+  const opfPath = rootfile?.getAttribute("full-path");
+
+  if (!opfPath) throw new Error("Invalid EPUB: Could not find OPF path");
+  return opfPath;
+};
 
 /**
  * Parses a raw .epub file (Blob) into a structured object.
- * OPTIMIZED: Does NOT unzip all files. Only reads metadata and structure.
+ * OPTIMIZED: Does NOT unzip all files. Only reads metadata and structure,
+ * plus the few spine items that have no TOC entry to title them.
  */
 export const parseEpub = async (file: File | Blob): Promise<ParsedBook> => {
   const zip = new JSZip();
@@ -11,15 +29,8 @@ export const parseEpub = async (file: File | Blob): Promise<ParsedBook> => {
   const loadedZip = await zip.loadAsync(file);
 
   // 1. Find the OPF file path from META-INF/container.xml
-  const containerXml = await loadedZip.file("META-INF/container.xml")?.async("string");
-  if (!containerXml) throw new Error("Invalid EPUB: Missing META-INF/container.xml");
-
+  const opfPath = await getOpfPath(loadedZip);
   const parser = new DOMParser();
-  const containerDoc = parser.parseFromString(containerXml, "application/xml");
-  const rootfile = containerDoc.querySelector("rootfile");
-  const opfPath = rootfile?.getAttribute("full-path");
-
-  if (!opfPath) throw new Error("Invalid EPUB: Could not find OPF path");
 
   // 2. Parse OPF to get manifest and spine
   const opfContent = await loadedZip.file(opfPath)?.async("string");
@@ -28,10 +39,13 @@ export const parseEpub = async (file: File | Blob): Promise<ParsedBook> => {
   const opfDoc = parser.parseFromString(opfContent, "application/xml");
   
   // Extract Metadata
+  // By local name: CSS selectors do not reliably match prefixed dc:* elements
+  const metadataEl = opfDoc.getElementsByTagNameNS("*", "metadata")[0];
+  const getMetadataText = (name: string) => metadataEl?.getElementsByTagNameNS("*", name)[0]?.textContent;
   const metadata = {
-    title: opfDoc.querySelector("metadata title")?.textContent || "Unknown Title",
-    creator: opfDoc.querySelector("metadata creator")?.textContent || "Unknown Author",
-    language: opfDoc.querySelector("metadata language")?.textContent || "en",
+    title: getMetadataText("title") || "Unknown Title",
+    creator: getMetadataText("creator") || "Unknown Author",
+    language: getMetadataText("language") || "en",
   };
 
   // Map manifest items (id -> href)
@@ -45,15 +59,13 @@ export const parseEpub = async (file: File | Blob): Promise<ParsedBook> => {
   // Get Spine (Reading Order)
   const chapters: ChapterRef[] = [];
   const spineItems = opfDoc.querySelectorAll("spine itemref");
-  const opfDir = opfPath.substring(0, opfPath.lastIndexOf('/') + 1);
 
   spineItems.forEach((item, index) => {
     const idRef = item.getAttribute("idref");
     if (idRef && manifest[idRef]) {
-      let href = manifest[idRef];
-      // Normalize path relative to zip root
-      const fullPath = opfDir + href;
-      
+      // Normalize path relative to zip root (manifest hrefs are URL-encoded)
+      const fullPath = resolvePath(opfPath, manifest[idRef]);
+
       chapters.push({
         id: idRef,
         href: fullPath,
@@ -63,8 +75,26 @@ export const parseEpub = async (file: File | Blob): Promise<ParsedBook> => {
     }
   });
 
-  // 3. Parse TOC (NCX) if available
+  // 3. Parse TOC: prefer the EPUB 3 nav document, fall back to NCX
   let toc: TocItem[] = [];
+  let landmarks: TocItem[] = [];
+  let pageList: TocItem[] = [];
+
+  const navItem = Array.from(opfDoc.querySelectorAll("manifest item")).find(item =>
+    (item.getAttribute("properties") || "").split(/\s+/).includes("nav")
+  );
+  const navHref = navItem?.getAttribute("href");
+  if (navHref) {
+    const fullNavPath = resolvePath(opfPath, navHref);
+    const navContent = await loadedZip.file(fullNavPath)?.async("string");
+    if (navContent) {
+      const nav = parseNavDocument(navContent, fullNavPath);
+      toc = nav.toc;
+      landmarks = nav.landmarks;
+      pageList = nav.pageList;
+    }
+  }
+
   const spine = opfDoc.querySelector("spine");
   const tocId = spine?.getAttribute("toc");
   let tocHref = "";
@@ -83,21 +113,37 @@ export const parseEpub = async (file: File | Blob): Promise<ParsedBook> => {
     }
   }
 
-  if (tocHref) {
-    const fullTocPath = opfDir + tocHref;
+  if (toc.length === 0 && tocHref) {
+    const fullTocPath = resolvePath(opfPath, tocHref);
     const tocContent = await loadedZip.file(fullTocPath)?.async("string");
     if (tocContent) {
       toc = parseNcx(tocContent, fullTocPath);
     }
   }
 
-  // 4. Extract Cover Image (Only this one file is unzipped now)
+  // 4. Title chapters from the TOC, falling back to their first heading or <title>
+  const tocTitles = getTocTitlesByFile(toc);
+  await Promise.all(chapters.map(async (chapter) => {
+    const tocTitle = tocTitles.get(chapter.href);
+    if (tocTitle) {
+      chapter.title = tocTitle;
+      return;
+    }
+
+    const content = await loadedZip.file(chapter.href)?.async("string");
+    const title = content && getDocumentTitle(parseXhtml(content), metadata.title);
+    if (title) {
+      chapter.title = title;
+    }
+  }));
+
+  // 5. Extract Cover Image (Only this one file is unzipped now)
   let coverUrl: string | undefined;
   const coverMeta = opfDoc.querySelector('meta[name="cover"]');
   if (coverMeta) {
       const coverId = coverMeta.getAttribute("content");
       if (coverId && manifest[coverId]) {
-          const coverPath = opfDir + manifest[coverId];
+          const coverPath = resolvePath(opfPath, manifest[coverId]);
           const coverBlob = await loadedZip.file(coverPath)?.async("blob");
           if (coverBlob) {
               coverUrl = URL.createObjectURL(coverBlob);
@@ -105,13 +151,48 @@ export const parseEpub = async (file: File | Blob): Promise<ParsedBook> => {
       }
   }
 
-  return { metadata, chapters, toc, coverUrl };
+  return { metadata, chapters, toc, landmarks, pageList, coverUrl };
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+};
+
+// Helper: Map each content file to the label of the first TOC entry pointing at it.
+// Depth-first order means a chapter's own entry wins over its subsection anchors.
+const getTocTitlesByFile = (toc: TocItem[]): Map<string, string> => {
+  const titles = new Map<string, string>();
+  const visit = (items: TocItem[]) => {
+    items.forEach(item => {
+      const [file] = item.href.split('#');
+      if (file && !titles.has(file)) titles.set(file, item.label);
+      visit(item.subitems);
+    });
+  };
+  visit(toc);
+  return titles;
+};
+
+// Helper: A chapter's first h1-h3, or its <title> unless that only repeats the book's
+const getDocumentTitle = (doc: Document, bookTitle: string): string | undefined => {
+  const getText = (el: Element | null) => {
+    el?.querySelectorAll("br").forEach(br => br.replaceWith(" "));
+    return (el?.textContent || "").replace(/\s+/g, " ").trim();
+  };
+  const heading = getText(doc.querySelector("h1, h2, h3"));
+  if (heading) return heading;
+  const title = getText(doc.querySelector("title"));
+  return title && title !== bookTitle ? title : undefined;
 };
 
 // Helper: Resolve relative paths
 const resolvePath = (baseFile: string, relativePath: string): string => {
   if (!relativePath) return '';
-  relativePath = decodeURIComponent(relativePath);
+  relativePath = safeDecode(relativePath);
 
   const stack = baseFile.split('/');
   stack.pop(); // Remove current filename
@@ -128,6 +209,67 @@ const resolvePath = (baseFile: string, relativePath: string): string => {
   return stack.join('/');
 };
 
+// Helper: Resolve a link, which may point at a fragment in its own document
+const resolveLinkHref = (basePath: string, href: string): string => {
+  if (href.startsWith('#')) return basePath + href;
+  return resolvePath(basePath, href);
+};
+
+/**
+ * Parses an EPUB 3 navigation document (XHTML with <nav epub:type="...">).
+ * Returns the toc, landmarks and page-list navs in the shared TocItem shape.
+ */
+const parseNavDocument = (xml: string, navPath: string): { toc: TocItem[]; landmarks: TocItem[]; pageList: TocItem[] } => {
+  const doc = parseXhtml(xml);
+
+  const getNavType = (nav: Element): string[] => {
+    const type = nav.getAttribute("epub:type") || nav.getAttributeNS("http://www.idpf.org/2007/ops", "type") || "";
+    return type.split(/\s+/);
+  };
+
+  const getLabel = (el: Element): string =>
+    (el.textContent || "").replace(/\s+/g, " ").trim() || "Untitled";
+
+  const parseList = (list: Element): TocItem[] => {
+    const items: TocItem[] = [];
+    Array.from(list.children).forEach(li => {
+      if (li.tagName.toLowerCase() !== 'li') return;
+
+      const children = Array.from(li.children);
+      const link = children.find(c => c.tagName.toLowerCase() === 'a');
+      const heading = link || children.find(c => c.tagName.toLowerCase() === 'span');
+      const subList = children.find(c => c.tagName.toLowerCase() === 'ol');
+      const subitems = subList ? parseList(subList) : [];
+
+      const rawHref = link?.getAttribute("href");
+      // Unlinked headings (<span>) jump to their first child entry
+      const href = rawHref ? resolveLinkHref(navPath, rawHref) : subitems[0]?.href;
+      if (!heading || !href) return;
+
+      items.push({ label: getLabel(heading), href, subitems });
+    });
+    return items;
+  };
+
+  const result = { toc: [] as TocItem[], landmarks: [] as TocItem[], pageList: [] as TocItem[] };
+
+  doc.querySelectorAll("nav").forEach(nav => {
+    const types = getNavType(nav);
+    const list = Array.from(nav.children).find(c => c.tagName.toLowerCase() === 'ol');
+    if (!list) return;
+
+    if (types.includes("toc") && result.toc.length === 0) {
+      result.toc = parseList(list);
+    } else if (types.includes("landmarks")) {
+      result.landmarks = parseList(list);
+    } else if (types.includes("page-list")) {
+      result.pageList = parseList(list);
+    }
+  });
+
+  return result;
+};
+
 const parseNcx = (xml: string, tocPath: string): TocItem[] => {
   const parser = new DOMParser();
   const doc = parser.parseFromString(xml, "application/xml");
@@ -166,64 +308,94 @@ const parseNcx = (xml: string, tocPath: string): TocItem[] => {
 };
 
 /**
- * Parses chapter content using the provided JSZip instance to load resources on demand.
- * @param mode 'full' loads images as Blobs (UI blocking). 'text-only' skips images (faster, for search).
+ * Parses a content document as XHTML. Some books ship chapters and nav
+ * documents that are not well-formed XML; those are read as HTML instead, so
+ * the reader and the exporter see the same elements.
  */
-export const parseChapterContent = async (
-    zip: JSZip, 
-    chapter: ChapterRef, 
-    mode: 'full' | 'text-only' = 'full'
-): Promise<Segment[]> => {
-  const file = zip.file(chapter.href);
-  if (!file) return [];
-
-  const text = await file.async("string");
+export const parseXhtml = (content: string): Document => {
   const parser = new DOMParser();
-  const doc = parser.parseFromString(text, "application/xhtml+xml"); 
+  const doc = parser.parseFromString(content, "application/xhtml+xml");
+  if (!doc.querySelector("parsererror")) return doc;
+  // The HTML parser would keep the XML declaration as a comment
+  return parser.parseFromString(content.replace(/^\s*<\?xml[^>]*\?>/, ""), "text/html");
+};
 
+export interface SegmentedDocument {
+  segments: Segment[];
+  // Element each segment was read from: its block element, or the image element.
+  // Text directly under <body> has no owner.
+  owners: Map<string, Element>;
+  // Images to load: segmentIndex -> imagePath
+  pendingImages: { index: number; path: string }[];
+}
+
+/**
+ * Splits a parsed chapter document into segments. Shared by the reader and the
+ * EPUB exporter, which needs the owner elements to place translations.
+ */
+export const segmentDocument = (doc: Document, chapterHref: string): SegmentedDocument => {
   const segments: Segment[] = [];
+  const owners = new Map<string, Element>();
   const blockTags = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'div'];
   
   let currentText = '';
+  let currentHtml = '';
+  let hasMarkup = false;
+  let annotationDepth = 0; // Inside <rt>/<rp>: markup only, not plain text
   let currentTag = 'p';
-  let segmentCounter = 0;
+  let currentAnchors: string[] = [];
+  let currentBlock: Element | null = null;
+  // Derived from position and content, so saved translations survive changes to the walk
+  const getSegmentId = createSegmentIdGenerator();
 
-  // Map to store image tasks: segmentIndex -> imagePath
   const pendingImages: { index: number; path: string }[] = [];
 
-  const getDeterministicId = () => {
-    segmentCounter++;
-    return `seg-${segmentCounter}`;
+  // Element ids seen since the last segment, so fragment links can find their segment
+  const takeAnchors = (): string[] | undefined => {
+    if (currentAnchors.length === 0) return undefined;
+    const anchors = currentAnchors;
+    currentAnchors = [];
+    return anchors;
   };
 
   const flushText = () => {
     if (currentText.trim().length > 0) {
+      const id = getSegmentId(currentBlock, currentText);
+      if (currentBlock) owners.set(id, currentBlock);
       segments.push({
-        id: getDeterministicId(),
+        id,
         type: 'text',
         tagName: currentTag,
         originalText: currentText.trim(),
+        // Blocks may be split mid-tag by nested blocks; sanitizing re-balances them
+        originalHtml: hasMarkup ? sanitizeInlineMarkup(currentHtml).trim() : undefined,
+        anchors: takeAnchors(),
         isLoading: false
       });
     }
     currentText = '';
+    currentHtml = '';
+    hasMarkup = false;
     currentTag = 'p';
   };
 
   const walk = (node: Node) => {
     if (node.nodeType === Node.TEXT_NODE) {
-      currentText += node.textContent;
+      if (annotationDepth === 0) currentText += node.textContent;
+      currentHtml += escapeHtml(node.textContent || '');
     } else if (node.nodeType === Node.ELEMENT_NODE) {
       const el = node as HTMLElement;
       const tag = el.tagName.toLowerCase();
 
+      const anchorId = el.getAttribute('id') || (tag === 'a' ? el.getAttribute('name') : null);
+
       // Image Handling
       if (tag === 'img' || tag === 'image' || tag === 'svg') {
         flushText();
+        if (anchorId) currentAnchors.push(anchorId);
 
-        // If text-only mode, we skip image processing entirely
-        if (mode === 'text-only') return;
-
+        // Image placeholders are pushed in text-only mode too (blobs are not loaded),
+        // so segment IDs line up with the full parse used by the reader.
         let src = el.getAttribute('src') || el.getAttribute('href');
         if (tag === 'svg') {
             const innerImage = el.querySelector('image');
@@ -236,13 +408,16 @@ export const parseChapterContent = async (
         const alt = el.getAttribute('alt') || el.getAttribute('title') || 'Image';
         
         if (src) {
-           const absolutePath = resolvePath(chapter.href, src);
+           const absolutePath = resolvePath(chapterHref, src);
+           const id = getSegmentId(el, absolutePath);
+           owners.set(id, el);
            // Push placeholder segment
            segments.push({
-             id: getDeterministicId(),
+             id,
              type: 'image',
              tagName: 'img',
              originalText: alt,
+             anchors: takeAnchors(),
              isLoading: false
            });
            // Queue image load
@@ -250,13 +425,32 @@ export const parseChapterContent = async (
         }
       } else if (blockTags.includes(tag)) {
         flushText();
+        if (anchorId) currentAnchors.push(anchorId);
+        const parentBlock = currentBlock;
+        currentBlock = el;
         currentTag = tag;
         node.childNodes.forEach(walk);
         flushText();
+        currentBlock = parentBlock;
       } else if (tag === 'br') {
         currentText += '\n';
+        currentHtml += '\n';
       } else {
+        if (anchorId) currentAnchors.push(anchorId);
+
+        const inlineAttrs = getInlineAttributes(el, (href) => resolveLinkHref(chapterHref, href));
+        if (!inlineAttrs) {
+          node.childNodes.forEach(walk);
+          return;
+        }
+
+        const isAnnotation = ANNOTATION_TAGS.includes(tag);
+        hasMarkup = true;
+        currentHtml += openInlineTag(tag, inlineAttrs);
+        if (isAnnotation) annotationDepth++;
         node.childNodes.forEach(walk);
+        if (isAnnotation) annotationDepth--;
+        currentHtml += closeInlineTag(tag);
       }
     }
   };
@@ -264,6 +458,26 @@ export const parseChapterContent = async (
   doc.body.childNodes.forEach(walk);
   flushText();
 
+  return { segments, owners, pendingImages };
+};
+
+/**
+ * Parses chapter content using the provided JSZip instance to load resources on demand.
+ * @param mode 'full' loads images as Blobs (UI blocking). 'text-only' skips image loading (faster, for search).
+ */
+export const parseChapterContent = async (
+    zip: JSZip, 
+    chapter: ChapterRef, 
+    mode: 'full' | 'text-only' = 'full'
+): Promise<Segment[]> => {
+  const file = zip.file(chapter.href);
+  if (!file) return [];
+
+  const text = await file.async("string");
+  const doc = parseXhtml(text);
+
+  const { segments, pendingImages } = segmentDocument(doc, chapter.href);
+
   // Post-process: Load images in parallel ONLY if full mode
   if (mode === 'full') {
     await Promise.all(pendingImages.map(async (task) => {
@@ -1,202 +1,316 @@
+import { TargetLanguage, AISettings, TranslationContext, TranslationItem, ContextSegment, Segment, UsageCounts } from "../types";
+import { getProvider } from "./providers";
+import { estimateRequestTokens, getRateLimiter, getRateLimits, runConcurrently } from "./translationScheduler";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { TargetLanguage, AISettings } from "../types";
+export const isTranslationError = (text?: string) => {
+  return text?.includes("[Translation Failed]") || text?.includes("[Error: Retry Limit Exceeded]");
+};
 
-const getAiClient = (apiKey?: string) => {
-  const key = apiKey || process.env.API_KEY;
-  if (!key) {
-    throw new Error("API_KEY is missing. Please provide one in settings.");
-  }
-  return new GoogleGenAI({ apiKey: key });
+// How many preceding segments are sent as read-only context
+const CONTEXT_SEGMENT_COUNT = 3;
+
+/**
+ * The text segments right before `segmentId` in chapter order, with their
+ * translations when available, so batch boundaries keep pronouns and tone.
+ */
+export const getPrecedingContext = (segments: Segment[], segmentId: string): ContextSegment[] => {
+  const index = segments.findIndex(s => s.id === segmentId);
+  if (index <= 0) return [];
+
+  return segments
+    .slice(0, index)
+    .filter(s => s.type === 'text')
+    .slice(-CONTEXT_SEGMENT_COUNT)
+    .map(s => ({
+      original: s.originalText,
+      translated: s.translatedText && !isTranslationError(s.translatedText) ? s.translatedText : undefined
+    }));
 };
 
-const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
-  if (signal?.aborted) {
-    return reject(new Error("Aborted"));
-  }
-  
-  const timer = setTimeout(() => {
-    resolve();
-  }, ms);
-
-  signal?.addEventListener('abort', () => {
-    clearTimeout(timer);
-    reject(new Error("Aborted"));
-  });
-});
+// Reply to a request that failed as a whole, or for a segment that never came back
+const FAILED_TRANSLATION = "[Translation Failed]";
+const MISSING_SEGMENT = "[Translation Failed] The model did not return this segment.";
+
+// How many times segments missing from a reply are requested again
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// How many rate-limit replies one request tolerates before giving up
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+const isRateLimitError = (error: any) =>
+  error.status === 429 || 
+  error.code === 429 || 
+  (error.message && (
+    error.message.includes("429") || 
+    error.message.includes("quota") || 
+    error.message.includes("RESOURCE_EXHAUSTED")
+  )) ||
+  error.status === 503;
+
+// Reply elements that name a requested id and carry text
+const toRequestedItem = (entry: unknown, requestedIds: Set<string>): TranslationItem | null => {
+  if (!entry || typeof entry !== 'object') return null;
+  const { id, text } = entry as Partial<TranslationItem>;
+  if (typeof id !== 'string' || !requestedIds.has(id)) return null;
+  if (typeof text !== 'string' || !text.trim()) return null;
+  return { id, text };
+};
+
+// Raw reply elements; `truncated` when a stream broke off (so gaps are not merges)
+interface ProviderReply {
+  entries: unknown[];
+  truncated: boolean;
+}
+
+// Reported for requests whose API gave no usage, so they are still counted
+export const UNREPORTED_USAGE: UsageCounts = { inputTokens: 0, outputTokens: 0, characters: 0, requests: 1 };
 
 /**
- * Translate using Google Gemini SDK
+ * One provider request, paced by the provider's shared rate limiter and retried
+ * after rate-limit replies. Returns the raw reply, or an error string for every
+ * item if the request failed.
+ * With `onSegment` and a provider that can stream, each segment is reported as
+ * it arrives; if the stream then breaks, the segments received so far are kept.
+ * `onUsage` is called for every successful request, retries included.
  */
-const translateWithGemini = async (
-  texts: string[],
+const requestTranslations = async (
+  items: TranslationItem[],
   targetLanguage: TargetLanguage,
-  modelName: string,
-  apiKey?: string,
-  signal?: AbortSignal
-): Promise<string[]> => {
-  const ai = getAiClient(apiKey);
-  
-  // Ensure we use a valid Gemini model name
-  const safeModel = modelName.includes('gemini') ? modelName : "gemini-2.5-flash";
-
-  const response = await ai.models.generateContent({
-    model: safeModel,
-    contents: `Translate the following array of text segments into ${targetLanguage}. 
-    Maintain the tone and nuance of the original text. 
-    Do not merge segments. Return strictly an array of translated strings in the same order.
-    
-    Input Segments:
-    ${JSON.stringify(texts)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.STRING
-        }
+  settings: AISettings,
+  signal?: AbortSignal,
+  context?: TranslationContext,
+  onSegment?: (id: string, text: string) => void,
+  onUsage?: (usage: UsageCounts) => void
+): Promise<ProviderReply | string> => {
+  let retries = 0;
+
+  const provider = getProvider(settings.provider);
+  const stream = onSegment && settings.streaming !== false ? provider.translateStream : undefined;
+  const requestedIds = new Set(items.map(item => item.id));
+  const limiter = getRateLimiter(settings);
+  const tokens = estimateRequestTokens(items.map(item => item.text));
+
+  while (retries <= MAX_RATE_LIMIT_RETRIES) {
+    await limiter.acquire(tokens, getRateLimits(settings), signal);
+
+    const streamed: TranslationItem[] = [];
+    try {
+      const reply = stream && onSegment
+        ? await stream(items, targetLanguage, settings, (entry) => {
+            const item = toRequestedItem(entry, requestedIds);
+            if (!item || streamed.some(s => s.id === item.id)) return;
+            streamed.push(item);
+            onSegment(item.id, item.text);
+          }, signal, context)
+        : await provider.translate(items, targetLanguage, settings, signal, context);
+      limiter.succeeded();
+      onUsage?.(reply.usage || UNREPORTED_USAGE);
+      return { entries: reply.items, truncated: false };
+    } catch (error: any) {
+      if (signal?.aborted || error.message === "Aborted" || error.name === 'AbortError') {
+        throw new Error("Aborted");
       }
-    }
-  });
 
-  // Check abort after response
-  if (signal?.aborted) throw new Error("Aborted");
+      if (streamed.length > 0) {
+        console.warn(`Stream broke after ${streamed.length} segment(s), keeping them`, error);
+        return { entries: streamed, truncated: true };
+      }
 
-  const jsonText = response.text;
-  if (!jsonText) return texts.map(() => "Translation Error");
+      if (isRateLimitError(error)) {
+        if (retries === MAX_RATE_LIMIT_RETRIES) break;
+        // Every request to this provider waits out the pause, not just this one
+        const pause = limiter.backOff();
+        console.warn(`Rate limit hit (${settings.provider}). Pausing requests for ${pause}ms...`);
+        retries++;
+        continue;
+      }
 
-  const parsed = JSON.parse(jsonText);
-  if (Array.isArray(parsed)) {
-    return parsed as string[];
+      console.error("Translation Error:", error);
+      // Return error strings for UI
+      return FAILED_TRANSLATION;
+    }
   }
-  
-  throw new Error("Invalid JSON format from Gemini");
+
+  return "[Error: Retry Limit Exceeded]";
 };
 
 /**
- * Translate using OpenAI Compatible Endpoint (Custom)
+ * Matches a provider reply to the requested items by id. Items the reply drops,
+ * repeats or leaves empty are broken; ids that were not requested are ignored.
+ * With `suspectMerges`, the item right before a missing one is broken too, since
+ * a dropped segment has usually been merged into its predecessor.
  */
-const translateWithOpenAI = async (
-  texts: string[],
-  targetLanguage: TargetLanguage,
-  settings: AISettings,
-  signal?: AbortSignal
-): Promise<string[]> => {
-  if (!settings.apiKey && !settings.baseUrl.includes('localhost')) {
-    throw new Error("API Key required for OpenAI compatible endpoints");
-  }
+export const reconcileTranslations = (
+  requested: TranslationItem[],
+  reply: unknown[],
+  suspectMerges = true
+): { translated: Record<string, string>; broken: TranslationItem[] } => {
+  const requestedIds = new Set(requested.map(item => item.id));
+  const received = new Map<string, string>();
+  const repeated = new Set<string>();
 
-  const prompt = `You are a professional translator. Translate the following JSON array of text segments into ${targetLanguage}.
-  Maintain the tone and nuance.
-  IMPORTANT: Return ONLY a raw JSON array of strings. No markdown formatting, no backticks.
-  Example: ["Hello", "World"]
-  
-  Input:
-  ${JSON.stringify(texts)}`;
-
-  const body = {
-    model: settings.model || "gpt-3.5-turbo",
-    messages: [
-      { role: "system", content: "You are a translator. Output strictly JSON array." },
-      { role: "user", content: prompt }
-    ],
-    temperature: 0.3
-  };
-
-  // Clean URL
-  let url = settings.baseUrl.replace(/\/+$/, '');
-  if (!url.endsWith('/chat/completions')) {
-      url += '/chat/completions';
-  }
+  reply.forEach(entry => {
+    const item = toRequestedItem(entry, requestedIds);
+    if (!item) return;
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${settings.apiKey}`
-    },
-    body: JSON.stringify(body),
-    signal
+    if (received.has(item.id)) repeated.add(item.id);
+    else received.set(item.id, item.text);
   });
 
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI API Error: ${response.status} - ${err}`);
+  const isMissing = (item?: TranslationItem) => !!item && (!received.has(item.id) || repeated.has(item.id));
+
+  const translated: Record<string, string> = {};
+  const broken: TranslationItem[] = [];
+  requested.forEach((item, index) => {
+    if (isMissing(item) || (suspectMerges && isMissing(requested[index + 1]))) {
+      broken.push(item);
+    } else {
+      translated[item.id] = received.get(item.id)!;
+    }
+  });
+
+  if (reply.length !== requested.length) {
+    console.warn(`Expected ${requested.length} segments, got ${reply.length}`);
   }
 
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
+  return { translated, broken };
+};
 
-  if (!content) throw new Error("No content in OpenAI response");
+/**
+ * Translates a batch of segments, keyed by segment id. Segments the provider
+ * drops or misaligns are re-requested on their own; any still missing after
+ * that are returned as per-segment error strings.
+ * @param onSegment called as streamed segments arrive; the returned map is final
+ * @param onUsage called with the usage of each request, repair requests included
+ */
+export const translateSegmentsBatch = async (
+  items: TranslationItem[],
+  targetLanguage: TargetLanguage,
+  settings: AISettings,
+  signal?: AbortSignal,
+  context?: TranslationContext,
+  onSegment?: (id: string, text: string) => void,
+  onUsage?: (usage: UsageCounts) => void
+): Promise<Record<string, string>> => {
+  const results: Record<string, string> = {};
+  let pending = items;
 
-  // Clean potential markdown code blocks ```json ... ```
-  const cleanJson = content.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pending.length > 0; attempt++) {
+    const reply = await requestTranslations(pending, targetLanguage, settings, signal, context, onSegment, onUsage);
 
-  try {
-    const parsed = JSON.parse(cleanJson);
-    if (Array.isArray(parsed)) {
-      return parsed.map(String);
+    if (typeof reply === "string") {
+      pending.forEach(item => { results[item.id] = reply; });
+      return results;
+    }
+
+    // On the last attempt, keep whatever came back rather than fail its neighbours
+    const suspectMerges = !reply.truncated && attempt < MAX_REPAIR_ATTEMPTS;
+    const { translated, broken } = reconcileTranslations(pending, reply.entries, suspectMerges);
+    Object.assign(results, translated);
+
+    if (broken.length > 0 && attempt < MAX_REPAIR_ATTEMPTS) {
+      console.warn(`Re-requesting ${broken.length} segment(s): ${broken.map(item => item.id).join(", ")}`);
     }
-    throw new Error("Parsed content is not an array");
-  } catch (e) {
-    console.error("Failed to parse OpenAI JSON", content);
-    throw new Error("JSON Parse Error from OpenAI response");
+    pending = broken;
   }
+
+  pending.forEach(item => { results[item.id] = MISSING_SEGMENT; });
+  return results;
 };
 
-export const translateSegmentsBatch = async (
+/**
+ * Folds newly translated source text into the running chapter summary.
+ * Best effort: on failure, or with a provider that cannot take free-form
+ * prompts, the previous summary is kept.
+ */
+export const updateChapterSummary = async (
+  previousSummary: string | undefined,
   texts: string[],
-  targetLanguage: TargetLanguage,
   settings: AISettings,
-  signal?: AbortSignal
-): Promise<string[]> => {
-  let retries = 0;
-  const maxRetries = 3;
-  let backoff = 2000; 
+  signal?: AbortSignal,
+  onUsage?: (usage: UsageCounts) => void
+): Promise<string | undefined> => {
+  const provider = getProvider(settings.provider);
+  if (!provider.complete) return previousSummary;
 
-  while (retries <= maxRetries) {
-    if (signal?.aborted) throw new Error("Aborted");
+  const prompt = `You maintain a running summary of a book chapter to help a translator stay consistent.
+  Update the summary with the new passage. Keep it under 120 words, in English.
+  Track who is speaking, who pronouns refer to, and the tone.
+  Return only the summary text.
 
-    try {
-      if (settings.provider === 'openai') {
-        return await translateWithOpenAI(texts, targetLanguage, settings, signal);
-      } else {
-        // Pass the apiKey from settings to Gemini function
-        return await translateWithGemini(texts, targetLanguage, settings.model, settings.apiKey, signal);
-      }
-    } catch (error: any) {
-      if (signal?.aborted || error.message === "Aborted" || error.name === 'AbortError') {
-        throw new Error("Aborted");
-      }
+  Current summary:
+  ${previousSummary || "(none yet)"}
 
-      const isRateLimit = 
-        error.status === 429 || 
-        error.code === 429 || 
-        (error.message && (
-          error.message.includes("429") || 
-          error.message.includes("quota") || 
-          error.message.includes("RESOURCE_EXHAUSTED")
-        )) ||
-        error.status === 503;
-
-      if (isRateLimit) {
-        if (retries === maxRetries) break;
-        console.warn(`Rate limit hit (${settings.provider}). Retrying in ${backoff}ms...`);
-        try {
-          await delay(backoff, signal);
-        } catch (e) {
-          if ((e as Error).message === "Aborted") throw e;
-        }
-        backoff = Math.min(backoff * 1.5, 30000);
-        retries++;
-        continue;
-      }
+  New passage:
+  ${texts.join("\n")}`;
 
-      console.error("Translation Error:", error);
-      // Return error strings for UI
-      return texts.map(() => "[Translation Failed]");
+  await getRateLimiter(settings).acquire(estimateRequestTokens(texts), getRateLimits(settings), signal);
+
+  try {
+    const reply = await provider.complete(prompt, settings, signal);
+    onUsage?.(reply.usage || UNREPORTED_USAGE);
+    return reply.text.trim() || previousSummary;
+  } catch (error: any) {
+    if (signal?.aborted || error.message === "Aborted" || error.name === 'AbortError') {
+      throw new Error("Aborted");
     }
+    console.warn("Chapter summary update failed", error);
+    return previousSummary;
   }
+};
+
+// The context a batch gets from the batches before it
+export type BatchContext = Pick<TranslationContext, 'precedingSegments' | 'chapterSummary'>;
+
+/**
+ * Runs a chapter's batches, each with the context of the chapter before it.
+ * With a running summary, batches run one at a time in chapter order: each
+ * needs the summary of every batch before it, so they cannot overlap.
+ * Otherwise up to the provider's concurrency run at once, and a batch's
+ * preceding passage carries the translations finished by the time it starts;
+ * neighbours still in flight are sent in the original only.
+ * `getChapter` returns the chapter with the translations so far.
+ */
+export const runChapterBatches = async (
+  batches: Segment[][],
+  getChapter: () => Segment[],
+  settings: AISettings,
+  translateBatch: (batch: Segment[], context: BatchContext, index: number) => Promise<void>,
+  signal?: AbortSignal,
+  onUsage?: (usage: UsageCounts) => void
+): Promise<void> => {
+  const withSummary = !!settings.chapterSummary && !!getProvider(settings.provider).complete;
+  let chapterSummary: string | undefined;
+
+  await runConcurrently(batches, withSummary ? 1 : getRateLimits(settings).concurrency, async (batch, index) => {
+    await translateBatch(batch, { precedingSegments: getPrecedingContext(getChapter(), batch[0].id), chapterSummary }, index);
+    // Only worth a request if another batch will read it
+    if (withSummary && index < batches.length - 1 && !signal?.aborted) {
+      chapterSummary = await updateChapterSummary(chapterSummary, batch.map(s => s.originalText), settings, signal, onUsage);
+    }
+  }, signal);
+};
+
+/**
+ * A finished batch's results merged into the chapter as it is now. Segments
+ * edited by hand, retranslated or restored while the batch was in flight keep
+ * their newer state and are left out of `applied`, so they are not saved over.
+ * `queued` holds the batch as it was sent, `streamed` what streaming showed of it.
+ */
+export const mergeBatchResults = (
+  current: Segment[],
+  queued: Segment[],
+  results: Segment[],
+  streamed: Map<string, Segment> = new Map()
+): { segments: Segment[]; applied: Segment[] } => {
+  const queuedById = new Map(queued.map(s => [s.id, s]));
+  const changed = new Set(current.filter(s => {
+    const sent = queuedById.get(s.id);
+    if (!sent) return false;
+    return s.isEdited || (s.translatedText !== sent.translatedText && s.translatedText !== streamed.get(s.id)?.translatedText);
+  }).map(s => s.id));
 
-  return texts.map(() => "[Error: Retry Limit Exceeded]");
+  const applied = results.filter(s => !changed.has(s.id));
+  const appliedById = new Map(applied.map(s => [s.id, s]));
+  return { segments: current.map(s => appliedById.get(s.id) || s), applied };
 };
@@ -0,0 +1,37 @@
+import { GlossaryEntry } from '../types';
+
+// Scripts written without spaces: a term can sit anywhere inside a word run
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive term lookup. Terms in spaced scripts must match whole words,
+ * so "Ann" does not match inside "Anne".
+ */
+export const containsTerm = (text: string, term: string): boolean => {
+  const needle = term.trim();
+  if (!needle) return false;
+
+  if (UNSPACED_SCRIPT.test(needle)) {
+    return text.toLowerCase().includes(needle.toLowerCase());
+  }
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(needle)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+/**
+ * Entries whose source term occurs in any of the given texts.
+ */
+export const findGlossaryMatches = (texts: string[], glossary: GlossaryEntry[]): GlossaryEntry[] =>
+  glossary.filter(entry => texts.some(text => containsTerm(text, entry.source)));
+
+/**
+ * Entries whose source term is in the original but whose required target term
+ * did not make it into the translation.
+ */
+export const findGlossaryViolations = (
+  originalText: string,
+  translatedText: string,
+  glossary: GlossaryEntry[]
+): GlossaryEntry[] =>
+  glossary.filter(entry => containsTerm(originalText, entry.source) && !containsTerm(translatedText, entry.target));
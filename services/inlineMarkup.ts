@@ -0,0 +1,236 @@
+import { Segment, TranslationItem } from '../types';
+
+/**
+ * Inline markup kept inside a segment. Everything else is unwrapped to its text.
+ * Markup is stored as a sanitized HTML string built only from these tags.
+ */
+const INLINE_TAGS = ['em', 'i', 'strong', 'b', 'u', 'a', 'sup', 'sub', 'small', 'span', 'ruby', 'rt', 'rp'];
+
+// Ruby annotations (furigana) only make sense in the source language
+const RUBY_TAGS = ['ruby', 'rt', 'rp'];
+export const ANNOTATION_TAGS = ['rt', 'rp'];
+
+type Attributes = Record<string, string>;
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Entities back to characters, e.g. in plain text that went through an HTML-aware service
+export const unescapeHtml = (html: string): string =>
+  new DOMParser().parseFromString(html, 'text/html').documentElement.textContent || '';
+
+export const isInlineTag = (tag: string): boolean => INLINE_TAGS.includes(tag);
+
+const isSafeExternalHref = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+/**
+ * Picks the attributes we keep for an inline element, or null if the element
+ * should be unwrapped (e.g. a <span> that carries no language).
+ * @param resolveHref maps a book-internal link to its absolute path in the zip
+ */
+export const getInlineAttributes = (
+  el: Element,
+  resolveHref: (href: string) => string = (href) => href
+): Attributes | null => {
+  const tag = el.tagName.toLowerCase();
+  if (!isInlineTag(tag)) return null;
+
+  if (tag === 'span') {
+    const lang = el.getAttribute('lang') || el.getAttribute('xml:lang');
+    return lang ? { lang } : null;
+  }
+
+  if (tag === 'a') {
+    const dataHref = el.getAttribute('data-href');
+    if (dataHref) return { 'data-href': dataHref };
+
+    const href = el.getAttribute('href');
+    if (!href) return {};
+    if (isSafeExternalHref(href)) return { href, target: '_blank', rel: 'noopener noreferrer' };
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href)) return {}; // javascript:, data:, etc.
+    return { 'data-href': resolveHref(href) };
+  }
+
+  return {};
+};
+
+export const openInlineTag = (tag: string, attrs: Attributes): string => {
+  const serialized = Object.entries(attrs)
+    .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+    .join('');
+  return `<${tag}${serialized}>`;
+};
+
+export const closeInlineTag = (tag: string): string => `</${tag}>`;
+
+const parseFragment = (html: string): HTMLElement => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return doc.body;
+};
+
+interface SerializeOptions {
+  keepAttributes: boolean;
+  keepRuby: boolean;
+  // Bare tags of these names carry an i attribute: their position among the
+  // source's tags of that name, or with keepNumbers the i they came with
+  numbered?: Set<string>;
+  keepNumbers?: boolean;
+}
+
+const serializeChildren = (node: Node, options: SerializeOptions, tags: string[]): string => {
+  let html = '';
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      html += escapeHtml(child.textContent || '');
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = child as Element;
+    const tag = el.tagName.toLowerCase();
+
+    if (!options.keepRuby && RUBY_TAGS.includes(tag)) {
+      // Keep the base text, drop the reading
+      if (tag === 'ruby') html += serializeChildren(el, options, tags);
+      return;
+    }
+
+    // Bare markup (from the model) has lost the attributes that justified keeping a tag
+    const attrs = getInlineAttributes(el) || (!options.keepAttributes && isInlineTag(tag) ? {} : null);
+    if (!attrs) {
+      html += serializeChildren(el, options, tags);
+      return;
+    }
+
+    let openAttrs = options.keepAttributes ? attrs : {};
+    if (!options.keepAttributes && options.numbered?.has(tag)) {
+      const number = options.keepNumbers ? el.getAttribute('i') : String(tags.filter(t => t === tag).length);
+      if (number !== null) openAttrs = { i: number };
+    }
+    tags.push(tag);
+    html += openInlineTag(tag, openAttrs);
+    html += serializeChildren(el, options, tags);
+    html += closeInlineTag(tag);
+  });
+  return html;
+};
+
+/**
+ * Re-serializes markup through the whitelist. Also balances unclosed tags.
+ */
+export const sanitizeInlineMarkup = (html: string): string =>
+  serializeChildren(parseFragment(html), { keepAttributes: true, keepRuby: true }, []);
+
+export const stripInlineMarkup = (html: string): string => {
+  const body = parseFragment(html);
+  body.querySelectorAll(ANNOTATION_TAGS.join(',')).forEach(el => el.remove());
+  return body.textContent || '';
+};
+
+// Attributes of the source's kept tags in document order, by tag name
+const getSourceAttributes = (sourceHtml: string): { tags: string[]; attrs: Record<string, Attributes[]> } => {
+  const sourceBody = parseFragment(sourceHtml);
+  sourceBody.querySelectorAll(ANNOTATION_TAGS.join(',')).forEach(el => el.remove());
+
+  const tags: string[] = [];
+  const attrs: Record<string, Attributes[]> = {};
+  sourceBody.querySelectorAll('*').forEach(el => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'ruby') return;
+    const elAttrs = getInlineAttributes(el);
+    if (!elAttrs) return;
+    tags.push(tag);
+    (attrs[tag] = attrs[tag] || []).push(elAttrs);
+  });
+  return { tags, attrs };
+};
+
+// Tag names used more than once with different attributes: a translation may
+// reorder them, so they are numbered rather than matched by position
+const getNumberedTags = (attrs: Record<string, Attributes[]>): Set<string> =>
+  new Set(Object.keys(attrs).filter(tag => new Set(attrs[tag].map(a => JSON.stringify(a))).size > 1));
+
+/**
+ * Markup sent to the model: ruby collapsed to its base text and attributes removed,
+ * so the model only has to place bare tags. Tags it could swap, such as two
+ * links to different places, are numbered with an i attribute.
+ */
+export const toTranslatableMarkup = (html: string): string =>
+  serializeChildren(
+    parseFragment(html),
+    { keepAttributes: false, keepRuby: false, numbered: getNumberedTags(getSourceAttributes(html).attrs) },
+    []
+  );
+
+/**
+ * Validates a translated markup string against its source and restores the
+ * source attributes (link targets, languages) onto the translated tags.
+ * Returns null when the translation does not carry exactly the source's tags,
+ * or loses or repeats the number of a numbered tag.
+ */
+export const restoreTranslatedMarkup = (sourceHtml: string, translated: string): string | null => {
+  const { tags: sourceTags, attrs: sourceAttrs } = getSourceAttributes(sourceHtml);
+  const numbered = getNumberedTags(sourceAttrs);
+
+  const translatedTags: string[] = [];
+  const bare = serializeChildren(
+    parseFragment(translated),
+    { keepAttributes: false, keepRuby: false, numbered, keepNumbers: true },
+    translatedTags
+  );
+
+  if ([...sourceTags].sort().join(',') !== [...translatedTags].sort().join(',')) return null;
+
+  const used: Record<string, number> = {};
+  const placed = new Set<string>();
+  let valid = true;
+  const html = bare.replace(/<([a-z]+)(?: i="(\d+)")?>/g, (_match, tag: string, number?: string) => {
+    if (numbered.has(tag)) {
+      const attrs = number !== undefined ? sourceAttrs[tag][Number(number)] : undefined;
+      if (!attrs || placed.has(`${tag}${number}`)) valid = false;
+      placed.add(`${tag}${number}`);
+      return openInlineTag(tag, attrs || {});
+    }
+    const index = used[tag] || 0;
+    used[tag] = index + 1;
+    return openInlineTag(tag, sourceAttrs[tag]?.[index] || {});
+  });
+  return valid ? html : null;
+};
+
+/**
+ * Text sent to the provider for a segment: markup when the segment has any, plain text otherwise.
+ */
+export const getTranslationSource = (segment: Segment): string =>
+  segment.originalHtml ? toTranslatableMarkup(segment.originalHtml) : segment.originalText;
+
+// A segment as sent to a provider
+export const toTranslationItem = (segment: Segment): TranslationItem => ({
+  id: segment.id,
+  text: getTranslationSource(segment),
+  ...(segment.originalHtml ? { markup: true } : {})
+});
+
+/**
+ * Turns a raw provider result into segment fields. Markup is only kept when it
+ * validates against the source; otherwise the segment falls back to plain text.
+ */
+export const applyTranslationResult = (
+  segment: Segment,
+  result: string
+): Pick<Segment, 'translatedText' | 'translatedHtml'> => {
+  if (!segment.originalHtml || !result) {
+    return { translatedText: result, translatedHtml: undefined };
+  }
+
+  const html = restoreTranslatedMarkup(segment.originalHtml, result);
+  if (!html) {
+    console.warn(`Inline markup mismatch for ${segment.id}, keeping plain text`);
+    return { translatedText: stripInlineMarkup(result).trim(), translatedHtml: undefined };
+  }
+  return { translatedText: stripInlineMarkup(html).trim(), translatedHtml: html.trim() };
+};
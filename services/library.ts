@@ -0,0 +1,61 @@
+import { LibraryBook } from "../types";
+import { foldText } from "./searchIndex";
+
+export type LibrarySort = 'added' | 'opened' | 'title' | 'author' | 'progress';
+
+export const LIBRARY_SORTS: { id: LibrarySort; label: string }[] = [
+  { id: 'added', label: 'Recently added' },
+  { id: 'opened', label: 'Last opened' },
+  { id: 'title', label: 'Title' },
+  { id: 'author', label: 'Author' },
+  { id: 'progress', label: 'Progress' }
+];
+
+export interface LibraryFilter {
+  query: string; // Over title and author, ignoring case and accents
+  shelf?: string;
+  tag?: string;
+}
+
+export const filterBooks = (books: LibraryBook[], filter: LibraryFilter): LibraryBook[] => {
+  const words = foldText(filter.query).text.split(" ").filter(Boolean);
+  return books.filter(book => {
+    if (filter.shelf && !book.shelves.includes(filter.shelf)) return false;
+    if (filter.tag && !book.tags.includes(filter.tag)) return false;
+    const haystack = foldText(`${book.title} ${book.author}`).text;
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: "base", numeric: true });
+
+/**
+ * Books in the chosen order. Dates and progress run from the most recent or
+ * furthest along; books never opened or without progress come last, newest
+ * first. `progress` is the percentage read per book id.
+ */
+export const sortBooks = (
+  books: LibraryBook[],
+  sort: LibrarySort,
+  progress: Record<string, number | undefined> = {}
+): LibraryBook[] => {
+  const byDescending = (value: (book: LibraryBook) => number | undefined) => (a: LibraryBook, b: LibraryBook) =>
+    (value(b) ?? -1) - (value(a) ?? -1) || b.addedAt - a.addedAt;
+
+  const compare: Record<LibrarySort, (a: LibraryBook, b: LibraryBook) => number> = {
+    added: (a, b) => b.addedAt - a.addedAt,
+    opened: byDescending(book => book.lastOpenedAt),
+    title: (a, b) => compareText(a.title, b.title),
+    author: (a, b) => compareText(a.author, b.author) || compareText(a.title, b.title),
+    progress: byDescending(book => progress[book.id])
+  };
+  return [...books].sort(compare[sort]);
+};
+
+// Every shelf or tag in use, alphabetically
+export const getLabels = (books: LibraryBook[], key: 'shelves' | 'tags'): string[] =>
+  Array.from(new Set(books.flatMap(book => book[key]))).sort(compareText);
+
+// Labels typed as a comma-separated list, trimmed, without blanks or repeats
+export const parseLabels = (input: string): string[] =>
+  Array.from(new Set(input.split(",").map(label => label.trim().replace(/\s+/g, " ")).filter(Boolean)));
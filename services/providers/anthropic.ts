@@ -0,0 +1,95 @@
+import { AISettings, CompletionReply, TranslationProvider } from "../../types";
+import { createJsonStreamParser } from "../streamingJson";
+import { TRANSLATOR_SYSTEM_PROMPT, buildTranslationPrompt, getEventData, parseJsonArray, postJson, postStream, toTokenUsage, trimTrailingSlashes } from "./shared";
+
+const MAX_OUTPUT_TOKENS = 8192;
+
+const getUrl = (settings: AISettings) => `${trimTrailingSlashes(settings.baseUrl || 'https://api.anthropic.com')}/v1/messages`;
+
+const getHeaders = (settings: AISettings) => {
+  if (!settings.apiKey) {
+    throw new Error("API Key required for Anthropic");
+  }
+  return {
+    'x-api-key': settings.apiKey,
+    'anthropic-version': '2023-06-01',
+    // The API rejects CORS requests unless the caller opts in
+    'anthropic-dangerous-direct-browser-access': 'true'
+  };
+};
+
+const getBody = (prompt: string, settings: AISettings, system?: string) => ({
+  model: settings.model,
+  max_tokens: MAX_OUTPUT_TOKENS,
+  system,
+  messages: [{ role: "user", content: prompt }],
+  temperature: 0.3
+});
+
+const createMessage = async (prompt: string, settings: AISettings, signal?: AbortSignal, system?: string): Promise<CompletionReply> => {
+  const data = await postJson(getUrl(settings), getBody(prompt, settings, system), getHeaders(settings), "Anthropic", signal);
+
+  const blocks: { type: string; text?: string }[] = data.content || [];
+  return {
+    text: blocks.filter(block => block.type === 'text').map(block => block.text).join(""),
+    usage: data.usage && toTokenUsage(data.usage.input_tokens, data.usage.output_tokens)
+  };
+};
+
+/**
+ * Anthropic Messages API
+ */
+export const anthropicProvider: TranslationProvider = {
+  id: 'anthropic',
+  label: 'Anthropic Claude',
+  notice: 'Your API key is sent directly from the browser to Anthropic.',
+  capabilities: {
+    jsonMode: false,
+    streaming: true,
+    maxBatchTokens: 8000,
+    // Tier 1 limits
+    rateLimits: { concurrency: 2, requestsPerMinute: 50, tokensPerMinute: 30000 },
+    billing: 'tokens'
+  },
+  settingsSchema: [
+    { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'sk-ant-...' },
+    { key: 'model', label: 'Model Name', type: 'text', placeholder: 'claude-sonnet-4-5' },
+    { key: 'baseUrl', label: 'Base URL', type: 'url', placeholder: 'https://api.anthropic.com', optional: true }
+  ],
+  defaults: {
+    baseUrl: 'https://api.anthropic.com',
+    model: 'claude-sonnet-4-5'
+  },
+
+  translate: async (items, targetLanguage, settings, signal, context) => {
+    const { text, usage } = await createMessage(
+      buildTranslationPrompt(items, targetLanguage, context), settings, signal, TRANSLATOR_SYSTEM_PROMPT
+    );
+    if (!text) throw new Error("No content in Anthropic response");
+    return { items: parseJsonArray(text, "Anthropic"), usage };
+  },
+
+  // Server-sent events; text arrives in content_block_delta events, token counts
+  // in message_start (input) and message_delta (output)
+  translateStream: async (items, targetLanguage, settings, onItem, signal, context) => {
+    const parser = createJsonStreamParser(onItem);
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    const body = getBody(buildTranslationPrompt(items, targetLanguage, context), settings, TRANSLATOR_SYSTEM_PROMPT);
+
+    await postStream(getUrl(settings), { ...body, stream: true }, getHeaders(settings), "Anthropic", (line) => {
+      const data = getEventData(line);
+      if (!data) return;
+      const event = JSON.parse(data);
+      if (event.type === 'error') throw new Error(`Anthropic API Error: ${event.error?.message}`);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        parser.push(event.delta.text);
+      }
+      if (event.type === 'message_start') inputTokens = event.message?.usage?.input_tokens;
+      if (event.type === 'message_delta') outputTokens = event.usage?.output_tokens;
+    }, signal);
+    return { items: parser.end(), usage: toTokenUsage(inputTokens, outputTokens) };
+  },
+
+  complete: (prompt, settings, signal) => createMessage(prompt, settings, signal)
+};
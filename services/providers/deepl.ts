@@ -0,0 +1,84 @@
+import { TargetLanguage, TranslationProvider } from "../../types";
+import { fromHtmlReply, pairByPosition, postJson, toCharacterUsage, toHtmlSource, trimTrailingSlashes } from "./shared";
+
+const TARGET_CODES: Partial<Record<TargetLanguage, string>> = {
+  [TargetLanguage.SPANISH]: 'ES',
+  [TargetLanguage.FRENCH]: 'FR',
+  [TargetLanguage.GERMAN]: 'DE',
+  [TargetLanguage.CHINESE]: 'ZH-HANS',
+  [TargetLanguage.JAPANESE]: 'JA',
+  [TargetLanguage.KOREAN]: 'KO',
+  [TargetLanguage.ITALIAN]: 'IT',
+  [TargetLanguage.PORTUGUESE]: 'PT-PT',
+  [TargetLanguage.RUSSIAN]: 'RU'
+};
+
+// Free-plan keys end in ":fx" and must use the free endpoint
+const getApiUrl = (baseUrl: string, apiKey: string) => {
+  if (baseUrl) return trimTrailingSlashes(baseUrl);
+  return apiKey.endsWith(':fx') ? 'https://api-free.deepl.com' : 'https://api.deepl.com';
+};
+
+/**
+ * DeepL machine translation. It keeps inline tags itself (tag_handling: html),
+ * but ignores the glossary and summary; the preceding passage is sent as `context`.
+ */
+export const deeplProvider: TranslationProvider = {
+  id: 'deepl',
+  label: 'DeepL',
+  notice: 'DeepL does not accept requests straight from a browser. Set the API URL to a CORS proxy if requests fail.',
+  capabilities: {
+    jsonMode: false,
+    streaming: false,
+    maxBatchTokens: 30000,
+    rateLimits: { concurrency: 2, requestsPerMinute: 60, tokensPerMinute: 0 },
+    billing: 'characters'
+  },
+  settingsSchema: [
+    { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'xxxxxxxx-xxxx-...:fx' },
+    { key: 'baseUrl', label: 'API URL', type: 'url', placeholder: 'https://api-free.deepl.com', optional: true },
+    {
+      key: 'formality',
+      label: 'Formality',
+      type: 'select',
+      choices: [
+        { value: 'default', label: 'Default' },
+        { value: 'prefer_more', label: 'More formal' },
+        { value: 'prefer_less', label: 'Less formal' }
+      ]
+    }
+  ],
+  defaults: { formality: 'default' },
+
+  translate: async (items, targetLanguage, settings, signal, context) => {
+    if (!settings.apiKey) {
+      throw new Error("API Key required for DeepL");
+    }
+    const targetCode = TARGET_CODES[targetLanguage];
+    if (!targetCode) {
+      throw new Error(`DeepL does not support ${targetLanguage}`);
+    }
+
+    const precedingText = context?.precedingSegments?.map(s => s.original).join("\n");
+
+    const data = await postJson(`${getApiUrl(settings.baseUrl, settings.apiKey)}/v2/translate`, {
+      text: items.map(toHtmlSource),
+      target_lang: targetCode,
+      tag_handling: 'html',
+      formality: settings.options?.formality || 'default',
+      context: precedingText || undefined,
+      show_billed_characters: true
+    }, {
+      'Authorization': `DeepL-Auth-Key ${settings.apiKey}`
+    }, "DeepL", signal);
+
+    const translations: { text: string; billed_characters?: number }[] = data.translations || [];
+    // Context is free; only the source text is billed
+    const billed = translations.reduce((sum, t, i) => sum + (t.billed_characters ?? items[i]?.text.length ?? 0), 0);
+    return {
+      items: pairByPosition(items, translations.map(t => t.text), "DeepL")
+        .map((item, i) => ({ ...item, text: fromHtmlReply(items[i], item.text) })),
+      usage: toCharacterUsage(billed)
+    };
+  }
+};
@@ -0,0 +1,126 @@
+import { GenerateContentParameters, GenerateContentResponseUsageMetadata, GoogleGenAI, Type } from "@google/genai";
+import { AISettings, TargetLanguage, TranslationContext, TranslationItem, TranslationProvider } from "../../types";
+import { createJsonStreamParser } from "../streamingJson";
+import { INLINE_MARKUP_INSTRUCTIONS, SEGMENT_ID_INSTRUCTIONS, buildContextInstructions, toPromptItems, toTokenUsage } from "./shared";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+const getAiClient = (apiKey?: string) => {
+  const key = apiKey || process.env.API_KEY;
+  if (!key) {
+    throw new Error("API_KEY is missing. Please provide one in settings.");
+  }
+  return new GoogleGenAI({ apiKey: key });
+};
+
+// Ensure we use a valid Gemini model name
+const getModel = (modelName: string) => modelName.includes('gemini') ? modelName : DEFAULT_MODEL;
+
+// Thinking tokens are billed as output
+const getUsage = (metadata?: GenerateContentResponseUsageMetadata) => metadata && toTokenUsage(
+  metadata.promptTokenCount,
+  (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+);
+
+const buildTranslationRequest = (
+  items: TranslationItem[],
+  targetLanguage: TargetLanguage,
+  settings: AISettings,
+  signal?: AbortSignal,
+  context?: TranslationContext
+): GenerateContentParameters => ({
+  model: getModel(settings.model),
+  contents: `Translate the "text" of each of the following segments into ${targetLanguage}.
+    Maintain the tone and nuance of the original text.
+    ${SEGMENT_ID_INSTRUCTIONS}
+    ${INLINE_MARKUP_INSTRUCTIONS}
+    ${buildContextInstructions(items.map(item => item.text), context)}
+
+    Input Segments:
+    ${toPromptItems(items)}`,
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          text: { type: Type.STRING }
+        },
+        required: ["id", "text"],
+        propertyOrdering: ["id", "text"]
+      }
+    },
+    abortSignal: signal
+  }
+});
+
+/**
+ * Google Gemini SDK
+ */
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  notice: 'Leave API Key empty to use the system default key.',
+  capabilities: {
+    jsonMode: true,
+    streaming: true,
+    maxBatchTokens: 8000,
+    // Free tier limits for Flash
+    rateLimits: { concurrency: 3, requestsPerMinute: 10, tokensPerMinute: 250000 },
+    billing: 'tokens'
+  },
+  settingsSchema: [
+    { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'Use system default or enter key', optional: true },
+    { key: 'model', label: 'Model Name', type: 'text', placeholder: DEFAULT_MODEL }
+  ],
+  defaults: { model: DEFAULT_MODEL },
+
+  translate: async (items, targetLanguage, settings, signal, context) => {
+    const ai = getAiClient(settings.apiKey);
+    const response = await ai.models.generateContent(buildTranslationRequest(items, targetLanguage, settings, signal, context));
+
+    // Check abort after response
+    if (signal?.aborted) throw new Error("Aborted");
+
+    const usage = getUsage(response.usageMetadata);
+    const jsonText = response.text;
+    // An empty reply leaves every segment missing, so they are all re-requested
+    if (!jsonText) return { items: [], usage };
+
+    const parsed = JSON.parse(jsonText);
+    if (Array.isArray(parsed)) {
+      return { items: parsed, usage };
+    }
+
+    throw new Error("Invalid JSON format from Gemini");
+  },
+
+  translateStream: async (items, targetLanguage, settings, onItem, signal, context) => {
+    const ai = getAiClient(settings.apiKey);
+    const stream = await ai.models.generateContentStream(buildTranslationRequest(items, targetLanguage, settings, signal, context));
+
+    const parser = createJsonStreamParser(onItem);
+    // Each chunk carries the running totals
+    let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      if (signal?.aborted) throw new Error("Aborted");
+      parser.push(chunk.text || "");
+      usageMetadata = chunk.usageMetadata || usageMetadata;
+    }
+    if (signal?.aborted) throw new Error("Aborted");
+    return { items: parser.end(), usage: getUsage(usageMetadata) };
+  },
+
+  complete: async (prompt, settings, signal) => {
+    const ai = getAiClient(settings.apiKey);
+    const response = await ai.models.generateContent({
+      model: getModel(settings.model),
+      contents: prompt,
+      config: { abortSignal: signal }
+    });
+    if (signal?.aborted) throw new Error("Aborted");
+    return { text: response.text || "", usage: getUsage(response.usageMetadata) };
+  }
+};
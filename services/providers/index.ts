@@ -0,0 +1,66 @@
+import { AIProvider, AISettings, ProviderSettingsValues, TranslationProvider } from "../../types";
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { ollamaProvider } from "./ollama";
+import { deeplProvider } from "./deepl";
+import { libreTranslateProvider } from "./libreTranslate";
+
+const providers = new Map<AIProvider, TranslationProvider>();
+
+export const registerProvider = (provider: TranslationProvider) => {
+  providers.set(provider.id, provider);
+};
+
+[
+  geminiProvider,
+  openaiProvider,
+  anthropicProvider,
+  ollamaProvider,
+  deeplProvider,
+  libreTranslateProvider
+].forEach(registerProvider);
+
+export const getProviders = (): TranslationProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: AIProvider): TranslationProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown translation provider: ${id}`);
+  return provider;
+};
+
+// Settings fields that live directly on AISettings; the rest go to `options`
+const CORE_FIELDS = ['apiKey', 'baseUrl', 'model'] as const;
+type CoreField = typeof CORE_FIELDS[number];
+
+const isCoreField = (key: string): key is CoreField => (CORE_FIELDS as readonly string[]).includes(key);
+
+export const getSettingValue = (settings: AISettings, key: string): string =>
+  (isCoreField(key) ? settings[key] : settings.options?.[key]) ?? '';
+
+export const setSettingValue = (settings: AISettings, key: string, value: string): AISettings =>
+  isCoreField(key)
+    ? { ...settings, [key]: value }
+    : { ...settings, options: { ...settings.options, [key]: value } };
+
+/**
+ * Selects another provider. The current provider's values are remembered and
+ * the new one's are restored, falling back to its defaults.
+ */
+export const switchProvider = (settings: AISettings, id: AIProvider): AISettings => {
+  if (settings.provider === id) return settings;
+
+  const current: ProviderSettingsValues = {
+    ...settings.options,
+    apiKey: settings.apiKey,
+    baseUrl: settings.baseUrl,
+    model: settings.model
+  };
+  const savedProviders = { ...settings.savedProviders, [settings.provider]: current };
+  const { apiKey = '', baseUrl = '', model = '', ...options } = {
+    ...getProvider(id).defaults,
+    ...savedProviders[id]
+  };
+
+  return { ...settings, provider: id, apiKey, baseUrl, model, options, savedProviders };
+};
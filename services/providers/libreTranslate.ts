@@ -0,0 +1,44 @@
+import { TARGET_LANGUAGE_CODES, TranslationProvider } from "../../types";
+import { fromHtmlReply, pairByPosition, postJson, toCharacterUsage, toHtmlSource, trimTrailingSlashes } from "./shared";
+
+const DEFAULT_URL = 'http://localhost:5000';
+
+/**
+ * LibreTranslate, self-hosted or a public instance. Plain machine translation:
+ * no glossary or context support.
+ */
+export const libreTranslateProvider: TranslationProvider = {
+  id: 'libretranslate',
+  label: 'LibreTranslate',
+  capabilities: {
+    jsonMode: false,
+    streaming: false,
+    maxBatchTokens: 4000,
+    rateLimits: { concurrency: 1, requestsPerMinute: 20, tokensPerMinute: 0 },
+    billing: 'characters'
+  },
+  settingsSchema: [
+    { key: 'baseUrl', label: 'Server URL', type: 'url', placeholder: DEFAULT_URL },
+    { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'Only needed for hosted instances', optional: true }
+  ],
+  defaults: { baseUrl: DEFAULT_URL },
+
+  translate: async (items, targetLanguage, settings, signal) => {
+    const data = await postJson(`${trimTrailingSlashes(settings.baseUrl || DEFAULT_URL)}/translate`, {
+      q: items.map(toHtmlSource),
+      source: 'auto',
+      target: TARGET_LANGUAGE_CODES[targetLanguage],
+      format: 'html',
+      api_key: settings.apiKey || undefined
+    }, {}, "LibreTranslate", signal);
+
+    // An array `q` gets an array back
+    const translated = data.translatedText;
+    if (!Array.isArray(translated)) throw new Error("Unexpected LibreTranslate response");
+    return {
+      items: pairByPosition(items, translated, "LibreTranslate")
+        .map((item, i) => ({ ...item, text: fromHtmlReply(items[i], item.text) })),
+      usage: toCharacterUsage(items.reduce((sum, item) => sum + item.text.length, 0))
+    };
+  }
+};
@@ -0,0 +1,90 @@
+import { AISettings, CompletionReply, TargetLanguage, TranslationContext, TranslationItem, TranslationProvider } from "../../types";
+import { createJsonStreamParser } from "../streamingJson";
+import { TRANSLATION_ITEMS_SCHEMA, TRANSLATOR_SYSTEM_PROMPT, buildTranslationPrompt, parseJsonArray, postJson, postStream, toTokenUsage, trimTrailingSlashes } from "./shared";
+
+const DEFAULT_URL = 'http://localhost:11434';
+
+type ChatMessage = { role: string; content: string };
+
+const getUrl = (settings: AISettings) => `${trimTrailingSlashes(settings.baseUrl || DEFAULT_URL)}/api/chat`;
+
+const getBody = (messages: ChatMessage[], settings: AISettings, stream: boolean, format?: object) => ({
+  model: settings.model,
+  messages,
+  format,
+  stream,
+  options: { temperature: 0.3 }
+});
+
+// Token counts are on the reply, or on the last chunk of a stream
+const getUsage = (data: { prompt_eval_count?: number; eval_count?: number }) =>
+  toTokenUsage(data.prompt_eval_count, data.eval_count);
+
+const chat = async (
+  messages: ChatMessage[],
+  settings: AISettings,
+  signal?: AbortSignal,
+  format?: object
+): Promise<CompletionReply> => {
+  const data = await postJson(getUrl(settings), getBody(messages, settings, false, format), {}, "Ollama", signal);
+  return { text: data.message?.content || "", usage: getUsage(data) };
+};
+
+const getTranslationMessages = (
+  items: TranslationItem[],
+  targetLanguage: TargetLanguage,
+  context?: TranslationContext
+): ChatMessage[] => [
+  { role: "system", content: TRANSLATOR_SYSTEM_PROMPT },
+  { role: "user", content: buildTranslationPrompt(items, targetLanguage, context) }
+];
+
+/**
+ * Ollama's native chat API, for models running locally
+ */
+export const ollamaProvider: TranslationProvider = {
+  id: 'ollama',
+  label: 'Ollama (Local)',
+  notice: 'Start Ollama with OLLAMA_ORIGINS set to allow requests from this page.',
+  capabilities: {
+    jsonMode: true,
+    streaming: true,
+    // Local models often run with a small context window
+    maxBatchTokens: 2000,
+    // One model instance; parallel requests would only queue on the server
+    rateLimits: { concurrency: 1, requestsPerMinute: 0, tokensPerMinute: 0 },
+    billing: 'tokens'
+  },
+  settingsSchema: [
+    { key: 'baseUrl', label: 'Server URL', type: 'url', placeholder: DEFAULT_URL },
+    { key: 'model', label: 'Model Name', type: 'text', placeholder: 'llama3.1' }
+  ],
+  defaults: {
+    baseUrl: DEFAULT_URL,
+    model: 'llama3.1'
+  },
+
+  translate: async (items, targetLanguage, settings, signal, context) => {
+    const { text, usage } = await chat(getTranslationMessages(items, targetLanguage, context), settings, signal, TRANSLATION_ITEMS_SCHEMA);
+
+    if (!text) throw new Error("No content in Ollama response");
+    return { items: parseJsonArray(text, "Ollama"), usage };
+  },
+
+  // Newline-delimited JSON, one message chunk per line
+  translateStream: async (items, targetLanguage, settings, onItem, signal, context) => {
+    const parser = createJsonStreamParser(onItem);
+    const body = getBody(getTranslationMessages(items, targetLanguage, context), settings, true, TRANSLATION_ITEMS_SCHEMA);
+    let usage: ReturnType<typeof getUsage>;
+
+    await postStream(getUrl(settings), body, {}, "Ollama", (line) => {
+      const chunk = JSON.parse(line);
+      if (chunk.error) throw new Error(`Ollama API Error: ${chunk.error}`);
+      parser.push(chunk.message?.content || "");
+      if (chunk.done) usage = getUsage(chunk);
+    }, signal);
+    return { items: parser.end(), usage };
+  },
+
+  complete: (prompt, settings, signal) => chat([{ role: "user", content: prompt }], settings, signal)
+};
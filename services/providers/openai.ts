@@ -0,0 +1,96 @@
+import { AISettings, CompletionReply, TargetLanguage, TranslationContext, TranslationItem, TranslationProvider } from "../../types";
+import { createJsonStreamParser } from "../streamingJson";
+import { TRANSLATOR_SYSTEM_PROMPT, buildTranslationPrompt, getEventData, parseJsonArray, postJson, postStream, toTokenUsage, trimTrailingSlashes } from "./shared";
+
+type ChatMessage = { role: string; content: string };
+
+const getChatCompletionsUrl = (baseUrl: string) => {
+  let url = trimTrailingSlashes(baseUrl);
+  if (!url.endsWith('/chat/completions')) {
+      url += '/chat/completions';
+  }
+  return url;
+};
+
+const getHeaders = (settings: AISettings) => ({ 'Authorization': `Bearer ${settings.apiKey}` });
+
+const getBody = (messages: ChatMessage[], settings: AISettings) => ({
+  model: settings.model || "gpt-3.5-turbo",
+  messages,
+  temperature: 0.3
+});
+
+type ChatUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+const getUsage = (usage?: ChatUsage) => usage && toTokenUsage(usage.prompt_tokens, usage.completion_tokens);
+
+const chat = async (messages: ChatMessage[], settings: AISettings, signal?: AbortSignal): Promise<CompletionReply> => {
+  const data = await postJson(getChatCompletionsUrl(settings.baseUrl), getBody(messages, settings), getHeaders(settings), "OpenAI", signal);
+  return { text: data.choices?.[0]?.message?.content || "", usage: getUsage(data.usage) };
+};
+
+const getTranslationMessages = (
+  items: TranslationItem[],
+  targetLanguage: TargetLanguage,
+  settings: AISettings,
+  context?: TranslationContext
+): ChatMessage[] => {
+  if (!settings.apiKey && !settings.baseUrl.includes('localhost')) {
+    throw new Error("API Key required for OpenAI compatible endpoints");
+  }
+  return [
+    { role: "system", content: TRANSLATOR_SYSTEM_PROMPT },
+    { role: "user", content: buildTranslationPrompt(items, targetLanguage, context) }
+  ];
+};
+
+/**
+ * OpenAI compatible chat completions endpoint (OpenAI, OpenRouter, LM Studio, ...)
+ */
+export const openaiProvider: TranslationProvider = {
+  id: 'openai',
+  label: 'OpenAI / Custom',
+  capabilities: {
+    jsonMode: false,
+    streaming: true,
+    maxBatchTokens: 8000,
+    rateLimits: { concurrency: 3, requestsPerMinute: 60, tokensPerMinute: 100000 },
+    billing: 'tokens'
+  },
+  settingsSchema: [
+    { key: 'baseUrl', label: 'Base URL', type: 'url', placeholder: 'https://openrouter.ai/api/v1' },
+    { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'sk-...' },
+    { key: 'model', label: 'Model Name', type: 'text', placeholder: 'google/gemini-2.5-flash' }
+  ],
+  defaults: {
+    baseUrl: 'https://openrouter.ai/api/v1',
+    model: 'google/gemini-2.5-flash'
+  },
+
+  translate: async (items, targetLanguage, settings, signal, context) => {
+    const { text, usage } = await chat(getTranslationMessages(items, targetLanguage, settings, context), settings, signal);
+
+    if (!text) throw new Error("No content in OpenAI response");
+    return { items: parseJsonArray(text, "OpenAI"), usage };
+  },
+
+  // Server-sent events, one content delta per event; usage comes in a last event without choices
+  translateStream: async (items, targetLanguage, settings, onItem, signal, context) => {
+    const parser = createJsonStreamParser(onItem);
+    let usage: ChatUsage | undefined;
+    await postStream(getChatCompletionsUrl(settings.baseUrl), {
+      ...getBody(getTranslationMessages(items, targetLanguage, settings, context), settings),
+      stream: true,
+      stream_options: { include_usage: true }
+    }, getHeaders(settings), "OpenAI", (line) => {
+      const data = getEventData(line);
+      if (!data) return;
+      const event = JSON.parse(data);
+      parser.push(event.choices?.[0]?.delta?.content || "");
+      usage = event.usage || usage;
+    }, signal);
+    return { items: parser.end(), usage: getUsage(usage) };
+  },
+
+  complete: (prompt, settings, signal) => chat([{ role: "user", content: prompt }], settings, signal)
+};
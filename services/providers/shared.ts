@@ -0,0 +1,217 @@
+import { TargetLanguage, TranslationContext, TranslationItem, UsageCounts } from "../../types";
+import { findGlossaryMatches } from "../glossary";
+import { escapeHtml, unescapeHtml } from "../inlineMarkup";
+
+// Segments with emphasis, links or language spans are sent as inline HTML
+export const INLINE_MARKUP_INSTRUCTIONS = `Some segments contain inline HTML tags (<em>, <i>, <strong>, <b>, <u>, <a>, <sup>, <sub>, <small>, <span>).
+    Keep exactly the same tags in each translated segment, wrapped around the words that correspond to the original.
+    Do not add, drop, rename or add attributes to tags, and do not introduce any other HTML.
+    Some tags carry an i attribute that numbers them: keep it on the tag it was on.`;
+
+/**
+ * Extra prompt lines: book metadata, running summary, preceding passage and
+ * the glossary entries relevant to this batch.
+ */
+export const buildContextInstructions = (texts: string[], context?: TranslationContext): string => {
+  if (!context) return "";
+  const sections: string[] = [];
+
+  if (context.book) {
+    sections.push(`The text is from the book "${context.book.title}" by ${context.book.creator} (source language: ${context.book.language}).`);
+  }
+
+  if (context.chapterSummary) {
+    sections.push(`Summary of the chapter so far (for context only):
+    ${context.chapterSummary}`);
+  }
+
+  if (context.precedingSegments && context.precedingSegments.length > 0) {
+    const passage = context.precedingSegments.map(s =>
+      s.translated ? `${s.original}\n    => ${s.translated}` : s.original
+    );
+    sections.push(`The passage right before these segments, with existing translations. It is read-only context: do not translate or return it, but keep pronouns, names, tone and dialogue attribution consistent with it.
+    ${passage.join("\n    ")}`);
+  }
+
+  const matches = findGlossaryMatches(texts, context.glossary || []);
+  if (matches.length > 0) {
+    const lines = matches.map(entry =>
+      `- "${entry.source}" => "${entry.target}"${entry.notes ? ` (${entry.notes})` : ""}`
+    );
+    sections.push(`Glossary: always translate these terms exactly as given.
+    ${lines.join("\n    ")}`);
+  }
+
+  if (context.instruction) {
+    sections.push(`The reader asked for this translation to be redone with the following instruction: ${context.instruction}`);
+  }
+
+  return sections.join("\n\n    ");
+};
+
+// Segments go out as {id, text} objects and must come back the same way, so a
+// merged or dropped segment cannot shift the others
+export const SEGMENT_ID_INSTRUCTIONS = `Each input object has an "id" and a "text". Return a JSON array with exactly one object per input object,
+    in the same order, with the same "id" and the translated "text". Never merge, split, skip or renumber segments.`;
+
+// JSON schema for structured output: [{ id, text }]
+export const TRANSLATION_ITEMS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { id: { type: 'string' }, text: { type: 'string' } },
+    required: ['id', 'text']
+  }
+};
+
+// Prompt for chat models that are asked (rather than constrained) to return a JSON array
+export const buildTranslationPrompt = (
+  items: TranslationItem[],
+  targetLanguage: TargetLanguage,
+  context?: TranslationContext
+): string => `You are a professional translator. Translate the "text" of each object in the following JSON array into ${targetLanguage}.
+  Maintain the tone and nuance.
+  ${SEGMENT_ID_INSTRUCTIONS}
+  ${INLINE_MARKUP_INSTRUCTIONS}
+  ${buildContextInstructions(items.map(item => item.text), context)}
+  IMPORTANT: Return ONLY a raw JSON array of objects. No markdown formatting, no backticks.
+  Example: [{"id": "seg-1", "text": "Hello"}, {"id": "seg-2", "text": "World"}]
+
+  Input:
+  ${toPromptItems(items)}`;
+
+export const TRANSLATOR_SYSTEM_PROMPT = "You are a translator. Output strictly JSON array.";
+
+/**
+ * Parses a model reply that should be a JSON array. The items are checked by the caller.
+ */
+export const parseJsonArray = (content: string, providerLabel: string): unknown[] => {
+  // Clean potential markdown code blocks ```json ... ```
+  const cleanJson = content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+  try {
+    const parsed = JSON.parse(cleanJson);
+    if (Array.isArray(parsed)) {
+      return parsed;
+    }
+    throw new Error("Parsed content is not an array");
+  } catch (e) {
+    console.error(`Failed to parse ${providerLabel} JSON`, content);
+    throw new Error(`JSON Parse Error from ${providerLabel} response`);
+  }
+};
+
+/**
+ * Pairs the plain list of translations from a machine translation API with the
+ * request ids. These APIs answer one-to-one, so a count mismatch is an error.
+ */
+export const pairByPosition = (items: TranslationItem[], texts: string[], providerLabel: string): TranslationItem[] => {
+  if (texts.length !== items.length) {
+    throw new Error(`${providerLabel} returned ${texts.length} translations for ${items.length} segments`);
+  }
+  return items.map((item, index) => ({ id: item.id, text: String(texts[index]) }));
+};
+
+// Items as the JSON a model reads: only ids and text
+export const toPromptItems = (items: TranslationItem[]): string =>
+  JSON.stringify(items.map(({ id, text }) => ({ id, text })));
+
+/**
+ * For services that translate HTML and keep its tags: plain items are escaped
+ * going out, so "<" and "&" stay text, and unescaped coming back.
+ */
+export const toHtmlSource = (item: TranslationItem): string => item.markup ? item.text : escapeHtml(item.text);
+
+export const fromHtmlReply = (item: TranslationItem, text: string): string => item.markup ? text : unescapeHtml(text);
+
+export const trimTrailingSlashes = (url: string) => url.replace(/\/+$/, '');
+
+// Usage of one request, or undefined when the API did not report token counts
+export const toTokenUsage = (inputTokens?: number, outputTokens?: number): UsageCounts | undefined => {
+  if (inputTokens === undefined && outputTokens === undefined) return undefined;
+  return { inputTokens: inputTokens ?? 0, outputTokens: outputTokens ?? 0, characters: 0, requests: 1 };
+};
+
+export const toCharacterUsage = (characters: number): UsageCounts => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  characters,
+  requests: 1
+});
+
+const post = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  providerLabel: string,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const error: any = new Error(`${providerLabel} API Error: ${response.status} - ${await response.text()}`);
+    error.status = response.status;
+    throw error;
+  }
+
+  return response;
+};
+
+/**
+ * POSTs a JSON body and returns the parsed JSON reply. HTTP failures throw an
+ * error carrying `status`, so the batch retry loop can recognise rate limits.
+ */
+export const postJson = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  providerLabel: string,
+  signal?: AbortSignal
+): Promise<any> => (await post(url, body, headers, providerLabel, signal)).json();
+
+/**
+ * POSTs a JSON body and calls `onLine` for each line of the streamed reply.
+ */
+export const postStream = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  providerLabel: string,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await post(url, body, headers, providerLabel, signal);
+  if (!response.body) throw new Error(`${providerLabel} returned an empty stream`);
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    pending += decoder.decode(value, { stream: !done });
+
+    const lines = pending.split('\n');
+    pending = done ? '' : lines.pop() || '';
+    lines.forEach(line => {
+      if (line.trim()) onLine(line.replace(/\r$/, ''));
+    });
+
+    if (done) return;
+  }
+};
+
+// Payload of a server-sent event line, or null for comments, event names and the [DONE] marker
+export const getEventData = (line: string): string | null => {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice(5).trim();
+  return data && data !== '[DONE]' ? data : null;
+};
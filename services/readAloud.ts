@@ -0,0 +1,58 @@
+import { AnnotationSide, Segment } from "../types";
+import { isTranslationError } from "./geminiService";
+
+export type ReadAloudMode = 'original' | 'translation' | 'alternating';
+
+export const READ_ALOUD_MODES: { id: ReadAloudMode; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'translation', label: 'Translation' },
+  { id: 'alternating', label: 'Both' }
+];
+
+// One utterance: a segment's original or translated text
+export interface ReadAloudItem {
+  segmentId: string;
+  position: number; // Of the segment in the chapter
+  side: AnnotationSide;
+  text: string;
+}
+
+const getTranslation = (segment: Segment) =>
+  segment.translatedText && !isTranslationError(segment.translatedText) ? segment.translatedText : undefined;
+
+/**
+ * What the chapter reads as, in order. Segments without a translation yet are
+ * skipped in translation mode and read in the original only when alternating.
+ */
+export const getReadAloudItems = (segments: Segment[], mode: ReadAloudMode): ReadAloudItem[] =>
+  segments.flatMap((segment, position) => {
+    if (segment.type !== 'text' || !segment.originalText.trim()) return [];
+    const translation = getTranslation(segment);
+    const original: ReadAloudItem = { segmentId: segment.id, position, side: 'original', text: segment.originalText };
+    const translated: ReadAloudItem[] = translation ? [{ segmentId: segment.id, position, side: 'translation', text: translation }] : [];
+    if (mode === 'original') return [original];
+    if (mode === 'translation') return translated;
+    return [original, ...translated];
+  });
+
+// The item after `current` by position, as items come and go with translations and mode changes
+export const getNextReadAloudItem = (items: ReadAloudItem[], current: ReadAloudItem): ReadAloudItem | undefined =>
+  items.find(item =>
+    item.position > current.position ||
+    (item.position === current.position && current.side === 'original' && item.side === 'translation')
+  );
+
+/**
+ * The voice for a BCP 47 tag: an exact match, else one for the same language
+ * (so "zh-Hans" finds "zh-CN"), preferring the browser's default and
+ * on-device voices.
+ */
+export const pickVoice = (voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice | undefined => {
+  const wanted = lang.toLowerCase().replace(/_/g, "-");
+  const primary = wanted.split("-")[0];
+  const rank = (voice: SpeechSynthesisVoice) => Number(voice.default) * 2 + Number(voice.localService);
+  const candidates = voices
+    .filter(voice => voice.lang.toLowerCase().replace(/_/g, "-").split("-")[0] === primary)
+    .sort((a, b) => rank(b) - rank(a));
+  return candidates.find(voice => voice.lang.toLowerCase().replace(/_/g, "-") === wanted) || candidates[0];
+};
@@ -0,0 +1,114 @@
+import { ChapterRef } from "../types";
+import { ReadingSession } from "./db";
+import { CJK_CHAR, ORIGINAL_SOURCE, SearchDocument } from "./searchIndex";
+
+/**
+ * Where the reader is in the book and how they read it. Positions are
+ * character offsets into the original text, taken from the search index
+ * (which holds every chapter's text segments), so a long chapter weighs more
+ * than a short one.
+ */
+
+// Character offsets of each chapter and text segment from the start of the book
+export interface BookLayout {
+  total: number;
+  chapterOffsets: Map<string, number>; // chapterHref -> offset
+  segmentOffsets: Map<string, number>; // chapterHref#segmentId -> offset
+}
+
+export const getBookLayout = (documents: SearchDocument[], chapters: ChapterRef[]): BookLayout => {
+  const originals = new Map(
+    documents.filter(doc => doc.source === ORIGINAL_SOURCE).map(doc => [doc.chapterHref, doc])
+  );
+  const chapterOffsets = new Map<string, number>();
+  const segmentOffsets = new Map<string, number>();
+  let offset = 0;
+
+  chapters.forEach(chapter => {
+    chapterOffsets.set(chapter.href, offset);
+    originals.get(chapter.href)?.segments.forEach(segment => {
+      segmentOffsets.set(`${chapter.href}#${segment.id}`, offset);
+      offset += segment.text.length;
+    });
+  });
+  return { total: offset, chapterOffsets, segmentOffsets };
+};
+
+/**
+ * Percentage of the book's text before the segment. Segments the index does
+ * not know (images) count as the start of their chapter.
+ */
+export const getBookPercentage = (layout: BookLayout, chapterHref: string, segmentId: string): number => {
+  if (layout.total === 0) return 0;
+  const offset = layout.segmentOffsets.get(`${chapterHref}#${segmentId}`) ?? layout.chapterOffsets.get(chapterHref) ?? 0;
+  return Math.min(100, (offset / layout.total) * 100);
+};
+
+const CJK_CHARS = new RegExp(CJK_CHAR.source, "g");
+
+// Words of running text; CJK characters count as a word each, as they are written without spaces
+export const countWords = (text: string): number => {
+  const cjk = text.match(CJK_CHARS)?.length || 0;
+  const words = text.replace(CJK_CHARS, " ").split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+  return cjk + words;
+};
+
+export const createReadingSession = (bookId: string, now = Date.now()): ReadingSession => ({
+  id: `${bookId}_${now}`,
+  bookId,
+  startedAt: now,
+  updatedAt: now,
+  seconds: 0,
+  words: 0,
+  segmentsTranslated: 0
+});
+
+export interface ReadingDay {
+  date: string; // Local calendar day, YYYY-MM-DD
+  seconds: number;
+  words: number;
+  segmentsTranslated: number;
+  sessions: number;
+}
+
+const toLocalDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * The last `days` days up to `now`, oldest first, with the sessions started
+ * on each; days without reading are included with zeros.
+ */
+export const getDailyHistory = (sessions: ReadingSession[], days: number, now = Date.now()): ReadingDay[] => {
+  const history: ReadingDay[] = [];
+  const byDate = new Map<string, ReadingDay>();
+  const today = new Date(now);
+  for (let i = days - 1; i >= 0; i--) {
+    // Calendar arithmetic, so days stay whole across daylight saving changes
+    const date = toLocalDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - i).getTime());
+    const day: ReadingDay = { date, seconds: 0, words: 0, segmentsTranslated: 0, sessions: 0 };
+    history.push(day);
+    byDate.set(date, day);
+  }
+
+  sessions.forEach(session => {
+    const day = byDate.get(toLocalDate(session.startedAt));
+    if (!day) return;
+    day.seconds += session.seconds;
+    day.words += session.words;
+    day.segmentsTranslated += session.segmentsTranslated;
+    day.sessions++;
+  });
+  return history;
+};
+
+// "45 s", "12 min", "3 h 5 min"
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return `${Math.floor(minutes / 60)} h${rest ? ` ${rest} min` : ""}`;
+};
@@ -0,0 +1,270 @@
+/**
+ * Full-text search over segment texts. Each chapter's original text, and its
+ * translation per language, is stored as a search document with an inverted
+ * index (term -> segments containing it). Queries use the index to find
+ * candidate segments, then verify each match against the segment text folded
+ * as the options ask, which also gives the ranges to highlight. Regular
+ * expressions cannot use the index and scan every segment.
+ */
+
+// Bump when tokenizing or folding changes, so stored documents are rebuilt
+export const SEARCH_INDEX_VERSION = 1;
+
+export const ORIGINAL_SOURCE = "original";
+
+export interface SearchDocument {
+  id: string; // Composite key: bookId_chapterHref_source
+  bookId: string;
+  chapterHref: string;
+  source: string; // ORIGINAL_SOURCE or the target language
+  version: number;
+  segments: { id: string; text: string }[];
+  terms: Map<string, number[]>; // Term -> indexes into `segments`
+}
+
+export interface SearchOptions {
+  wholeWord?: boolean;
+  matchCase?: boolean;
+  matchDiacritics?: boolean;
+  regex?: boolean; // The query is a regular expression
+}
+
+// [start, end) offsets into a segment's text
+export type TextRange = [number, number];
+
+interface Clause {
+  text: string; // Query text, folded as the options ask
+  terms: string[]; // Index terms, always fully folded
+  exact: boolean; // Must end on a word boundary
+}
+
+export interface SearchQuery {
+  clauses: Clause[];
+  regex?: RegExp; // Instead of clauses
+  options: SearchOptions;
+}
+
+// Kana, CJK ideographs and Hangul. CJK has no spaces between words, so every
+// character is a term of its own
+export const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const MARKS = /\p{M}/gu;
+
+const isCjk = (char: string | undefined) => !!char && CJK_CHAR.test(char);
+const isWordChar = (char: string | undefined) => !!char && WORD_CHAR.test(char) && !isCjk(char);
+
+export const getSearchDocumentKey = (bookId: string, chapterHref: string, source: string) =>
+  `${bookId}_${chapterHref}_${source}`;
+
+/**
+ * Lower-cases, strips diacritics (unless the options match them) and
+ * collapses whitespace. `map` gives the offset in `text` of each character of
+ * the result, so ranges found in the folded text can be mapped back.
+ */
+export const foldText = (text: string, options: SearchOptions = {}): { text: string; map: number[] } => {
+  let folded = "";
+  const map: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    if (/\s/.test(char)) {
+      if (folded.length > 0 && !folded.endsWith(" ")) {
+        folded += " ";
+        map.push(offset);
+      }
+    } else {
+      let out = options.matchDiacritics ? char : char.normalize("NFD").replace(MARKS, "");
+      if (!options.matchCase) out = out.toLowerCase();
+      for (const unit of out) {
+        folded += unit;
+        map.push(offset);
+      }
+    }
+    offset += char.length;
+  }
+  return { text: folded, map };
+};
+
+// Terms of already folded text: runs of letters and digits, CJK characters one by one
+export const tokenize = (folded: string): string[] => {
+  const terms: string[] = [];
+  let word = "";
+  for (const char of folded) {
+    if (isWordChar(char)) {
+      word += char;
+      continue;
+    }
+    if (word) terms.push(word);
+    word = "";
+    if (isCjk(char)) terms.push(char);
+  }
+  if (word) terms.push(word);
+  return terms;
+};
+
+export const buildSearchDocument = (
+  bookId: string,
+  chapterHref: string,
+  source: string,
+  segments: { id: string; text: string }[]
+): SearchDocument => {
+  const terms = new Map<string, number[]>();
+  segments.forEach((segment, index) => {
+    new Set(tokenize(foldText(segment.text).text)).forEach(term => {
+      const postings = terms.get(term);
+      if (postings) postings.push(index);
+      else terms.set(term, [index]);
+    });
+  });
+  return {
+    id: getSearchDocumentKey(bookId, chapterHref, source),
+    bookId,
+    chapterHref,
+    source,
+    version: SEARCH_INDEX_VERSION,
+    segments,
+    terms
+  };
+};
+
+// Runs against folded text, so accents in the pattern are stripped the same way
+const compileRegex = (query: string, options: SearchOptions): RegExp => {
+  const flags = options.matchCase ? "gu" : "giu";
+  const pattern = options.matchDiacritics ? query : query.normalize("NFD").replace(MARKS, "");
+  new RegExp(pattern, flags); // Reports errors against the pattern as typed
+  // Whole words: not preceded or followed by another letter or digit
+  return new RegExp(options.wholeWord ? `(?<![\\p{L}\\p{N}])(?:${pattern})(?![\\p{L}\\p{N}])` : pattern, flags);
+};
+
+/**
+ * Quoted parts are phrases matched as whole words; every other word is a
+ * clause of its own that matches the start of a word. All clauses must match
+ * in the same segment. In regex mode the whole query is one expression;
+ * throws if it does not compile.
+ */
+export const parseQuery = (query: string, options: SearchOptions = {}): SearchQuery => {
+  if (options.regex) return { clauses: [], regex: compileRegex(query, options), options };
+
+  const clauses: Clause[] = [];
+  const add = (part: string, exact: boolean) => {
+    const terms = tokenize(foldText(part).text);
+    if (terms.length > 0) clauses.push({ text: foldText(part, options).text.trim(), terms, exact });
+  };
+
+  query.split('"').forEach((part, index) => {
+    // Odd parts are inside quotes; an unclosed quote runs to the end
+    if (index % 2 === 1) add(part, true);
+    else part.split(/\s+/).forEach(word => add(word, !!options.wholeWord));
+  });
+  return { clauses, options };
+};
+
+// Why the query cannot run, e.g. an invalid regular expression
+export const getQueryError = (query: string, options: SearchOptions): string | null => {
+  try {
+    parseQuery(query, options);
+    return null;
+  } catch (e: any) {
+    return e.message || "Invalid search";
+  }
+};
+
+// Segments that may match the clause: all its terms present, the last one possibly as a prefix
+const getCandidates = (doc: SearchDocument, clause: Clause): Set<number> => {
+  let candidates: Set<number> | null = null;
+  clause.terms.forEach((term, index) => {
+    const isPrefix = index === clause.terms.length - 1 && !clause.exact;
+    const found = new Set<number>();
+    if (isPrefix) {
+      doc.terms.forEach((postings, key) => {
+        if (key.startsWith(term)) postings.forEach(i => found.add(i));
+      });
+    } else {
+      doc.terms.get(term)?.forEach(i => found.add(i));
+    }
+    candidates = candidates ? new Set([...candidates].filter(i => found.has(i))) : found;
+  });
+  return candidates || new Set();
+};
+
+// Occurrences of the clause in folded text that start (and for exact clauses end) on word boundaries
+const findClause = (folded: string, clause: Clause): TextRange[] => {
+  const ranges: TextRange[] = [];
+  let start = folded.indexOf(clause.text);
+  while (start !== -1) {
+    const end = start + clause.text.length;
+    const startsWord = !isWordChar(folded[start - 1]) || !isWordChar(folded[start]);
+    const endsWord = !isWordChar(folded[end]) || !isWordChar(folded[end - 1]);
+    if (startsWord && (!clause.exact || endsWord)) ranges.push([start, end]);
+    start = folded.indexOf(clause.text, start + 1);
+  }
+  return ranges;
+};
+
+// Non-empty matches of a regular expression
+const findRegex = (folded: string, regex: RegExp): TextRange[] =>
+  Array.from(folded.matchAll(regex))
+    .filter(match => match[0].length > 0)
+    .map((match): TextRange => [match.index!, match.index! + match[0].length]);
+
+// Sorts and merges overlapping ranges
+export const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+  const merged: TextRange[] = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+  return merged;
+};
+
+/**
+ * Segments of the document matching the query (every clause, or the regular
+ * expression), in document order, with the matched ranges in the segment's
+ * own text.
+ */
+export const matchDocument = (
+  doc: SearchDocument,
+  query: SearchQuery
+): { index: number; ranges: TextRange[] }[] => {
+  const { clauses, regex, options } = query;
+  if (!regex && clauses.length === 0) return [];
+
+  const candidates = regex
+    ? new Set(doc.segments.map((_, index) => index))
+    : clauses
+        .map(clause => getCandidates(doc, clause))
+        .reduce((all, found) => new Set([...all].filter(i => found.has(i))));
+
+  const matches: { index: number; ranges: TextRange[] }[] = [];
+  [...candidates].sort((a, b) => a - b).forEach(index => {
+    const { text, map } = foldText(doc.segments[index].text, options);
+    const found = regex ? [findRegex(text, regex)] : clauses.map(clause => findClause(text, clause));
+    if (found.some(ranges => ranges.length === 0)) return;
+
+    // A range ends where the next folded character starts, so stripped marks stay inside it
+    const ranges = mergeRanges(found.flat()).map(([start, end]): TextRange =>
+      [map[start], end < map.length ? map[end] : doc.segments[index].text.length]
+    );
+    matches.push({ index, ranges });
+  });
+  return matches;
+};
+
+/**
+ * The part of a hit's text around its first match, with `context` characters
+ * on each side and the ranges moved to match.
+ */
+export const getSnippet = (text: string, ranges: TextRange[], context = 40): { text: string; ranges: TextRange[] } => {
+  const first = ranges[0] || [0, 0];
+  const start = Math.max(0, first[0] - context);
+  const end = Math.min(text.length, first[1] + context);
+  const prefix = start > 0 ? "..." : "";
+  const shift = prefix.length - start;
+  return {
+    text: prefix + text.substring(start, end) + (end < text.length ? "..." : ""),
+    // Matches running past the window are cut at its edges
+    ranges: ranges
+      .filter(([from, to]) => from < end && to > start)
+      .map(([from, to]): TextRange => [Math.max(from, start) + shift, Math.min(to, end) + shift])
+  };
+};
@@ -0,0 +1,130 @@
+import { Segment } from "../types";
+
+/**
+ * Content-addressed segment IDs. An ID is a hash of the owning element's
+ * position in the document plus the segment's normalized text, so it does not
+ * depend on how many segments the parser produced before it. Saved
+ * translations also keep a hash of their source text, which lets a reader
+ * tell a translation that still fits its segment from one left over from an
+ * older parse.
+ */
+
+// IDs from before content addressing: the segment's position in the chapter, from 1
+const LEGACY_ID = /^seg-(\d{1,7})$/;
+
+// cyrb53: a fast 53-bit string hash, plenty for the few thousand segments of a chapter
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  // Fixed length, so a hash can never look like a legacy numeric ID
+  return hash.toString(36).padStart(11, "0");
+};
+
+export const normalizeText = (text: string): string =>
+  text.normalize("NFC").replace(/\s+/g, " ").trim();
+
+export const getSourceHash = (text: string): string => hashString(normalizeText(text));
+
+/**
+ * Tag names with their index among same-tag siblings, from the body down,
+ * e.g. `body/div[1]/p[3]`.
+ */
+export const getDomPath = (element: Element): string => {
+  const steps: string[] = [];
+  let current: Element | null = element;
+  while (current && current.localName.toLowerCase() !== "body" && current.parentElement) {
+    const tag = current.localName.toLowerCase();
+    let index = 1;
+    for (let sibling = current.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.localName.toLowerCase() === tag) index++;
+    }
+    steps.unshift(`${tag}[${index}]`);
+    current = current.parentElement;
+  }
+  steps.unshift("body");
+  return steps.join("/");
+};
+
+/**
+ * Hands out IDs for one document. Segments with the same path and text (a
+ * block split around an image, say) get a numbered suffix in document order.
+ */
+export const createSegmentIdGenerator = () => {
+  const used = new Map<string, number>();
+  return (owner: Element | null, text: string): string => {
+    const base = `seg-${hashString(`${owner ? getDomPath(owner) : "body"}|${normalizeText(text)}`)}`;
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  };
+};
+
+/**
+ * The segment an ID points at. Legacy positional IDs (from saved reading
+ * progress or translations) fall back to the segment at that position.
+ */
+export const findSegment = (segments: Segment[], id: string): Segment | undefined => {
+  const exact = segments.find(s => s.id === id);
+  if (exact) return exact;
+  const legacy = LEGACY_ID.exec(id);
+  return legacy ? segments[Number(legacy[1]) - 1] : undefined;
+};
+
+export interface TranslationMatch<T> {
+  translations: Record<string, T>; // Keyed by the current segment IDs
+  moved: { from: string; to: string }[]; // Saved entries found under another ID
+}
+
+/**
+ * Pairs saved translations with the chapter's current segments.
+ * - An entry under the segment's own ID is used when its source hash matches
+ *   (entries saved before hashes were kept are trusted).
+ * - Legacy positional IDs are mapped to the segment at that position.
+ * - Any other unclaimed entry moves to an untranslated segment with the same
+ *   source text, e.g. after the markup around it changed.
+ * Entries whose source no longer matches are left out, never shown against
+ * the wrong text.
+ */
+export const matchSavedTranslations = <T extends { sourceHash?: string }>(
+  segments: Segment[],
+  saved: Record<string, T>
+): TranslationMatch<T> => {
+  const translations: Record<string, T> = {};
+  const moved: { from: string; to: string }[] = [];
+  const claimed = new Set<string>();
+  const textSegments = segments.filter(s => s.type === "text");
+  const hashes = new Map(textSegments.map(s => [s.id, getSourceHash(s.originalText)]));
+
+  textSegments.forEach(seg => {
+    const entry = saved[seg.id];
+    if (!entry) return;
+    claimed.add(seg.id);
+    if (!entry.sourceHash || entry.sourceHash === hashes.get(seg.id)) translations[seg.id] = entry;
+  });
+
+  const take = (from: string, seg: Segment | undefined) => {
+    if (!seg || seg.type !== "text" || translations[seg.id]) return;
+    translations[seg.id] = saved[from];
+    moved.push({ from, to: seg.id });
+    claimed.add(from);
+  };
+
+  const unclaimed = Object.keys(saved).filter(id => !claimed.has(id));
+  unclaimed.forEach(id => {
+    if (!saved[id].sourceHash && LEGACY_ID.test(id)) take(id, findSegment(segments, id));
+  });
+  unclaimed.forEach(id => {
+    const hash = saved[id].sourceHash;
+    if (hash && !claimed.has(id)) take(id, textSegments.find(s => hashes.get(s.id) === hash && !translations[s.id]));
+  });
+
+  return { translations, moved };
+};
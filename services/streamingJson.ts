@@ -0,0 +1,89 @@
+/**
+ * Incremental parser for streamed model replies. Accepts a JSON array
+ * (optionally inside a markdown fence) or NDJSON / back-to-back objects, and
+ * reports each top-level element as soon as its closing bracket arrives.
+ */
+export interface JsonStreamParser {
+  push: (chunk: string) => void;
+  // Everything parsed so far; throws if the reply never contained JSON
+  end: () => unknown[];
+}
+
+export const createJsonStreamParser = (onValue: (value: unknown) => void): JsonStreamParser => {
+  let buffer = '';
+  let position = 0;
+  let mode: 'array' | 'objects' | null = null;
+  let baseDepth = 0; // Depth at which elements start: inside the array, or top level for NDJSON
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let done = false;
+  const values: unknown[] = [];
+
+  const emit = (end: number) => {
+    const source = buffer.slice(elementStart, end);
+    elementStart = -1;
+    try {
+      const value = JSON.parse(source);
+      values.push(value);
+      onValue(value);
+    } catch (e) {
+      console.warn("Skipping malformed streamed element", source);
+    }
+  };
+
+  const scan = () => {
+    for (; position < buffer.length && !done; position++) {
+      const char = buffer[position];
+
+      if (mode === null) {
+        // Skip fences and chatter before the JSON starts
+        if (char === '[') {
+          mode = 'array';
+          baseDepth = 1;
+          depth = 1;
+        } else if (char === '{') {
+          mode = 'objects';
+          baseDepth = 0;
+          depth = 1;
+          elementStart = position;
+        }
+        continue;
+      }
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') {
+          inString = false;
+          if (depth === baseDepth && elementStart >= 0) emit(position + 1);
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (depth === baseDepth && elementStart < 0) elementStart = position;
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === baseDepth && elementStart < 0) elementStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === baseDepth && elementStart >= 0) emit(position + 1);
+        else if (depth < baseDepth) done = true; // The array closed
+      }
+    }
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      scan();
+    },
+    end: () => {
+      if (mode === null) throw new Error("No JSON found in streamed response");
+      return values;
+    }
+  };
+};
@@ -0,0 +1,220 @@
+import JSZip from 'jszip';
+import { AISettings, Segment, TargetLanguage, UsageCounts } from '../types';
+import { db, BookTranslationJob } from './db';
+import { parseEpub, parseChapterContent } from './epubParser';
+import { isTranslationError, runChapterBatches, translateSegmentsBatch } from './geminiService';
+import { applyTranslationResult, getTranslationSource, toTranslationItem } from './inlineMarkup';
+import { packBatchesFor } from './translationScheduler';
+
+/**
+ * Whole-book background translation.
+ * Runs outside React so jobs survive chapter navigation and leaving the reader;
+ * job state is persisted in IndexedDB so running jobs resume after a reload.
+ */
+
+type JobListener = (job: BookTranslationJob, savedChapterHref?: string) => void;
+
+const activeRuns = new Map<string, AbortController>();
+const listeners = new Map<string, Set<JobListener>>();
+
+const notify = (job: BookTranslationJob, savedChapterHref?: string) => {
+  listeners.get(job.bookId)?.forEach(listener => listener(job, savedChapterHref));
+};
+
+const persist = async (job: BookTranslationJob, savedChapterHref?: string) => {
+  job.updatedAt = Date.now();
+  await db.saveJob(job);
+  notify({ ...job, chapters: { ...job.chapters } }, savedChapterHref);
+};
+
+const runJob = async (job: BookTranslationJob, controller: AbortController) => {
+  const { bookId, targetLanguage, settings } = job;
+
+  // A paused job must not be flipped back to 'running' by a late write
+  const update = async (savedChapterHref?: string) => {
+    if (!controller.signal.aborted) await persist(job, savedChapterHref);
+  };
+
+  const file = await db.getBookFile(bookId);
+  if (!file) throw new Error("Book file not found in storage.");
+
+  const book = await parseEpub(file);
+  if (book.coverUrl) URL.revokeObjectURL(book.coverUrl);
+
+  const zip = await new JSZip().loadAsync(file);
+
+  for (const chapter of book.chapters) {
+    if (controller.signal.aborted) return;
+
+    const chapterSegments = await parseChapterContent(zip, chapter, 'text-only');
+    const saved = await db.getChapterTranslations(bookId, chapter.href, targetLanguage, chapterSegments);
+    // Re-read per chapter so glossary edits apply to the rest of the book
+    const glossary = await db.getGlossary(bookId);
+
+    // Chapter state with what is already translated, for the preceding-passage context
+    let chapterState: Segment[] = chapterSegments.map(s => 
+      saved[s.id] ? { ...s, translatedText: saved[s.id].text } : s
+    );
+
+    const textSegments = chapterSegments.filter(s => s.type === 'text');
+    const pending = textSegments.filter(s => !saved[s.id] || isTranslationError(saved[s.id].text));
+
+    job.currentChapterHref = chapter.href;
+    job.chapters[chapter.href] = {
+      total: textSegments.length,
+      translated: textSegments.length - pending.length,
+      failed: 0
+    };
+    await update();
+
+    const recordUsage = (usage: UsageCounts) => {
+      db.addUsage(bookId, chapter.href, settings, usage).catch(e => console.error("Failed to save usage", e));
+    };
+
+    const batches = packBatchesFor(pending, getTranslationSource, settings);
+    await runChapterBatches(batches, () => chapterState, settings, async (batch, context) => {
+      // Streamed segments are saved even if the job is paused mid-batch
+      const streamed: Segment[] = [];
+      let translations: Record<string, string>;
+      try {
+        translations = await translateSegmentsBatch(
+          batch.map(toTranslationItem), targetLanguage, settings, controller.signal, {
+            glossary,
+            book: book.metadata,
+            ...context
+          },
+          (id, text) => {
+            const segment = batch.find(s => s.id === id);
+            if (segment) streamed.push({ ...segment, ...applyTranslationResult(segment, text) });
+          },
+          recordUsage
+        );
+      } catch (error) {
+        if (streamed.length > 0) {
+          await db.saveTranslations(bookId, chapter.href, targetLanguage, streamed, settings);
+        }
+        throw error;
+      }
+
+      if (controller.signal.aborted) return;
+
+      // Errors are left unsaved so they are retried on the next run
+      const translated: Segment[] = [];
+      batch.forEach(segment => {
+        const result = translations[segment.id];
+        if (result && !isTranslationError(result)) {
+          translated.push({ ...segment, ...applyTranslationResult(segment, result) });
+        }
+      });
+
+      // Stops the other batches; the job is marked as failed by launch()
+      if (translated.length === 0) {
+        throw new Error("Translation failed. Check your AI settings and try again.");
+      }
+
+      await db.saveTranslations(bookId, chapter.href, targetLanguage, translated, settings);
+      const progress = job.chapters[chapter.href];
+      progress.translated += translated.length;
+      progress.failed = (progress.failed || 0) + batch.length - translated.length;
+      await update(chapter.href);
+
+      const translatedById = new Map(translated.map(s => [s.id, s]));
+      chapterState = chapterState.map(s => translatedById.get(s.id) || s);
+    }, controller.signal, recordUsage);
+  }
+
+  // Failed segments are not saved, so resuming retries just those
+  const failed = Object.values(job.chapters).reduce((sum, progress) => sum + (progress.failed || 0), 0);
+  job.status = failed > 0 ? 'incomplete' : 'completed';
+  job.error = failed > 0 ? `${failed} segment${failed === 1 ? '' : 's'} could not be translated.` : undefined;
+  job.currentChapterHref = undefined;
+  await update();
+};
+
+const launch = (job: BookTranslationJob) => {
+  activeRuns.get(job.bookId)?.abort();
+  const controller = new AbortController();
+  activeRuns.set(job.bookId, controller);
+
+  runJob(job, controller)
+    .catch(async (error: any) => {
+      if (controller.signal.aborted || error.message === "Aborted") return;
+      console.error("Book translation failed", error);
+      job.status = 'error';
+      job.error = error.message || "Translation failed.";
+      try {
+        await persist(job);
+      } catch (e) {
+        console.error("Failed to save the failed translation job", e);
+      }
+    })
+    .finally(() => {
+      if (activeRuns.get(job.bookId) === controller) activeRuns.delete(job.bookId);
+    });
+};
+
+export const translationQueue = {
+  /**
+   * Starts (or restarts) translating every chapter of a book. Segments already
+   * saved for the target language are skipped, so restarting acts as a resume.
+   */
+  start: async (bookId: string, targetLanguage: TargetLanguage, settings: AISettings) => {
+    const existing = await db.getJob(bookId);
+    const job: BookTranslationJob = {
+      bookId,
+      targetLanguage,
+      settings,
+      status: 'running',
+      // Progress is only meaningful for the language it was counted in
+      chapters: existing?.targetLanguage === targetLanguage ? existing.chapters : {},
+      updatedAt: Date.now()
+    };
+    await persist(job);
+    launch(job);
+  },
+
+  pause: async (bookId: string) => {
+    activeRuns.get(bookId)?.abort();
+    activeRuns.delete(bookId);
+
+    const job = await db.getJob(bookId);
+    if (job && job.status === 'running') {
+      job.status = 'paused';
+      job.currentChapterHref = undefined;
+      await persist(job);
+    }
+  },
+
+  /**
+   * Stops a job and forgets it, e.g. when its book is deleted.
+   */
+  cancel: async (bookId: string) => {
+    activeRuns.get(bookId)?.abort();
+    activeRuns.delete(bookId);
+    await db.deleteJob(bookId);
+  },
+
+  /**
+   * Restarts jobs that were running when the page was closed.
+   */
+  resumePending: async () => {
+    const jobs = await db.getJobs();
+    jobs
+      .filter(job => job.status === 'running' && !activeRuns.has(job.bookId))
+      .forEach(launch);
+  },
+
+  getJob: (bookId: string) => db.getJob(bookId),
+
+  /**
+   * Subscribes to job updates for one book. The listener also receives the
+   * chapter href whenever a batch of translations has been saved.
+   */
+  subscribe: (bookId: string, listener: JobListener) => {
+    if (!listeners.has(bookId)) listeners.set(bookId, new Set());
+    listeners.get(bookId)!.add(listener);
+    return () => {
+      listeners.get(bookId)?.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,217 @@
+import { AISettings, RateLimits } from "../types";
+import { getProvider, getSettingValue } from "./providers";
+import { CJK_CHAR } from "./searchIndex";
+
+/**
+ * Batch packing and request pacing shared by every translation run.
+ * Batches are sized by estimated tokens rather than segment count, and all
+ * requests to one provider go through a single rate limiter, so parallel
+ * batches (and parallel runs) respect its limits and back off together.
+ */
+
+// Upper bound on segments per batch, however short they are
+export const MAX_BATCH_SEGMENTS = 30;
+
+// System prompt, instructions and context sent with every batch
+export const PROMPT_OVERHEAD_TOKENS = 600;
+
+const WINDOW_MS = 60000;
+const INITIAL_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 30000;
+
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    return reject(new Error("Aborted"));
+  }
+
+  // Removed once the wait is over, as one signal may serve a whole book
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error("Aborted"));
+  };
+
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// CJK characters are roughly a token each; other scripts about four characters per token
+const WIDE_CHARS = new RegExp(CJK_CHAR.source, "g");
+
+export const estimateTokens = (text: string): number => {
+  const wide = text.match(WIDE_CHARS)?.length ?? 0;
+  return wide + Math.ceil((text.length - wide) / 4);
+};
+
+// Prompt plus a reply of about the same size as the source
+export const estimateRequestTokens = (texts: string[]): number =>
+  PROMPT_OVERHEAD_TOKENS + 2 * texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+
+/**
+ * Splits entries, in order, into batches of at most `maxTokens` estimated
+ * tokens and `maxItems` entries. An entry larger than the budget gets a batch
+ * of its own.
+ */
+export const packBatches = <T>(
+  entries: T[],
+  getText: (entry: T) => string,
+  maxTokens: number,
+  maxItems: number = MAX_BATCH_SEGMENTS
+): T[][] => {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let batchTokens = 0;
+
+  entries.forEach(entry => {
+    const tokens = estimateTokens(getText(entry));
+    if (batch.length > 0 && (batchTokens + tokens > maxTokens || batch.length >= maxItems)) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(entry);
+    batchTokens += tokens;
+  });
+
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+};
+
+// Batches sized for the selected provider
+export const packBatchesFor = <T>(entries: T[], getText: (entry: T) => string, settings: AISettings): T[][] =>
+  packBatches(entries, getText, getProvider(settings.provider).capabilities.maxBatchTokens);
+
+// Settings form fields; values are stored in AISettings.options, so each provider keeps its own
+export const RATE_LIMIT_FIELDS: { key: keyof RateLimits; label: string }[] = [
+  { key: 'concurrency', label: 'Parallel requests' },
+  { key: 'requestsPerMinute', label: 'Requests / min' },
+  { key: 'tokensPerMinute', label: 'Tokens / min' }
+];
+
+/**
+ * The provider's default limits with any values set in the settings.
+ */
+export const getRateLimits = (settings: AISettings): RateLimits => {
+  const limits = { ...getProvider(settings.provider).capabilities.rateLimits };
+  RATE_LIMIT_FIELDS.forEach(({ key }) => {
+    const value = getSettingValue(settings, key).trim();
+    const parsed = Number(value);
+    if (value && Number.isFinite(parsed) && parsed >= 0) limits[key] = Math.floor(parsed);
+  });
+  limits.concurrency = Math.max(1, limits.concurrency);
+  return limits;
+};
+
+export interface RateLimiter {
+  // Waits until a request of `tokens` fits the limits and any backoff is over, then records it
+  acquire: (tokens: number, limits: RateLimits, signal?: AbortSignal) => Promise<void>;
+  // Pauses every request after a rate-limit reply; returns the pause in ms
+  backOff: () => number;
+  succeeded: () => void;
+}
+
+export const createRateLimiter = (): RateLimiter => {
+  let log: { at: number; tokens: number }[] = [];
+  let pausedUntil = 0;
+  let backoff = INITIAL_BACKOFF_MS;
+
+  // How long until a request of `tokens` may start; 0 if it can start now
+  const getWait = (tokens: number, limits: RateLimits, time: number) => {
+    log = log.filter(entry => entry.at > time - WINDOW_MS);
+    let wait = pausedUntil - time;
+
+    if (limits.requestsPerMinute > 0 && log.length >= limits.requestsPerMinute) {
+      wait = Math.max(wait, log[log.length - limits.requestsPerMinute].at + WINDOW_MS - time);
+    }
+
+    if (limits.tokensPerMinute > 0) {
+      // Wait for enough of the window to expire; a request over the limit on its own runs alone
+      let used = log.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of log) {
+        if (used + tokens <= limits.tokensPerMinute) break;
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.at + WINDOW_MS - time);
+      }
+    }
+    return Math.max(0, wait);
+  };
+
+  return {
+    acquire: async (tokens, limits, signal) => {
+      while (true) {
+        if (signal?.aborted) throw new Error("Aborted");
+        const wait = getWait(tokens, limits, Date.now());
+        if (wait === 0) {
+          log.push({ at: Date.now(), tokens });
+          return;
+        }
+        await delay(wait, signal);
+      }
+    },
+
+    backOff: () => {
+      const time = Date.now();
+      // Requests that were already in flight fail together; only the first one extends the pause
+      if (pausedUntil <= time) {
+        pausedUntil = time + backoff;
+        backoff = Math.min(backoff * 1.5, MAX_BACKOFF_MS);
+      }
+      return pausedUntil - time;
+    },
+
+    succeeded: () => {
+      backoff = INITIAL_BACKOFF_MS;
+    }
+  };
+};
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * The limiter shared by all requests to the same provider and endpoint.
+ */
+export const getRateLimiter = (settings: AISettings): RateLimiter => {
+  const key = `${settings.provider}|${settings.baseUrl}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = createRateLimiter();
+    limiters.set(key, limiter);
+  }
+  return limiter;
+};
+
+/**
+ * Runs `worker` over the inputs with at most `concurrency` in flight, starting
+ * them in order. After an error no new inputs start; once the running ones
+ * have finished, the first error is thrown.
+ */
+export const runConcurrently = async <T>(
+  inputs: T[],
+  concurrency: number,
+  worker: (input: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  let failed = false;
+
+  const runWorker = async () => {
+    while (next < inputs.length && !failed) {
+      if (signal?.aborted) throw new Error("Aborted");
+      const index = next++;
+      try {
+        await worker(inputs[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), inputs.length) }, runWorker);
+  const results = await Promise.allSettled(workers);
+  const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (rejected) throw rejected.reason;
+};
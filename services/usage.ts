@@ -0,0 +1,132 @@
+import JSZip from "jszip";
+import { AISettings, ModelPrice, ParsedBook, TargetLanguage, UsageCounts } from "../types";
+import { db } from "./db";
+import { parseChapterContent } from "./epubParser";
+import { isTranslationError } from "./geminiService";
+import { getTranslationSource } from "./inlineMarkup";
+import { getProvider } from "./providers";
+import { PROMPT_OVERHEAD_TOKENS, estimateTokens, packBatchesFor } from "./translationScheduler";
+
+/**
+ * API usage totals, prices and cost estimates.
+ */
+
+export const EMPTY_USAGE: UsageCounts = { inputTokens: 0, outputTokens: 0, characters: 0, requests: 0 };
+
+// Summary prompt instructions plus the previous summary, and the summary returned
+const SUMMARY_PROMPT_TOKENS = 250;
+const SUMMARY_REPLY_TOKENS = 160;
+
+export const addUsage = (a: UsageCounts, b: UsageCounts): UsageCounts => ({
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  characters: a.characters + b.characters,
+  requests: a.requests + b.requests
+});
+
+export const sumUsage = (usages: UsageCounts[]): UsageCounts => usages.reduce(addUsage, EMPTY_USAGE);
+
+const getPriceKey = (provider: string, model: string) => `${provider}:${model}`;
+
+export const getPrice = (settings: AISettings, provider: string, model: string): ModelPrice | undefined =>
+  settings.prices?.[getPriceKey(provider, model)];
+
+export const setPrice = (settings: AISettings, field: keyof ModelPrice, value: string): AISettings => {
+  const key = getPriceKey(settings.provider, settings.model);
+  return { ...settings, prices: { ...settings.prices, [key]: { ...settings.prices?.[key], [field]: value } } };
+};
+
+/**
+ * Cost in USD, or undefined when the usage needs a price that was not entered.
+ */
+export const calculateCost = (usage: UsageCounts, price?: ModelPrice): number | undefined => {
+  const parts: [number, string | undefined][] = [
+    [usage.inputTokens, price?.input],
+    [usage.outputTokens, price?.output],
+    [usage.characters, price?.characters]
+  ];
+
+  let cost = 0;
+  for (const [count, rate] of parts) {
+    if (count === 0) continue;
+    const perMillion = Number(rate);
+    if (!rate?.trim() || !Number.isFinite(perMillion)) return undefined;
+    cost += (count * perMillion) / 1000000;
+  }
+  return cost;
+};
+
+/**
+ * Expected usage of translating `texts` with the selected provider: one request
+ * per batch with a reply about as long as the source, plus the running summary
+ * requests when that option is on.
+ */
+export const estimateUsage = (texts: string[], settings: AISettings): UsageCounts => {
+  const provider = getProvider(settings.provider);
+  const batches = packBatchesFor(texts, text => text, settings);
+
+  if (provider.capabilities.billing === 'characters') {
+    const characters = texts.reduce((sum, text) => sum + text.length, 0);
+    return { ...EMPTY_USAGE, characters, requests: batches.length };
+  }
+
+  const withSummary = !!settings.chapterSummary && !!provider.complete;
+  return sumUsage(batches.map((batch, index) => {
+    const tokens = batch.reduce((sum, text) => sum + estimateTokens(text), 0);
+    // No summary after the last batch, since nothing reads it
+    const summarized = withSummary && index < batches.length - 1;
+    return {
+      inputTokens: PROMPT_OVERHEAD_TOKENS + tokens + (summarized ? SUMMARY_PROMPT_TOKENS + tokens : 0),
+      outputTokens: tokens + (summarized ? SUMMARY_REPLY_TOKENS : 0),
+      characters: 0,
+      requests: summarized ? 2 : 1
+    };
+  }));
+};
+
+/**
+ * Estimate for the segments of the whole book that are not translated yet,
+ * from the chapter text as the translation queue would send it.
+ */
+export const estimateBookUsage = async (
+  zip: JSZip,
+  book: ParsedBook,
+  bookId: string,
+  targetLanguage: TargetLanguage,
+  settings: AISettings
+): Promise<UsageCounts> => {
+  const estimates: UsageCounts[] = [];
+  for (const chapter of book.chapters) {
+    const segments = await parseChapterContent(zip, chapter, 'text-only');
+    const saved = await db.getChapterTranslations(bookId, chapter.href, targetLanguage, segments);
+    const pending = segments.filter(s => s.type === 'text' && (!saved[s.id] || isTranslationError(saved[s.id].text)));
+    // Batches never span chapters, so each chapter is estimated on its own
+    estimates.push(estimateUsage(pending.map(getTranslationSource), settings));
+  }
+  return sumUsage(estimates);
+};
+
+export const formatCount = (count: number): string => {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+  return String(count);
+};
+
+export const formatCost = (cost?: number): string => {
+  if (cost === undefined) return 'no price set';
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+};
+
+// "12.3k tokens in, 10.1k out" or "45.2k characters"
+export const formatUsage = (usage: UsageCounts): string => {
+  const parts: string[] = [];
+  if (usage.inputTokens || usage.outputTokens) {
+    parts.push(`${formatCount(usage.inputTokens)} tokens in, ${formatCount(usage.outputTokens)} out`);
+  }
+  if (usage.characters) parts.push(`${formatCount(usage.characters)} characters`);
+  return parts.join(', ') || `${usage.requests} requests`;
+};
+
+// "~12.3k tokens in, 10.1k out · $0.02", priced for the selected model
+export const formatEstimate = (usage: UsageCounts, settings: AISettings): string =>
+  `~${formatUsage(usage)} · ${formatCost(calculateCost(usage, getPrice(settings, settings.provider, settings.model)))}`;
@@ -0,0 +1,194 @@
+import { AISettings, AnnotationSide, BookMetadata, CardReview, TargetLanguage, UsageCounts, VocabularyCard } from "../types";
+import { UNREPORTED_USAGE } from "./geminiService";
+import { escapeRegExp } from "./glossary";
+import { escapeHtml } from "./inlineMarkup";
+import { getProvider } from "./providers";
+import { estimateRequestTokens, getRateLimiter, getRateLimits } from "./translationScheduler";
+
+/**
+ * Vocabulary cards are scheduled with SM-2: each answer is graded, a correct
+ * one stretches the interval by the card's ease, a wrong one starts it over,
+ * and the ease drifts with how hard the card keeps being.
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 answer quality (0-5) for each grade; below 3 counts as forgotten
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const REVIEW_GRADES: { id: ReviewGrade; label: string }[] = [
+  { id: 'again', label: 'Again' },
+  { id: 'hard', label: 'Hard' },
+  { id: 'good', label: 'Good' },
+  { id: 'easy', label: 'Easy' }
+];
+
+export const createCard = (
+  fields: Omit<VocabularyCard, 'id' | 'review' | 'createdAt'>,
+  now = Date.now()
+): VocabularyCard => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  review: { due: now, interval: 0, repetitions: 0, ease: INITIAL_EASE },
+  createdAt: now
+});
+
+export const scheduleReview = (review: CardReview, grade: ReviewGrade, now = Date.now()): CardReview => {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, review.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { due: now + DAY, interval: 1, repetitions: 0, ease, lastReviewedAt: now };
+  }
+
+  const interval = review.repetitions === 0 ? 1 : review.repetitions === 1 ? 6 : Math.round(review.interval * ease);
+  return { due: now + interval * DAY, interval, repetitions: review.repetitions + 1, ease, lastReviewedAt: now };
+};
+
+// Cards due by `now`, the longest overdue first
+export const getDueCards = (cards: VocabularyCard[], now = Date.now()): VocabularyCard[] =>
+  cards.filter(card => card.review.due <= now).sort((a, b) => a.review.due - b.review.due);
+
+// "1 day", "6 days", ... for showing what a grade would schedule
+export const formatInterval = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+
+const SENTENCE_END = /[.!?…。！？]/;
+const FULL_WIDTH_END = /[。！？]/; // Needs no space after it
+const CLOSING = /["'”’)\]」』]/;
+
+// Whether a sentence ends right before `index`, closing quotes included
+const isSentenceBoundary = (text: string, index: number) => {
+  let end = index;
+  while (end > 0 && CLOSING.test(text[end - 1])) end--;
+  if (end === 0 || !SENTENCE_END.test(text[end - 1])) return false;
+  return index === text.length || /\s/.test(text[index]) || FULL_WIDTH_END.test(text[end - 1]);
+};
+
+export interface WordContext {
+  context: string; // The sentence the word was selected in
+  wordRange: [number, number]; // The word's offsets in `context`
+}
+
+/**
+ * The sentence of `text` that contains `range`, or as many sentences as the
+ * range spans, and where the selected word sits in it.
+ */
+export const getWordContext = (text: string, [start, end]: [number, number]): WordContext => {
+  let from = start;
+  while (from > 0 && !isSentenceBoundary(text, from)) from--;
+  let to = end;
+  while (to < text.length && !isSentenceBoundary(text, to)) to++;
+
+  const sentence = text.slice(from, to);
+  const offset = from + (sentence.length - sentence.trimStart().length);
+  const selected = text.slice(start, end);
+  const wordStart = start + (selected.length - selected.trimStart().length);
+  const wordEnd = end - (selected.length - selected.trimEnd().length);
+  return { context: sentence.trim(), wordRange: [wordStart - offset, Math.max(wordStart, wordEnd) - offset] };
+};
+
+/**
+ * Where the card's word is in its context. Cards saved before the offsets
+ * were kept fall back to the first whole-word match, ignoring case, then to
+ * any match (for scripts written without spaces).
+ */
+export const getWordRange = (card: Pick<VocabularyCard, 'word' | 'context' | 'wordRange'>): [number, number] | undefined => {
+  if (card.wordRange) return card.wordRange;
+  const word = escapeRegExp(card.word.trim());
+  if (!word) return undefined;
+  const match = new RegExp(`(?<![\\p{L}\\p{N}])${word}(?![\\p{L}\\p{N}])`, "iu").exec(card.context)
+    || new RegExp(word, "iu").exec(card.context);
+  return match ? [match.index, match.index + match[0].length] : undefined;
+};
+
+export interface DefinitionRequest {
+  word: string;
+  context: string; // Sentence the word was selected in
+  side: AnnotationSide;
+  parallel?: string; // The segment's text in the other column
+  targetLanguage: TargetLanguage;
+  book: BookMetadata;
+}
+
+const buildDefinitionPrompt = ({ word, context, side, parallel, targetLanguage, book }: DefinitionRequest) => {
+  // Words picked from the translation are explained in the book's language
+  const explainIn = side === 'original' ? targetLanguage : `the language of the original text (${book.language})`;
+  return `You help a language learner reading "${book.title}" by ${book.creator}.
+  Explain what "${word}" means in the sentence below, in ${explainIn}.
+  Start with a short translation of the word or phrase as used here, then one or two sentences on its meaning,
+  and its dictionary form if it is inflected. No more than 60 words. Return only the explanation, without markdown.
+
+  Sentence:
+  ${context}
+  ${parallel ? `\n  The same passage in the other language:\n  ${parallel}` : ""}`;
+};
+
+/**
+ * A provider-written explanation of `word` as used in its sentence. Providers
+ * that only translate give a plain translation of the word instead, which
+ * only works for words from the original text. Throws when the request fails.
+ */
+export const defineWord = async (
+  request: DefinitionRequest,
+  settings: AISettings,
+  signal?: AbortSignal,
+  onUsage?: (usage: UsageCounts) => void
+): Promise<string> => {
+  const provider = getProvider(settings.provider);
+  await getRateLimiter(settings).acquire(
+    estimateRequestTokens([request.context, request.parallel || ""]),
+    getRateLimits(settings),
+    signal
+  );
+
+  if (provider.complete) {
+    const reply = await provider.complete(buildDefinitionPrompt(request), settings, signal);
+    onUsage?.(reply.usage || UNREPORTED_USAGE);
+    return reply.text.trim();
+  }
+
+  if (request.side !== 'original') {
+    throw new Error(`${provider.label} can only look up words from the original text`);
+  }
+  const reply = await provider.translate([{ id: "word", text: request.word }], request.targetLanguage, settings, signal);
+  onUsage?.(reply.usage || UNREPORTED_USAGE);
+  const item = reply.items[0] as { text?: unknown } | undefined;
+  if (typeof item?.text !== "string" || !item.text.trim()) throw new Error(`${provider.label} returned no translation`);
+  return item.text.trim();
+};
+
+// One TSV field: HTML, so line breaks survive as <br> and tabs cannot split columns
+const toField = (html: string) => html.replace(/\t/g, " ").replace(/\r?\n/g, "<br>");
+
+const toTag = (text: string) => text.trim().replace(/\s+/g, "_").replace(/[^\p{L}\p{N}_-]/gu, "") || "book";
+
+// The context as HTML, with the selected word in bold
+const toContextHtml = (card: VocabularyCard) => {
+  const range = getWordRange(card);
+  if (!range) return escapeHtml(card.context);
+  const [start, end] = range;
+  return escapeHtml(card.context.slice(0, start))
+    + `<b>${escapeHtml(card.context.slice(start, end))}</b>`
+    + escapeHtml(card.context.slice(end));
+};
+
+/**
+ * Cards as a tab-separated file for Anki's importer: word, definition,
+ * context (the word in bold), source and tags. The header lines tell Anki
+ * the separator, that fields are HTML and which column holds the tags.
+ */
+export const exportAnkiTsv = (cards: VocabularyCard[]): string => {
+  const header = ["#separator:tab", "#html:true", "#columns:Word\tDefinition\tContext\tSource\tTags", "#tags column:5"];
+  const rows = cards.map(card => [
+    escapeHtml(card.word),
+    escapeHtml(card.definition),
+    toContextHtml(card),
+    escapeHtml(card.bookTitle),
+    `lingobinder ${toTag(card.bookTitle)}`
+  ].map(toField).join("\t"));
+  return [...header, ...rows].join("\n") + "\n";
+};
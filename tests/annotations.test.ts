@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getTextSelection } from '../services/annotations';
+
+beforeAll(() => {
+  // jsdom does no layout
+  if (!Range.prototype.getBoundingClientRect) {
+    Range.prototype.getBoundingClientRect = () => ({ top: 100, left: 40, width: 20, height: 10 }) as DOMRect;
+  }
+});
+
+const select = (start: [Node, number], end: [Node, number]) => {
+  const range = document.createRange();
+  range.setStart(...start);
+  range.setEnd(...end);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+  return selection;
+};
+
+describe('getTextSelection', () => {
+  it('gives offsets into the text of one segment side, across inline markup', () => {
+    document.body.innerHTML =
+      '<div><span data-segment-id="seg-a" data-annotation-side="translation">Hello <em>brave</em> new world</span> <span>Badge</span></div>';
+    const side = document.querySelector('[data-segment-id]')!;
+    const brave = side.querySelector('em')!.firstChild!;
+    const rest = side.lastChild!;
+
+    expect(getTextSelection(select([brave, 0], [rest, 4]))).toEqual({
+      segmentId: 'seg-a',
+      side: 'translation',
+      range: [6, 15],
+      text: 'brave new',
+      top: 100,
+      left: 50
+    });
+  });
+
+  it('ignores selections outside a segment side or spanning several', () => {
+    document.body.innerHTML =
+      '<span data-segment-id="seg-a" data-annotation-side="original">One</span>' +
+      '<span data-segment-id="seg-b" data-annotation-side="original">Two</span>';
+    const [one, two] = Array.from(document.querySelectorAll('span')).map(span => span.firstChild!);
+
+    expect(getTextSelection(select([one, 1], [two, 2]))).toBeNull();
+    expect(getTextSelection(select([one, 1], [one, 1]))).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { ensureSearchIndex, searchBook } from '../services/bookSearch';
+import { db } from '../services/db';
+import { parseChapterContent, parseEpub } from '../services/epubParser';
+import { AISettings, TargetLanguage } from '../types';
+import { buildEpub, loadZip } from './epubFixture';
+
+const SETTINGS: AISettings = { provider: 'gemini', apiKey: '', baseUrl: '', model: 'gemini-2.5-flash' };
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe('searchBook', () => {
+  it('searches originals and translations in reading order, with counts per chapter', async () => {
+    const epub = await buildEpub({
+      chapters: [
+        { id: 'c1', href: 'c1.xhtml', body: '<p>The garden gate.</p><p>Nothing here.</p><p>A garden party.</p>' },
+        { id: 'c2', href: 'c2.xhtml', body: '<p>Gardens of stone.</p>' }
+      ]
+    });
+    const book = await parseEpub(epub);
+    const zip = await loadZip(epub);
+
+    const [first] = await parseChapterContent(zip, book.chapters[0], 'text-only');
+    await db.saveTranslations('b1', book.chapters[0].href, TargetLanguage.FRENCH, [
+      { ...first, translatedText: 'La porte du jardin.' }
+    ], SETTINGS);
+    await ensureSearchIndex('b1', zip, book.chapters, TargetLanguage.FRENCH);
+
+    const results = await searchBook('b1', book.chapters, 'garden', { targetLanguage: TargetLanguage.FRENCH });
+    expect(results.hits.map(hit => [hit.chapterIndex, hit.text])).toEqual([
+      [0, 'The garden gate.'],
+      [0, 'A garden party.'],
+      [1, 'Gardens of stone.']
+    ]);
+    expect(results.chapterCounts).toEqual({ [book.chapters[0].href]: 2, [book.chapters[1].href]: 1 });
+
+    const translated = await searchBook('b1', book.chapters, 'jardin', { targetLanguage: TargetLanguage.FRENCH });
+    expect(translated.hits).toMatchObject([{ segmentId: first.id, source: TargetLanguage.FRENCH }]);
+
+    const originalOnly = await searchBook('b1', book.chapters, 'jardin', { targetLanguage: TargetLanguage.FRENCH, scope: 'original' });
+    expect(originalOnly.hits).toEqual([]);
+  });
+});
@@ -0,0 +1,321 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { IDBFactory } from 'fake-indexeddb';
+import { db, BookTranslationJob } from '../services/db';
+import { getSourceHash } from '../services/segmentIds';
+import { createCard } from '../services/vocabulary';
+import { createReadingSession } from '../services/readingStats';
+import { AISettings, Annotation, LibraryBook, Segment, TargetLanguage } from '../types';
+
+const SETTINGS: AISettings = { provider: 'gemini', apiKey: '', baseUrl: '', model: 'gemini-2.5-flash' };
+
+const book = (id: string): LibraryBook => ({ id, title: `Book ${id}`, author: 'Author', addedAt: 1, shelves: [], tags: [] });
+
+const segment = (id: string, translatedText?: string, translatedHtml?: string): Segment => ({
+  id,
+  type: 'text',
+  tagName: 'p',
+  originalText: `Original ${id}`,
+  translatedText,
+  translatedHtml,
+  isLoading: false
+});
+
+const job = (bookId: string): BookTranslationJob => ({
+  bookId,
+  targetLanguage: TargetLanguage.FRENCH,
+  settings: SETTINGS,
+  status: 'paused',
+  chapters: { 'OEBPS/c1.xhtml': { total: 3, translated: 1 } },
+  updatedAt: 1
+});
+
+beforeEach(() => {
+  // A fresh, empty database for every test
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe('db', () => {
+  it('stores books with their files', async () => {
+    // jsdom's Blob does not survive fake-indexeddb's structured clone; Node's does
+    const file = new NodeBlob(['epub'], { type: 'application/epub+zip' }) as unknown as Blob;
+    await db.addBook(book('b1'), file);
+
+    expect(await db.getBooks()).toEqual([book('b1')]);
+    const stored = await db.getBookFile('b1');
+    expect(await stored?.text()).toBe('epub');
+    expect(await db.getBookFile('missing')).toBeUndefined();
+  });
+
+  it('merges translations per chapter and keeps languages apart', async () => {
+    await db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, [
+      segment('seg-1', 'Un'),
+      segment('seg-2') // Not translated: not stored
+    ], SETTINGS);
+    await db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, [
+      segment('seg-2', 'Deux', '<em>Deux</em>')
+    ], SETTINGS);
+    await db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.GERMAN, [
+      segment('seg-1', 'Eins')
+    ], SETTINGS);
+
+    expect(await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH)).toEqual({
+      'seg-1': { text: 'Un', html: undefined, sourceHash: getSourceHash('Original seg-1') },
+      'seg-2': { text: 'Deux', html: '<em>Deux</em>', sourceHash: getSourceHash('Original seg-2') }
+    });
+    expect(await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.GERMAN)).toEqual({
+      'seg-1': { text: 'Eins', html: undefined, sourceHash: getSourceHash('Original seg-1') }
+    });
+    expect(await db.getTranslations('b1', 'OEBPS/c2.xhtml', TargetLanguage.FRENCH)).toEqual({});
+  });
+
+  it('keeps replaced translations as history and marks hand edits', async () => {
+    const save = (translated: Segment, settings = SETTINGS) =>
+      db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, [translated], settings);
+
+    await save(segment('seg-1', '[Translation Failed]'));
+    await save(segment('seg-1', 'Un'));
+    await save(segment('seg-1', 'Un')); // Unchanged: no new version
+    await save({ ...segment('seg-1', 'Une'), isEdited: true });
+    await save(segment('seg-1', 'Uno'), { ...SETTINGS, model: 'gemini-2.5-pro' });
+
+    expect((await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH))['seg-1']).toMatchObject({ text: 'Uno' });
+    const history = await db.getSegmentHistory('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, 'seg-1');
+    // Failed attempts are not kept
+    expect(history.map(v => [v.text, !!v.edited, v.model])).toEqual([
+      ['Un', false, 'gemini-2.5-flash'],
+      ['Une', true, 'gemini-2.5-flash']
+    ]);
+    expect(await db.getSegmentHistory('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, 'seg-2')).toEqual([]);
+  });
+
+  it('leaves segments out of a later batch as they were, hand edits included', async () => {
+    const save = (segments: Segment[], settings = SETTINGS) =>
+      db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, segments, settings);
+
+    await save([segment('seg-1', 'Un')], { ...SETTINGS, model: 'imported' });
+    // Edited by hand while the next batch was in flight
+    await save([{ ...segment('seg-2', 'Deux !'), isEdited: true }]);
+    const before = await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH);
+
+    // The batch saves only what it translated
+    await save([segment('seg-3', 'Trois')], { ...SETTINGS, model: 'gemini-2.5-pro' });
+
+    const after = await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH);
+    expect(after['seg-1']).toEqual(before['seg-1']);
+    expect(after['seg-2']).toEqual({ ...before['seg-2'], edited: true });
+    // Stored as saved, with the model that made it
+    const stored = await new Promise<any>((resolve, reject) => {
+      const request = indexedDB.open('LingoBinderDB');
+      request.onsuccess = () => {
+        const get = request.result.transaction('translations').objectStore('translations').get('b1_OEBPS/c1.xhtml_French');
+        get.onsuccess = () => {
+          request.result.close();
+          resolve(get.result);
+        };
+      };
+      request.onerror = () => reject(request.error);
+    });
+    expect(stored.segments['seg-1'].model).toBe('imported');
+    expect(stored.segments['seg-2'].model).toBe('gemini-2.5-flash');
+  });
+
+  it('reports which translations were edited by hand', async () => {
+    await db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, [
+      { ...segment('seg-1', 'Un'), isEdited: true },
+      segment('seg-2', 'Deux')
+    ], SETTINGS);
+
+    const saved = await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH);
+    expect(saved['seg-1'].edited).toBe(true);
+    expect(saved['seg-2'].edited).toBeUndefined();
+  });
+
+  it('matches saved translations to the current segments and moves them to their new ids', async () => {
+    const chapter = (ids: string[]) => ids.map((id, i) => ({ ...segment(id), originalText: `Text ${i + 1}` }));
+    const save = (segments: Segment[]) => db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, segments, SETTINGS);
+    const load = (segments: Segment[]) => db.getChapterTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, segments);
+
+    // Saved under other ids: the second one's source has changed since
+    const [one, two, three] = chapter(['seg-old1', 'seg-old2', 'seg-a']);
+    await save([{ ...one, translatedText: 'Un' }, { ...two, originalText: 'Before', translatedText: 'Avant' }, { ...three, translatedText: 'Trois' }]);
+
+    const current = chapter(['seg-new1', 'seg-new2', 'seg-a']);
+    const loaded = await load(current);
+
+    expect(Object.keys(loaded).sort()).toEqual(['seg-a', 'seg-new1']);
+    expect(loaded['seg-new1'].text).toBe('Un');
+    // The move was saved
+    const stored = await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH);
+    expect(Object.keys(stored).sort()).toEqual(['seg-a', 'seg-new1', 'seg-old2']);
+  });
+
+  it('indexes saved translations for search', async () => {
+    await db.saveTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, [
+      segment('seg-1', 'Bonjour le monde'),
+      segment('seg-2', '[Translation Failed]')
+    ], SETTINGS);
+
+    const [document] = await db.getSearchDocuments('b1');
+    expect(document).toMatchObject({ chapterHref: 'OEBPS/c1.xhtml', source: TargetLanguage.FRENCH });
+    expect(document.segments).toEqual([{ id: 'seg-1', text: 'Bonjour le monde' }]);
+    expect(document.terms.get('monde')).toEqual([0]);
+    expect(await db.getSearchDocuments('b10')).toEqual([]);
+  });
+
+  it('keeps annotations per book and deletes them with the book', async () => {
+    const annotation = (id: string, bookId: string): Annotation => ({
+      id: `${bookId}_${id}`, bookId, chapterHref: 'OEBPS/c1.xhtml', segmentId: 'seg-1', kind: 'bookmark', text: 'One', createdAt: 1, updatedAt: 1
+    });
+    await db.addBook(book('b1'), new NodeBlob(['epub']) as unknown as Blob);
+    await db.saveAnnotation(annotation('a1', 'b1'));
+    await db.saveAnnotation({ ...annotation('a2', 'b1'), kind: 'highlight', range: [0, 3], side: 'original', note: 'Note' });
+    await db.saveAnnotation(annotation('a1', 'b10'));
+
+    await db.deleteAnnotation('b1_a1');
+    expect((await db.getAnnotations('b1')).map(a => a.id)).toEqual(['b1_a2']);
+
+    await db.deleteBook('b1');
+    expect(await db.getAnnotations('b1')).toEqual([]);
+    expect(await db.getAnnotations('b10')).toHaveLength(1);
+  });
+
+  it('keeps vocabulary cards after their book is deleted', async () => {
+    const card = createCard({
+      bookId: 'b1', bookTitle: 'Book b1', chapterHref: 'OEBPS/c1.xhtml', segmentId: 'seg-1', side: 'original',
+      word: 'One', context: 'One.', definition: 'Uno', targetLanguage: TargetLanguage.SPANISH
+    });
+    await db.addBook(book('b1'), new NodeBlob(['epub']) as unknown as Blob);
+    await db.saveVocabularyCard(card);
+    await db.saveVocabularyCard({ ...card, definition: 'Uno (number)' });
+
+    await db.deleteBook('b1');
+    expect(await db.getVocabularyCards()).toEqual([{ ...card, definition: 'Uno (number)' }]);
+
+    await db.deleteVocabularyCard(card.id);
+    expect(await db.getVocabularyCards()).toEqual([]);
+  });
+
+  it('keeps reading progress, glossaries and jobs per book', async () => {
+    await db.saveProgress('b1', 2, 'seg-7', 42.5);
+    await db.saveProgress('b3', 0, 'seg-1');
+    await db.saveGlossary('b1', [{ id: 'g1', source: 'Frodo', target: 'Frodon' }]);
+    await db.saveJob(job('b1'));
+    await db.saveJob(job('b2'));
+
+    expect(await db.getProgress('b1')).toMatchObject({ bookId: 'b1', chapterIndex: 2, segmentId: 'seg-7', percentage: 42.5 });
+    expect((await db.getAllProgress()).map(p => [p.bookId, p.percentage])).toEqual([['b1', 42.5], ['b3', undefined]]);
+    expect(await db.getProgress('b2')).toBeUndefined();
+    expect(await db.getGlossary('b1')).toEqual([{ id: 'g1', source: 'Frodo', target: 'Frodon' }]);
+    expect(await db.getGlossary('b2')).toEqual([]);
+    expect((await db.getJobs()).map(j => j.bookId).sort()).toEqual(['b1', 'b2']);
+
+    await db.deleteJob('b2');
+    expect(await db.getJob('b2')).toBeUndefined();
+    expect(await db.getJob('b1')).toEqual(job('b1'));
+  });
+
+  it('deletes everything belonging to a book and nothing else', async () => {
+    for (const id of ['b1', 'b10']) {
+      await db.addBook(book(id), new Blob([id]));
+      await db.saveTranslations(id, 'OEBPS/c1.xhtml', TargetLanguage.FRENCH, [segment('seg-1', 'Un')], SETTINGS);
+      await db.saveProgress(id, 0, 'seg-1');
+      await db.saveGlossary(id, [{ id: 'g1', source: 'a', target: 'b' }]);
+      await db.saveJob(job(id));
+      await db.addUsage(id, 'OEBPS/c1.xhtml', SETTINGS, { inputTokens: 10, outputTokens: 5, characters: 0, requests: 1 });
+      await db.saveReadingSession({ ...createReadingSession(id, 1), seconds: 60 });
+    }
+
+    await db.deleteBook('b1');
+
+    expect((await db.getBooks()).map(b => b.id)).toEqual(['b10']);
+    expect(await db.getBookFile('b1')).toBeUndefined();
+    expect(await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH)).toEqual({});
+    expect(await db.getProgress('b1')).toBeUndefined();
+    expect(await db.getGlossary('b1')).toEqual([]);
+    expect(await db.getJob('b1')).toBeUndefined();
+    expect((await db.getUsage()).map(u => u.bookId)).toEqual(['b10']);
+    expect(await db.getReadingSessions('b1')).toEqual([]);
+    expect(await db.getReadingSessions('b10')).toHaveLength(1);
+
+    // "b10" shares the "b1" prefix but not the "b1_" key prefix
+    expect(await db.getTranslations('b10', 'OEBPS/c1.xhtml', TargetLanguage.FRENCH)).toEqual({
+      'seg-1': { text: 'Un', html: undefined, sourceHash: getSourceHash('Original seg-1') }
+    });
+    expect(await db.getJob('b10')).toBeDefined();
+  });
+
+  it('adds up usage per chapter and model', async () => {
+    const usage = { inputTokens: 100, outputTokens: 40, characters: 0, requests: 1 };
+    await db.addUsage('b1', 'OEBPS/c1.xhtml', SETTINGS, usage);
+    await db.addUsage('b1', 'OEBPS/c1.xhtml', SETTINGS, usage);
+    await db.addUsage('b1', 'OEBPS/c1.xhtml', { ...SETTINGS, model: 'gemini-2.5-pro' }, usage);
+    await db.addUsage('b1', 'OEBPS/c2.xhtml', SETTINGS, usage);
+
+    const records = await db.getUsage();
+    expect(records).toHaveLength(3);
+    expect(records.find(r => r.chapterHref === 'OEBPS/c1.xhtml' && r.model === 'gemini-2.5-flash')).toMatchObject({
+      bookId: 'b1',
+      provider: 'gemini',
+      inputTokens: 200,
+      outputTokens: 80,
+      requests: 2
+    });
+  });
+
+  it('updates a book without touching its file', async () => {
+    await db.addBook(book('b1'), new NodeBlob(['epub']) as unknown as Blob);
+    await db.updateBook({ ...book('b1'), lastOpenedAt: 5, shelves: ['To read'], tags: ['classic'] });
+
+    expect(await db.getBooks()).toEqual([{ ...book('b1'), lastOpenedAt: 5, shelves: ['To read'], tags: ['classic'] }]);
+    expect(await db.getBookFile('b1')).toBeDefined();
+  });
+
+  it('gives pre-v13 books shelves, tags and a last opened date', async () => {
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open('LingoBinderDB', 12);
+      request.onupgradeneeded = () => {
+        const legacy = request.result;
+        // Books as stored before shelves and tags; only b1 has been read
+        const books = legacy.createObjectStore('books', { keyPath: 'id' });
+        books.put({ id: 'b1', title: 'Book b1', author: 'Author', addedAt: 1 });
+        books.put({ id: 'b2', title: 'Book b2', author: 'Author', addedAt: 2 });
+        legacy.createObjectStore('files');
+        legacy.createObjectStore('progress', { keyPath: 'bookId' }).put({ bookId: 'b1', chapterIndex: 0, segmentId: 'seg-1', updatedAt: 7 });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    expect(await db.getBooks()).toEqual([
+      { id: 'b1', title: 'Book b1', author: 'Author', addedAt: 1, lastOpenedAt: 7, shelves: [], tags: [] },
+      { id: 'b2', title: 'Book b2', author: 'Author', addedAt: 2, lastOpenedAt: undefined, shelves: [], tags: [] }
+    ]);
+  });
+
+  it('migrates pre-v5 translations to Chinese', async () => {
+    // Version 4 layout: translations keyed by bookId_chapterHref with plain strings
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open('LingoBinderDB', 4);
+      request.onupgradeneeded = () => {
+        const legacy = request.result;
+        legacy.createObjectStore('books', { keyPath: 'id' });
+        legacy.createObjectStore('files');
+        legacy.createObjectStore('translations', { keyPath: 'id' })
+          .put({ id: 'b1_OEBPS/c1.xhtml', segments: { 'seg-1': '一' } });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    expect(await db.getTranslations('b1', 'OEBPS/c1.xhtml', TargetLanguage.CHINESE)).toEqual({
+      'seg-1': { text: '一', html: undefined }
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { db } from '../services/db';
+import { exportTranslatedEpub } from '../services/epubExporter';
+import { parseChapterContent, parseEpub } from '../services/epubParser';
+import { TargetLanguage } from '../types';
+import { buildEpub, loadZip } from './epubFixture';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('exportTranslatedEpub', () => {
+  it('places translations in chapters that are not well-formed XHTML', async () => {
+    const epub = await buildEpub({
+      chapters: [{ id: 'c1', href: 'c1.xhtml', body: '' }],
+      extraFiles: {
+        // An HTML entity and an unclosed <br>, which XML parsers reject
+        'OEBPS/c1.xhtml': `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><head><title>One</title></head>
+<body epub:type="bodymatter"><p>Caf&eacute; one.</p><p>Line<br>two.</p></body></html>`
+      }
+    });
+    const book = await parseEpub(epub);
+    const zip = await loadZip(epub);
+    const segments = await parseChapterContent(zip, book.chapters[0], 'text-only');
+    expect(segments.map(s => s.originalText)).toEqual(['Café one.', 'Line\ntwo.']);
+
+    vi.spyOn(db, 'getBookFile').mockResolvedValue(epub);
+    vi.spyOn(db, 'getTranslations').mockResolvedValue({
+      [segments[0].id]: { text: 'Café un.' },
+      [segments[1].id]: { text: 'Ligne\ndeux.' }
+    });
+
+    const exported = await loadZip(await exportTranslatedEpub('b1', TargetLanguage.FRENCH, 'translation-only'));
+    const chapter = await exported.file('OEBPS/c1.xhtml')!.async('string');
+
+    expect(chapter.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<html')).toBe(true);
+    const doc = new DOMParser().parseFromString(chapter, 'application/xhtml+xml');
+    expect(doc.querySelector('parsererror')).toBeNull();
+    expect(Array.from(doc.querySelectorAll('p')).map(p => p.textContent)).toEqual(['Café un.', 'Lignedeux.']);
+    expect(doc.querySelectorAll('p br')).toHaveLength(1);
+    expect(doc.body.getAttributeNS('http://www.idpf.org/2007/ops', 'type')).toBe('bodymatter');
+  });
+});
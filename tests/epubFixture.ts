@@ -0,0 +1,96 @@
+import JSZip from 'jszip';
+
+/**
+ * Builds small EPUBs in memory for parser tests.
+ */
+
+export interface FixtureChapter {
+  id: string;
+  href: string; // Relative to the OPF
+  body: string; // Inner XHTML of <body>
+  title?: string; // Content of <title>
+}
+
+export interface FixtureOptions {
+  opfPath?: string;
+  title?: string;
+  chapters: FixtureChapter[];
+  nav?: string; // Inner XHTML of the nav document body; href is relative to the OPF
+  ncx?: string; // Inner XML of <navMap>
+  cover?: { href: string; data: Uint8Array };
+  extraFiles?: Record<string, string | Uint8Array>; // Zip path -> content
+  withoutContainer?: boolean;
+}
+
+export const xhtml = (body: string, title = 'Chapter') => `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${title}</title></head>
+<body>${body}</body>
+</html>`;
+
+const containerXml = (opfPath: string) => `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="${opfPath}" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const packageXml = (options: FixtureOptions) => {
+  const items = options.chapters.map(c =>
+    `<item id="${c.id}" href="${c.href}" media-type="application/xhtml+xml"/>`
+  );
+  if (options.nav !== undefined) {
+    items.push('<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>');
+  }
+  if (options.ncx !== undefined) {
+    items.push('<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>');
+  }
+  if (options.cover) {
+    items.push(`<item id="cover-image" href="${options.cover.href}" media-type="image/png"/>`);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="uid">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="uid">urn:uuid:fixture</dc:identifier>
+    <dc:title>${options.title || 'Fixture Book'}</dc:title>
+    <dc:creator>Test Author</dc:creator>
+    <dc:language>en</dc:language>
+    ${options.cover ? '<meta name="cover" content="cover-image"/>' : ''}
+  </metadata>
+  <manifest>
+    ${items.join('\n    ')}
+  </manifest>
+  <spine${options.ncx !== undefined ? ' toc="ncx"' : ''}>
+    ${options.chapters.map(c => `<itemref idref="${c.id}"/>`).join('\n    ')}
+  </spine>
+</package>`;
+};
+
+const ncxXml = (navMap: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <navMap>${navMap}</navMap>
+</ncx>`;
+
+export const buildEpub = async (options: FixtureOptions): Promise<Blob> => {
+  const opfPath = options.opfPath || 'OEBPS/content.opf';
+  const opfDir = opfPath.substring(0, opfPath.lastIndexOf('/') + 1);
+
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  if (!options.withoutContainer) {
+    zip.file('META-INF/container.xml', containerXml(opfPath));
+  }
+  zip.file(opfPath, packageXml(options));
+
+  options.chapters.forEach(c => zip.file(opfDir + decodeURIComponent(c.href), xhtml(c.body, c.title)));
+  if (options.nav !== undefined) zip.file(`${opfDir}nav.xhtml`, xhtml(options.nav, 'Contents'));
+  if (options.ncx !== undefined) zip.file(`${opfDir}toc.ncx`, ncxXml(options.ncx));
+  if (options.cover) zip.file(opfDir + options.cover.href, options.cover.data);
+
+  Object.entries(options.extraFiles || {}).forEach(([path, content]) => zip.file(path, content));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip' });
+};
+
+export const loadZip = async (epub: Blob) => new JSZip().loadAsync(epub);
@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest';
+import { parseChapterContent, parseEpub, segmentDocument } from '../services/epubParser';
+import { buildEpub, loadZip, xhtml } from './epubFixture';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const parseXhtml = (body: string) => new DOMParser().parseFromString(xhtml(body), 'application/xhtml+xml');
+
+describe('parseEpub', () => {
+  it('rejects an archive without META-INF/container.xml', async () => {
+    const epub = await buildEpub({
+      withoutContainer: true,
+      chapters: [{ id: 'c1', href: 'c1.xhtml', body: '<p>Hello</p>' }]
+    });
+
+    await expect(parseEpub(epub)).rejects.toThrow('Missing META-INF/container.xml');
+  });
+
+  it('reads metadata and resolves spine items next to a nested OPF', async () => {
+    const epub = await buildEpub({
+      opfPath: 'content/book/package.opf',
+      title: 'Nested',
+      chapters: [
+        { id: 'c1', href: 'text/one.xhtml', body: '<h1>First</h1><p>One</p>' },
+        { id: 'c2', href: 'text/two.xhtml', body: '<p>No heading</p>', title: 'Nested' },
+        { id: 'c3', href: 'text/three.xhtml', body: '<p>No heading</p>', title: 'Interlude' },
+        { id: 'c4', href: 'text/four.xhtml', body: '<div><h4>Minor</h4><h2>Part<br/>Four</h2></div>' }
+      ]
+    });
+
+    const book = await parseEpub(epub);
+
+    expect(book.metadata).toEqual({ title: 'Nested', creator: 'Test Author', language: 'en' });
+    expect(book.chapters.map(c => c.href)).toEqual([
+      'content/book/text/one.xhtml',
+      'content/book/text/two.xhtml',
+      'content/book/text/three.xhtml',
+      'content/book/text/four.xhtml'
+    ]);
+    // Without a TOC, chapters are titled by their first h1-h3, their own <title> or their position
+    expect(book.chapters.map(c => c.title)).toEqual(['First', 'Chapter 2', 'Interlude', 'Part Four']);
+  });
+
+  it('decodes URL-encoded manifest hrefs', async () => {
+    const epub = await buildEpub({
+      chapters: [{ id: 'c1', href: 'My%20Chapter.xhtml', body: '<p>Encoded</p>' }]
+    });
+
+    const book = await parseEpub(epub);
+    expect(book.chapters[0].href).toBe('OEBPS/My Chapter.xhtml');
+
+    const segments = await parseChapterContent(await loadZip(epub), book.chapters[0], 'text-only');
+    expect(segments.map(s => s.originalText)).toEqual(['Encoded']);
+  });
+
+  it('titles chapters from the TOC when their file name holds a literal %', async () => {
+    const epub = await buildEpub({
+      chapters: [{ id: 'c1', href: 'part%2541.xhtml', body: '<p>Percent</p>' }],
+      nav: '<nav epub:type="toc"><ol><li><a href="part%2541.xhtml">From the TOC</a></li></ol></nav>'
+    });
+
+    const book = await parseEpub(epub);
+    expect(book.chapters[0].href).toBe('OEBPS/part%41.xhtml');
+    expect(book.chapters[0].title).toBe('From the TOC');
+  });
+
+  it('builds the TOC, landmarks and page list from the EPUB 3 nav document', async () => {
+    const epub = await buildEpub({
+      chapters: [
+        { id: 'c1', href: 'c1.xhtml', body: '<p>One</p>' },
+        { id: 'c2', href: 'c2.xhtml', body: '<p>Two</p>' }
+      ],
+      nav: `
+        <nav epub:type="toc"><ol>
+          <li><a href="c1.xhtml">Opening</a>
+            <ol><li><a href="c1.xhtml#part">Part</a></li></ol>
+          </li>
+          <li><span>Unlinked</span><ol><li><a href="c2.xhtml">Second</a></li></ol></li>
+        </ol></nav>
+        <nav epub:type="landmarks"><ol><li><a epub:type="bodymatter" href="c1.xhtml">Start</a></li></ol></nav>
+        <nav epub:type="page-list"><ol><li><a href="c2.xhtml#p7">7</a></li></ol></nav>`,
+      // Ignored when the nav document has a TOC
+      ncx: '<navPoint id="n1"><navLabel><text>From NCX</text></navLabel><content src="c1.xhtml"/></navPoint>'
+    });
+
+    const book = await parseEpub(epub);
+
+    expect(book.toc).toEqual([
+      {
+        label: 'Opening',
+        href: 'OEBPS/c1.xhtml',
+        subitems: [{ label: 'Part', href: 'OEBPS/c1.xhtml#part', subitems: [] }]
+      },
+      {
+        label: 'Unlinked',
+        href: 'OEBPS/c2.xhtml',
+        subitems: [{ label: 'Second', href: 'OEBPS/c2.xhtml', subitems: [] }]
+      }
+    ]);
+    expect(book.landmarks).toEqual([{ label: 'Start', href: 'OEBPS/c1.xhtml', subitems: [] }]);
+    expect(book.pageList).toEqual([{ label: '7', href: 'OEBPS/c2.xhtml#p7', subitems: [] }]);
+    expect(book.chapters.map(c => c.title)).toEqual(['Opening', 'Unlinked']);
+  });
+
+  it('falls back to the NCX when there is no nav document', async () => {
+    const epub = await buildEpub({
+      chapters: [{ id: 'c1', href: 'c1.xhtml', body: '<p>One</p>' }],
+      ncx: `
+        <navPoint id="n1"><navLabel><text>Chapter One</text></navLabel><content src="c1.xhtml"/>
+          <navPoint id="n2"><navLabel><text>Section</text></navLabel><content src="c1.xhtml#s1"/></navPoint>
+        </navPoint>`
+    });
+
+    const book = await parseEpub(epub);
+
+    expect(book.toc).toEqual([{
+      label: 'Chapter One',
+      href: 'OEBPS/c1.xhtml',
+      subitems: [{ label: 'Section', href: 'OEBPS/c1.xhtml#s1', subitems: [] }]
+    }]);
+    expect(book.landmarks).toEqual([]);
+    expect(book.chapters[0].title).toBe('Chapter One');
+  });
+
+  it('extracts the cover referenced by <meta name="cover">', async () => {
+    const withCover = await buildEpub({
+      chapters: [{ id: 'c1', href: 'c1.xhtml', body: '<p>One</p>' }],
+      cover: { href: 'images/cover.png', data: PNG }
+    });
+    const withoutCover = await buildEpub({
+      chapters: [{ id: 'c1', href: 'c1.xhtml', body: '<p>One</p>' }]
+    });
+
+    expect((await parseEpub(withCover)).coverUrl).toBe('blob:fixture');
+    expect((await parseEpub(withoutCover)).coverUrl).toBeUndefined();
+  });
+});
+
+describe('parseChapterContent', () => {
+  it('splits block elements into segments with deterministic ids', async () => {
+    const epub = await buildEpub({
+      chapters: [{
+        id: 'c1',
+        href: 'c1.xhtml',
+        body: `
+          <h2>Title</h2>
+          <div>Intro <p>Nested paragraph</p> tail</div>
+          <ul><li>Item</li></ul>
+          <blockquote>Quote</blockquote>
+          <p>   </p>`
+      }]
+    });
+    const book = await parseEpub(epub);
+
+    const segments = await parseChapterContent(await loadZip(epub), book.chapters[0], 'text-only');
+
+    expect(segments.map(s => [s.tagName, s.originalText])).toEqual([
+      ['h2', 'Title'],
+      ['div', 'Intro'],
+      ['p', 'Nested paragraph'],
+      ['p', 'tail'],
+      ['li', 'Item'],
+      ['blockquote', 'Quote']
+    ]);
+    expect(new Set(segments.map(s => s.id)).size).toBe(6);
+    expect(segments.every(s => /^seg-[0-9a-z]{11}$/.test(s.id))).toBe(true);
+
+    const again = await parseChapterContent(await loadZip(epub), book.chapters[0], 'text-only');
+    expect(again.map(s => s.id)).toEqual(segments.map(s => s.id));
+  });
+
+  it('derives ids from position and text, not from the number of segments before', () => {
+    const ids = (body: string) => segmentDocument(parseXhtml(body), 'OEBPS/c1.xhtml').segments.map(s => s.id);
+    const [, second, third] = ids('<p>One</p><p>Two</p><div><p>Three</p></div>');
+
+    // A segment that appears or disappears earlier in the chapter moves no other id
+    expect(ids('<p>One</p><p>Two</p><div>Extra <p>Three</p></div>')).toContain(third);
+    expect(ids('<p>   </p><p>Two</p><div><p>Three</p></div>')).toEqual([second, third]);
+    // Same text elsewhere, or other text in the same place, is another segment
+    expect(ids('<p>Two</p><p>One</p><div><p>Three</p></div>')).not.toContain(second);
+  });
+
+  it('numbers segments that share a block and text', () => {
+    const { segments } = segmentDocument(parseXhtml('<p>Same<img src="a.png"/>Same</p>'), 'OEBPS/c1.xhtml');
+    const [first, , second] = segments.map(s => s.id);
+
+    expect(second).toBe(`${first}-2`);
+  });
+
+  it('keeps <br> as a line break inside one segment', async () => {
+    const epub = await buildEpub({
+      chapters: [{ id: 'c1', href: 'c1.xhtml', body: '<p>Roses are red,<br/>violets are blue</p>' }]
+    });
+    const book = await parseEpub(epub);
+
+    const [segment] = await parseChapterContent(await loadZip(epub), book.chapters[0], 'text-only');
+
+    expect(segment.originalText).toBe('Roses are red,\nviolets are blue');
+  });
+
+  it('loads images, including svg-wrapped ones, in full mode only', async () => {
+    const epub = await buildEpub({
+      chapters: [{
+        id: 'c1',
+        href: 'text/c1.xhtml',
+        body: `
+          <p>Before</p>
+          <img src="../images/a.png" alt="Plain"/>
+          <svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+            <image xlink:href="../images/b.png"/>
+          </svg>`
+      }],
+      extraFiles: { 'OEBPS/images/a.png': PNG, 'OEBPS/images/b.png': PNG }
+    });
+    const book = await parseEpub(epub);
+    const zip = await loadZip(epub);
+
+    const textOnly = await parseChapterContent(zip, book.chapters[0], 'text-only');
+    const full = await parseChapterContent(zip, book.chapters[0], 'full');
+
+    // Placeholders are kept in text-only mode so ids line up
+    expect(textOnly.map(s => s.id)).toEqual(full.map(s => s.id));
+    expect(textOnly.map(s => [s.type, s.originalText])).toEqual([
+      ['text', 'Before'],
+      ['image', 'Plain'],
+      ['image', 'Image']
+    ]);
+    expect(textOnly.some(s => s.imageUrl)).toBe(false);
+    expect(full.filter(s => s.type === 'image').map(s => s.imageUrl)).toEqual(['blob:fixture', 'blob:fixture']);
+  });
+
+  it('returns no segments for a chapter missing from the archive', async () => {
+    const epub = await buildEpub({ chapters: [{ id: 'c1', href: 'c1.xhtml', body: '<p>One</p>' }] });
+
+    const segments = await parseChapterContent(await loadZip(epub), {
+      id: 'gone', href: 'OEBPS/gone.xhtml', title: 'Gone', order: 1
+    });
+
+    expect(segments).toEqual([]);
+  });
+});
+
+describe('segmentDocument', () => {
+  it('resolves image paths with ".." and encoded names', () => {
+    const doc = parseXhtml(`
+      <img src="../Images/My%20Picture.png"/>
+      <img src="./sub/../local.png"/>`);
+
+    const { pendingImages } = segmentDocument(doc, 'OEBPS/Text/chapter.xhtml');
+
+    expect(pendingImages.map(i => i.path)).toEqual([
+      'OEBPS/Images/My Picture.png',
+      'OEBPS/Text/local.png'
+    ]);
+  });
+
+  it('keeps whitelisted inline markup and rewrites internal links', () => {
+    const doc = parseXhtml('<p id="top">An <em>odd</em> <a href="notes.xhtml#n1">note</a><span class="x">.</span></p>');
+
+    const { segments } = segmentDocument(doc, 'OEBPS/Text/chapter.xhtml');
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].originalText).toBe('An odd note.');
+    expect(segments[0].originalHtml).toBe('An <em>odd</em> <a data-href="OEBPS/Text/notes.xhtml#n1">note</a>.');
+    expect(segments[0].anchors).toEqual(['top']);
+  });
+});
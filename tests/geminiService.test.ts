@@ -0,0 +1,533 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatchContext, mergeBatchResults, reconcileTranslations, runChapterBatches, translateSegmentsBatch, updateChapterSummary } from '../services/geminiService';
+import { createRateLimiter, RateLimiter } from '../services/translationScheduler';
+import { AISettings, Segment, TargetLanguage, TranslationItem } from '../types';
+
+const { generateContent, generateContentStream } = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  generateContentStream: vi.fn()
+}));
+
+// A fresh limiter per test, so backoff state does not leak between tests
+let limiter: RateLimiter;
+vi.mock('../services/translationScheduler', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../services/translationScheduler')>(),
+  getRateLimiter: () => limiter
+}));
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent, generateContentStream } })),
+  Type: { ARRAY: 'ARRAY', OBJECT: 'OBJECT', STRING: 'STRING' }
+}));
+
+const GEMINI: AISettings = { provider: 'gemini', apiKey: 'test-key', baseUrl: '', model: 'gemini-2.5-flash' };
+const OPENAI: AISettings = { provider: 'openai', apiKey: 'sk-test', baseUrl: 'https://example.com/v1/', model: 'gpt-test' };
+
+// Segments seg-1, seg-2, ... with the given texts
+const items = (...texts: string[]): TranslationItem[] => texts.map((text, i) => ({ id: `seg-${i + 1}`, text }));
+
+// A model reply with the given translations for seg-1, seg-2, ...
+const reply = (...texts: string[]) => JSON.stringify(items(...texts));
+
+const rateLimited = () => Object.assign(new Error('Too many requests'), { status: 429 });
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(typeof body === 'string' ? body : JSON.stringify(body), { status });
+
+// A streamed HTTP body delivering the given chunks, then failing if `error` is set
+const streamResponse = (chunks: string[], error?: Error) => {
+  const encoder = new TextEncoder();
+  const queue = [...chunks];
+  // Pull-based, since erroring a stream discards chunks still queued
+  return new Response(new ReadableStream({
+    pull(controller) {
+      const chunk = queue.shift();
+      if (chunk !== undefined) controller.enqueue(encoder.encode(chunk));
+      else if (error) controller.error(error);
+      else controller.close();
+    }
+  }));
+};
+
+// OpenAI-style server-sent events carrying `text` split into content deltas
+const sseEvents = (text: string, size: number) => {
+  const events: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    events.push(`data: ${JSON.stringify({ choices: [{ delta: { content: text.slice(i, i + size) } }] })}\n\n`);
+  }
+  return events;
+};
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  limiter = createRateLimiter();
+  generateContent.mockReset();
+  generateContentStream.mockReset();
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('translateSegmentsBatch with Gemini', () => {
+  it('returns translations by id and sends the glossary terms found in the batch', async () => {
+    generateContent.mockResolvedValue({ text: reply('Bonjour', 'Monde') });
+
+    const result = await translateSegmentsBatch(items('Hello', 'World'), TargetLanguage.FRENCH, GEMINI, undefined, {
+      glossary: [
+        { id: 'g1', source: 'World', target: 'Monde' },
+        { id: 'g2', source: 'Shire', target: 'Comté' }
+      ]
+    });
+
+    expect(result).toEqual({ 'seg-1': 'Bonjour', 'seg-2': 'Monde' });
+    const request = generateContent.mock.calls[0][0];
+    expect(request.contents).toContain('{"id":"seg-2","text":"World"}');
+    expect(request.model).toBe('gemini-2.5-flash');
+    expect(request.contents).toContain('"World" => "Monde"');
+    expect(request.contents).not.toContain('Shire');
+  });
+
+  it('sends the reader\'s instruction for a retranslation', async () => {
+    generateContent.mockResolvedValue({ text: reply('Guten Tag') });
+
+    await translateSegmentsBatch(items('Hi'), TargetLanguage.GERMAN, GEMINI, undefined, { instruction: 'more formal' });
+
+    expect(generateContent.mock.calls[0][0].contents).toContain('following instruction: more formal');
+  });
+
+  it('falls back to the default model for non-Gemini model names', async () => {
+    generateContent.mockResolvedValue({ text: reply('Hola') });
+
+    await translateSegmentsBatch(items('Hello'), TargetLanguage.SPANISH, { ...GEMINI, model: 'gpt-4o' });
+
+    expect(generateContent.mock.calls[0][0].model).toBe('gemini-2.5-flash');
+  });
+
+  it('retries rate limits with a growing backoff', async () => {
+    vi.useFakeTimers();
+    generateContent
+      .mockRejectedValueOnce(rateLimited())
+      .mockRejectedValueOnce(new Error('RESOURCE_EXHAUSTED: quota'))
+      .mockResolvedValueOnce({ text: reply('Hallo') });
+
+    const pending = translateSegmentsBatch(items('Hello'), TargetLanguage.GERMAN, GEMINI);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    // Second wait is 1.5x the first
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toEqual({ 'seg-1': 'Hallo' });
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the retry limit', async () => {
+    vi.useFakeTimers();
+    generateContent.mockRejectedValue(rateLimited());
+
+    const pending = translateSegmentsBatch(items('a', 'b'), TargetLanguage.GERMAN, GEMINI);
+    await vi.runAllTimersAsync();
+
+    await expect(pending).resolves.toEqual({
+      'seg-1': '[Error: Retry Limit Exceeded]',
+      'seg-2': '[Error: Retry Limit Exceeded]'
+    });
+    expect(generateContent).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry other errors', async () => {
+    generateContent.mockRejectedValue(new Error('Invalid argument'));
+
+    const result = await translateSegmentsBatch(items('a'), TargetLanguage.GERMAN, GEMINI);
+
+    expect(result).toEqual({ 'seg-1': '[Translation Failed]' });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects without a request when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(translateSegmentsBatch(items('a'), TargetLanguage.GERMAN, GEMINI, controller.signal))
+      .rejects.toThrow('Aborted');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('stops waiting when aborted during a backoff', async () => {
+    vi.useFakeTimers();
+    generateContent.mockRejectedValue(rateLimited());
+    const controller = new AbortController();
+
+    const pending = translateSegmentsBatch(items('a'), TargetLanguage.GERMAN, GEMINI, controller.signal);
+    const assertion = expect(pending).rejects.toThrow('Aborted');
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    await assertion;
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('translateSegmentsBatch with an OpenAI compatible endpoint', () => {
+  it('posts to chat/completions and parses fenced JSON', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      choices: [{ message: { content: '```json\n' + reply('Ciao') + '\n```' } }]
+    }));
+
+    const result = await translateSegmentsBatch(items('Hello'), TargetLanguage.ITALIAN, OPENAI);
+
+    expect(result).toEqual({ 'seg-1': 'Ciao' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://example.com/v1/chat/completions');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init?.body as string).model).toBe('gpt-test');
+  });
+
+  it('retries HTTP 429 responses', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse('slow down', 429))
+      .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { content: reply('Ciao') } }] }));
+
+    const pending = translateSegmentsBatch(items('Hello'), TargetLanguage.ITALIAN, OPENAI);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await expect(pending).resolves.toEqual({ 'seg-1': 'Ciao' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails without an API key for remote endpoints', async () => {
+    const result = await translateSegmentsBatch(items('Hello'), TargetLanguage.ITALIAN, { ...OPENAI, apiKey: '' });
+
+    expect(result).toEqual({ 'seg-1': '[Translation Failed]' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails on replies that are not a JSON array', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'Ciao' } }] }));
+
+    const result = await translateSegmentsBatch(items('Hello'), TargetLanguage.ITALIAN, OPENAI);
+
+    expect(result).toEqual({ 'seg-1': '[Translation Failed]' });
+  });
+});
+
+describe('translateSegmentsBatch with HTML-aware machine translation', () => {
+  const DEEPL: AISettings = { provider: 'deepl', apiKey: 'key:fx', baseUrl: '', model: '' };
+  const LIBRE: AISettings = { provider: 'libretranslate', apiKey: '', baseUrl: 'http://mt.local', model: '' };
+  const segments = [
+    { id: 'seg-1', text: 'Tom & Jerry: 1 < 2' },
+    { id: 'seg-2', text: 'A <em>bold</em> move', markup: true }
+  ];
+
+  it('escapes plain text for DeepL and decodes entities in the reply', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ translations: [{ text: 'Tom &amp; Jerry : 1 &lt; 2' }, { text: 'Un coup <em>audacieux</em>' }] }));
+
+    const result = await translateSegmentsBatch(segments, TargetLanguage.FRENCH, DEEPL);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).text).toEqual(['Tom &amp; Jerry: 1 &lt; 2', 'A <em>bold</em> move']);
+    expect(result).toEqual({ 'seg-1': 'Tom & Jerry : 1 < 2', 'seg-2': 'Un coup <em>audacieux</em>' });
+  });
+
+  it('does the same for LibreTranslate', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ translatedText: ['Tom &amp; Jerry : 1 &lt; 2', 'Un coup <em>audacieux</em>'] }));
+
+    const result = await translateSegmentsBatch(segments, TargetLanguage.FRENCH, LIBRE);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).q).toEqual(['Tom &amp; Jerry: 1 &lt; 2', 'A <em>bold</em> move']);
+    expect(result).toEqual({ 'seg-1': 'Tom & Jerry : 1 < 2', 'seg-2': 'Un coup <em>audacieux</em>' });
+  });
+});
+
+describe('segment reconciliation', () => {
+  it('matches replies by id regardless of order and ignores unknown ids', () => {
+    const { translated, broken } = reconcileTranslations(items('a', 'b'), [
+      { id: 'seg-2', text: 'B' },
+      { id: 'seg-9', text: 'Invented' },
+      { id: 'seg-1', text: 'A' }
+    ]);
+
+    expect(translated).toEqual({ 'seg-1': 'A', 'seg-2': 'B' });
+    expect(broken).toEqual([]);
+  });
+
+  it('flags missing, empty and repeated ids, and the segment before a gap', () => {
+    const { translated, broken } = reconcileTranslations(items('a', 'b', 'c', 'd', 'e'), [
+      { id: 'seg-1', text: 'A B' }, // seg-2 merged into it
+      { id: 'seg-3', text: 'C' },
+      { id: 'seg-3', text: 'C again' },
+      { id: 'seg-4', text: ' ' },
+      'E'
+    ]);
+
+    expect(translated).toEqual({});
+    expect(broken.map(item => item.id)).toEqual(['seg-1', 'seg-2', 'seg-3', 'seg-4', 'seg-5']);
+  });
+
+  it('re-requests only the broken segments', async () => {
+    generateContent
+      .mockResolvedValueOnce({ text: JSON.stringify([{ id: 'seg-1', text: 'Un' }, { id: 'seg-2', text: 'Deux trois' }]) })
+      .mockResolvedValueOnce({ text: JSON.stringify([{ id: 'seg-2', text: 'Deux' }, { id: 'seg-3', text: 'Trois' }]) });
+
+    const result = await translateSegmentsBatch(items('One', 'Two', 'Three'), TargetLanguage.FRENCH, GEMINI);
+
+    expect(result).toEqual({ 'seg-1': 'Un', 'seg-2': 'Deux', 'seg-3': 'Trois' });
+    expect(generateContent.mock.calls[1][0].contents).toContain('[{"id":"seg-2","text":"Two"},{"id":"seg-3","text":"Three"}]');
+  });
+
+  it('reports segments that never come back as per-segment failures', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify([{ id: 'seg-1', text: 'Un' }]) });
+
+    const result = await translateSegmentsBatch(items('One', 'Two'), TargetLanguage.FRENCH, GEMINI);
+
+    expect(result['seg-1']).toBe('Un');
+    expect(result['seg-2']).toContain('[Translation Failed]');
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails a machine translation reply with the wrong number of items', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ translatedText: ['Uno'] }));
+    const libre: AISettings = { provider: 'libretranslate', apiKey: '', baseUrl: 'http://localhost:5000', model: '' };
+
+    const result = await translateSegmentsBatch(items('One', 'Two'), TargetLanguage.ITALIAN, libre);
+
+    expect(result).toEqual({ 'seg-1': '[Translation Failed]', 'seg-2': '[Translation Failed]' });
+  });
+});
+
+describe('streaming', () => {
+  it('reports segments from an OpenAI event stream as they arrive', async () => {
+    fetchMock.mockResolvedValue(streamResponse([...sseEvents(reply('Uno', 'Due'), 7), 'data: [DONE]\n\n']));
+    const onSegment = vi.fn();
+
+    const result = await translateSegmentsBatch(items('One', 'Two'), TargetLanguage.ITALIAN, OPENAI, undefined, undefined, onSegment);
+
+    expect(result).toEqual({ 'seg-1': 'Uno', 'seg-2': 'Due' });
+    expect(onSegment.mock.calls).toEqual([['seg-1', 'Uno'], ['seg-2', 'Due']]);
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string).stream).toBe(true);
+  });
+
+  it('streams Gemini chunks through the same parser', async () => {
+    generateContentStream.mockResolvedValue((async function* () {
+      yield { text: '[{"id":"seg-1","te' };
+      yield { text: 'xt":"Eins"},{"id":"seg-2","text":"Zwei"}]' };
+    })());
+    const onSegment = vi.fn();
+
+    const result = await translateSegmentsBatch(items('One', 'Two'), TargetLanguage.GERMAN, GEMINI, undefined, undefined, onSegment);
+
+    expect(result).toEqual({ 'seg-1': 'Eins', 'seg-2': 'Zwei' });
+    expect(onSegment).toHaveBeenCalledTimes(2);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('keeps streamed segments when the stream breaks and re-requests the rest', async () => {
+    const partial = sseEvents(reply('Uno', 'Due').slice(0, 40), 10);
+    fetchMock
+      .mockResolvedValueOnce(streamResponse(partial, new Error('connection reset')))
+      .mockResolvedValueOnce(streamResponse(sseEvents(JSON.stringify([{ id: 'seg-2', text: 'Due' }]), 10)));
+
+    const result = await translateSegmentsBatch(items('One', 'Two'), TargetLanguage.ITALIAN, OPENAI, undefined, undefined, vi.fn());
+
+    expect(result).toEqual({ 'seg-1': 'Uno', 'seg-2': 'Due' });
+    expect(JSON.parse(fetchMock.mock.calls[1][1]?.body as string).messages[1].content).not.toContain('{"id":"seg-1"');
+  });
+
+  it('does not stream when turned off in the settings', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: reply('Uno') } }] }));
+
+    await translateSegmentsBatch(items('One'), TargetLanguage.ITALIAN, { ...OPENAI, streaming: false }, undefined, undefined, vi.fn());
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string).stream).toBeUndefined();
+  });
+});
+
+describe('usage reporting', () => {
+  it('reports Gemini usage metadata, counting thinking tokens as output', async () => {
+    generateContent.mockResolvedValue({
+      text: reply('Bonjour'),
+      usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 30, thoughtsTokenCount: 50 }
+    });
+    const onUsage = vi.fn();
+
+    await translateSegmentsBatch(items('Hello'), TargetLanguage.FRENCH, GEMINI, undefined, undefined, undefined, onUsage);
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 120, outputTokens: 80, characters: 0, requests: 1 });
+  });
+
+  it('reports usage of every request, repairs included', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({
+        choices: [{ message: { content: JSON.stringify([{ id: 'seg-1', text: 'Uno' }]) } }],
+        usage: { prompt_tokens: 200, completion_tokens: 20 }
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        choices: [{ message: { content: JSON.stringify([{ id: 'seg-1', text: 'Uno' }, { id: 'seg-2', text: 'Due' }]) } }],
+        usage: { prompt_tokens: 210, completion_tokens: 25 }
+      }));
+    const onUsage = vi.fn();
+
+    await translateSegmentsBatch(items('One', 'Two'), TargetLanguage.ITALIAN, OPENAI, undefined, undefined, undefined, onUsage);
+
+    expect(onUsage.mock.calls.map(([usage]) => usage.inputTokens)).toEqual([200, 210]);
+  });
+
+  it('asks an OpenAI stream for usage and reads it from the last event', async () => {
+    fetchMock.mockResolvedValue(streamResponse([
+      ...sseEvents(reply('Uno'), 10),
+      `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 90, completion_tokens: 12 } })}\n\n`,
+      'data: [DONE]\n\n'
+    ]));
+    const onUsage = vi.fn();
+
+    await translateSegmentsBatch(items('One'), TargetLanguage.ITALIAN, OPENAI, undefined, undefined, vi.fn(), onUsage);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string).stream_options).toEqual({ include_usage: true });
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 90, outputTokens: 12, characters: 0, requests: 1 });
+  });
+
+  it('counts characters for machine translation services', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ translatedText: ['Uno', 'Due'] }));
+    const libre: AISettings = { provider: 'libretranslate', apiKey: '', baseUrl: 'http://localhost:5000', model: '' };
+    const onUsage = vi.fn();
+
+    await translateSegmentsBatch(items('One', 'Two'), TargetLanguage.ITALIAN, libre, undefined, undefined, undefined, onUsage);
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 0, outputTokens: 0, characters: 6, requests: 1 });
+  });
+
+  it('still counts requests whose API reports no usage', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: reply('Ciao') } }] }));
+    const onUsage = vi.fn();
+
+    await translateSegmentsBatch(items('Hello'), TargetLanguage.ITALIAN, OPENAI, undefined, undefined, undefined, onUsage);
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 0, outputTokens: 0, characters: 0, requests: 1 });
+  });
+});
+
+describe('updateChapterSummary', () => {
+  it('keeps the previous summary when the provider cannot take prompts', async () => {
+    const deepl: AISettings = { provider: 'deepl', apiKey: 'key:fx', baseUrl: '', model: '' };
+
+    expect(await updateChapterSummary('Earlier', ['New text'], deepl)).toBe('Earlier');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('returns the new summary and reports its usage', async () => {
+    generateContent.mockResolvedValue({ text: ' Frodo leaves the Shire. ', usageMetadata: { promptTokenCount: 300, candidatesTokenCount: 40 } });
+    const onUsage = vi.fn();
+
+    expect(await updateChapterSummary(undefined, ['New text'], GEMINI, undefined, onUsage)).toBe('Frodo leaves the Shire.');
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 300, outputTokens: 40, characters: 0, requests: 1 });
+  });
+
+  it('passes the abort signal on to Gemini', async () => {
+    generateContent.mockResolvedValue({ text: 'Summary' });
+    const controller = new AbortController();
+
+    await updateChapterSummary(undefined, ['New text'], GEMINI, controller.signal);
+    expect(generateContent.mock.calls[0][0].config.abortSignal).toBe(controller.signal);
+  });
+
+  it('keeps the previous summary when the request fails', async () => {
+    generateContent.mockRejectedValue(new Error('boom'));
+
+    expect(await updateChapterSummary('Earlier', ['New text'], GEMINI)).toBe('Earlier');
+  });
+});
+
+describe('runChapterBatches', () => {
+  const chapterSegments = ['a', 'b', 'c', 'd'].map((id): Segment =>
+    ({ id, type: 'text', tagName: 'p', originalText: id.toUpperCase(), isLoading: false }));
+
+  // Translates each one-segment batch when told to, keeping the chapter state and what each batch was sent
+  const fakeChapterRun = () => {
+    let chapter = [...chapterSegments];
+    const sent = new Map<string, BatchContext>();
+    const pending = new Map<string, () => void>();
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const translateBatch = (batch: Segment[], context: BatchContext) => new Promise<void>(resolve => {
+      sent.set(batch[0].id, context);
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      pending.set(batch[0].id, () => {
+        inFlight--;
+        chapter = chapter.map(s => s.id === batch[0].id ? { ...s, translatedText: s.id } : s);
+        resolve();
+      });
+    });
+    return { getChapter: () => chapter, sent, pending, translateBatch, maxInFlight: () => maxInFlight };
+  };
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('runs batches side by side, each with the translations finished before it started', async () => {
+    const run = fakeChapterRun();
+    const done = runChapterBatches(chapterSegments.map(s => [s]), run.getChapter, GEMINI, run.translateBatch);
+    await settle();
+
+    // Gemini allows three requests at once
+    expect([...run.sent.keys()]).toEqual(['a', 'b', 'c']);
+    expect(run.sent.get('c')?.precedingSegments).toEqual([{ original: 'A' }, { original: 'B' }]);
+
+    run.pending.get('b')!();
+    await settle();
+    expect(run.sent.get('d')?.precedingSegments).toEqual([{ original: 'A' }, { original: 'B', translated: 'b' }, { original: 'C' }]);
+
+    ['a', 'c', 'd'].forEach(id => run.pending.get(id)!());
+    await done;
+    expect(run.maxInFlight()).toBe(3);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('runs batches in order with the summary of all before them when summarizing', async () => {
+    generateContent.mockImplementation(async ({ contents }: { contents: string }) => ({ text: `Up to ${contents.trim().slice(-1)}` }));
+    const run = fakeChapterRun();
+    const done = runChapterBatches(chapterSegments.map(s => [s]), run.getChapter, { ...GEMINI, chapterSummary: true }, run.translateBatch);
+
+    for (const id of ['a', 'b', 'c', 'd']) {
+      await vi.waitFor(() => expect(run.pending.has(id)).toBe(true));
+      run.pending.get(id)!();
+    }
+    await done;
+
+    expect(run.maxInFlight()).toBe(1);
+    expect([...run.sent.values()].map(context => context.chapterSummary)).toEqual([undefined, 'Up to A', 'Up to B', 'Up to C']);
+    expect(run.sent.get('d')?.precedingSegments).toEqual([
+      { original: 'A', translated: 'a' }, { original: 'B', translated: 'b' }, { original: 'C', translated: 'c' }
+    ]);
+    // None after the last batch
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('mergeBatchResults', () => {
+  const segment = (id: string, translatedText?: string, isEdited?: boolean): Segment =>
+    ({ id, type: 'text', tagName: 'p', originalText: id.toUpperCase(), translatedText, isEdited, isLoading: false });
+
+  it('keeps segments changed while the batch was in flight and leaves them out of the save', () => {
+    const queued = [segment('a', '[Translation Failed]'), segment('b'), segment('c'), segment('d')];
+    const results = queued.map(s => segment(s.id, `${s.id} (batch)`));
+    // Meanwhile: a edited by hand, b retranslated on its own, c streamed in by this batch, d untouched
+    const current = [segment('a', 'a (mine)', true), segment('b', 'b (retranslated)'), segment('c', 'c (streamed)'), segment('d'), segment('e', 'e')];
+
+    const { segments, applied } = mergeBatchResults(current, queued, results, new Map([['c', segment('c', 'c (streamed)')]]));
+
+    expect(applied.map(s => s.id)).toEqual(['c', 'd']);
+    expect(segments.map(s => s.translatedText)).toEqual(['a (mine)', 'b (retranslated)', 'c (batch)', 'd (batch)', 'e']);
+    expect(segments[0].isEdited).toBe(true);
+  });
+});
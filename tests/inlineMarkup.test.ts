@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { restoreTranslatedMarkup, toTranslatableMarkup } from '../services/inlineMarkup';
+
+const SOURCE = 'See <a data-href="OEBPS/a.xhtml">the first note</a> and <a data-href="OEBPS/b.xhtml">the second</a>, <em>twice</em>.';
+
+describe('toTranslatableMarkup', () => {
+  it('numbers only tags that differ in more than their position', () => {
+    expect(toTranslatableMarkup(SOURCE)).toBe('See <a i="0">the first note</a> and <a i="1">the second</a>, <em>twice</em>.');
+    expect(toTranslatableMarkup('<em>One</em> <em>two</em>')).toBe('<em>One</em> <em>two</em>');
+  });
+});
+
+describe('restoreTranslatedMarkup', () => {
+  it('gives reordered links their own targets back', () => {
+    expect(restoreTranslatedMarkup(SOURCE, 'Voir <a i="1">la seconde</a> et <a i="0">la première note</a>, <em>deux fois</em>.')).toBe(
+      'Voir <a data-href="OEBPS/b.xhtml">la seconde</a> et <a data-href="OEBPS/a.xhtml">la première note</a>, <em>deux fois</em>.'
+    );
+  });
+
+  it('rejects numbered tags that lost or repeated their number', () => {
+    expect(restoreTranslatedMarkup(SOURCE, 'Voir <a>la seconde</a> et <a i="0">la note</a>, <em>deux fois</em>.')).toBeNull();
+    expect(restoreTranslatedMarkup(SOURCE, 'Voir <a i="0">la seconde</a> et <a i="0">la note</a>, <em>deux fois</em>.')).toBeNull();
+  });
+
+  it('places tags that only differ by position in order', () => {
+    expect(restoreTranslatedMarkup('<span lang="la">Carpe</span> <span lang="la">diem</span>', '<span>Profite</span> du <span>jour</span>'))
+      .toBe('<span lang="la">Profite</span> du <span lang="la">jour</span>');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { filterBooks, getLabels, parseLabels, sortBooks } from '../services/library';
+import { LibraryBook } from '../types';
+
+const book = (id: string, title: string, author: string, fields: Partial<LibraryBook> = {}): LibraryBook =>
+  ({ id, title, author, addedAt: Number(id), shelves: [], tags: [], ...fields });
+
+const books = [
+  book('1', 'Les Misérables', 'Victor Hugo', { shelves: ['Classics'], tags: ['fr', 'long'], lastOpenedAt: 50 }),
+  book('2', 'Der Prozess', 'Franz Kafka', { shelves: ['Classics', 'To read'], tags: ['de'] }),
+  book('3', 'El túnel', 'Ernesto Sábato', { tags: ['es'], lastOpenedAt: 90 }),
+  book('4', 'Book 10', 'anon'),
+  book('5', 'Book 9', 'Anon')
+];
+
+const ids = (list: LibraryBook[]) => list.map(b => b.id);
+
+describe('filterBooks', () => {
+  it('matches every word of the query in the title or author, ignoring case and accents', () => {
+    expect(ids(filterBooks(books, { query: 'miserables' }))).toEqual(['1']);
+    expect(ids(filterBooks(books, { query: ' SABATO  tunel ' }))).toEqual(['3']);
+    expect(ids(filterBooks(books, { query: 'kafka hugo' }))).toEqual([]);
+    expect(ids(filterBooks(books, { query: '' }))).toEqual(['1', '2', '3', '4', '5']);
+  });
+
+  it('narrows to a shelf and a tag', () => {
+    expect(ids(filterBooks(books, { query: '', shelf: 'Classics' }))).toEqual(['1', '2']);
+    expect(ids(filterBooks(books, { query: '', shelf: 'Classics', tag: 'de' }))).toEqual(['2']);
+    expect(ids(filterBooks(books, { query: 'prozess', shelf: 'To read', tag: 'fr' }))).toEqual([]);
+  });
+});
+
+describe('sortBooks', () => {
+  it('sorts titles and authors naturally, ignoring case', () => {
+    expect(ids(sortBooks(books, 'title'))).toEqual(['5', '4', '2', '3', '1']);
+    expect(ids(sortBooks(books, 'author'))).toEqual(['5', '4', '3', '2', '1']);
+  });
+
+  it('puts the most recent and furthest along first, the rest newest first', () => {
+    expect(ids(sortBooks(books, 'added'))).toEqual(['5', '4', '3', '2', '1']);
+    expect(ids(sortBooks(books, 'opened'))).toEqual(['3', '1', '5', '4', '2']);
+    expect(ids(sortBooks(books, 'progress', { '2': 10, '4': 0, '1': 75 }))).toEqual(['1', '2', '4', '5', '3']);
+  });
+
+  it('leaves the given list alone', () => {
+    const list = [...books];
+    sortBooks(list, 'title');
+    expect(list).toEqual(books);
+  });
+});
+
+describe('labels', () => {
+  it('lists the shelves and tags in use', () => {
+    expect(getLabels(books, 'shelves')).toEqual(['Classics', 'To read']);
+    expect(getLabels(books, 'tags')).toEqual(['de', 'es', 'fr', 'long']);
+  });
+
+  it('parses a comma-separated list', () => {
+    expect(parseLabels(' To  read, classic,,classic , ')).toEqual(['To read', 'classic']);
+  });
+});
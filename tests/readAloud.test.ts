@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getNextReadAloudItem, getReadAloudItems, pickVoice } from '../services/readAloud';
+import { Segment } from '../types';
+
+const text = (id: string, originalText: string, translatedText?: string): Segment =>
+  ({ id, type: 'text', tagName: 'p', originalText, translatedText, isLoading: false });
+
+const segments: Segment[] = [
+  text('a', 'One', 'Uno'),
+  { id: 'img', type: 'image', tagName: 'img', originalText: 'A map', isLoading: false },
+  text('b', 'Two'),
+  text('c', 'Three', '[Translation Failed] Network'),
+  text('d', 'Four', 'Cuatro')
+];
+
+const voice = (lang: string, name = lang, extra: Partial<SpeechSynthesisVoice> = {}) =>
+  ({ lang, name, default: false, localService: false, voiceURI: name, ...extra }) as SpeechSynthesisVoice;
+
+describe('getReadAloudItems', () => {
+  const read = (mode: Parameters<typeof getReadAloudItems>[1]) =>
+    getReadAloudItems(segments, mode).map(item => `${item.position}:${item.text}`);
+
+  it('reads text segments in the chosen language, skipping images and failed translations', () => {
+    expect(read('original')).toEqual(['0:One', '2:Two', '3:Three', '4:Four']);
+    expect(read('translation')).toEqual(['0:Uno', '4:Cuatro']);
+    expect(read('alternating')).toEqual(['0:One', '0:Uno', '2:Two', '3:Three', '4:Four', '4:Cuatro']);
+  });
+});
+
+describe('getNextReadAloudItem', () => {
+  it('moves on by position, also when the current item is gone', () => {
+    const alternating = getReadAloudItems(segments, 'alternating');
+    const [one, uno] = alternating;
+
+    expect(getNextReadAloudItem(alternating, one)?.text).toBe('Uno');
+    expect(getNextReadAloudItem(alternating, uno)?.text).toBe('Two');
+    // Switched to translation mode while "Two" was being read
+    expect(getNextReadAloudItem(getReadAloudItems(segments, 'translation'), alternating[2])?.text).toBe('Cuatro');
+    expect(getNextReadAloudItem(alternating, alternating[5])).toBeUndefined();
+  });
+});
+
+describe('pickVoice', () => {
+  const voices = [
+    voice('en-US'),
+    voice('zh-TW'),
+    voice('zh-CN', 'Local', { localService: true }),
+    voice('fr_FR'),
+    voice('fr-CA')
+  ];
+
+  it('prefers an exact match, then another voice of the language', () => {
+    expect(pickVoice(voices, 'fr-CA')?.lang).toBe('fr-CA');
+    expect(pickVoice(voices, 'fr-FR')?.lang).toBe('fr_FR');
+    expect(pickVoice(voices, 'zh-Hans')?.name).toBe('Local');
+    expect(pickVoice(voices, 'en')?.lang).toBe('en-US');
+    expect(pickVoice(voices, 'ja')).toBeUndefined();
+  });
+});
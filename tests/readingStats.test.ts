@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { countWords, createReadingSession, formatDuration, getBookLayout, getBookPercentage, getDailyHistory } from '../services/readingStats';
+import { buildSearchDocument, ORIGINAL_SOURCE } from '../services/searchIndex';
+import { ChapterRef, TargetLanguage } from '../types';
+
+const chapter = (href: string, order: number): ChapterRef => ({ id: href, href, title: href, order });
+
+describe('getBookLayout', () => {
+  const chapters = [chapter('c1.xhtml', 0), chapter('images.xhtml', 1), chapter('c2.xhtml', 2)];
+  const layout = getBookLayout([
+    buildSearchDocument('b1', 'c2.xhtml', ORIGINAL_SOURCE, [{ id: 'c', text: 'x'.repeat(50) }]),
+    buildSearchDocument('b1', 'c1.xhtml', ORIGINAL_SOURCE, [{ id: 'a', text: 'x'.repeat(30) }, { id: 'b', text: 'x'.repeat(20) }]),
+    // Translations do not count towards the book's length
+    buildSearchDocument('b1', 'c1.xhtml', TargetLanguage.FRENCH, [{ id: 'a', text: 'x'.repeat(500) }])
+  ], chapters);
+
+  it('places segments by the characters before them, in reading order', () => {
+    expect(layout.total).toBe(100);
+    expect(getBookPercentage(layout, 'c1.xhtml', 'a')).toBe(0);
+    expect(getBookPercentage(layout, 'c1.xhtml', 'b')).toBe(30);
+    expect(getBookPercentage(layout, 'c2.xhtml', 'c')).toBe(50);
+  });
+
+  it('places unknown segments at the start of their chapter', () => {
+    expect(getBookPercentage(layout, 'images.xhtml', 'img-1')).toBe(50);
+    expect(getBookPercentage(layout, 'c2.xhtml', 'img-2')).toBe(50);
+    expect(getBookPercentage(getBookLayout([], chapters), 'c1.xhtml', 'a')).toBe(0);
+  });
+});
+
+describe('countWords', () => {
+  it('counts words between spaces and each CJK character', () => {
+    expect(countWords('  Bonjour, dit le renard — « oui ».  ')).toBe(5);
+    expect(countWords('猫がいる。')).toBe(4);
+    expect(countWords('Read 三体 twice')).toBe(4);
+    expect(countWords('')).toBe(0);
+  });
+});
+
+describe('getDailyHistory', () => {
+  const at = (day: number, hour: number) => new Date(2026, 2, day, hour).getTime();
+  const session = (startedAt: number, seconds: number, words = 0) =>
+    ({ ...createReadingSession('b1', startedAt), seconds, words });
+
+  it('adds up sessions per local day, including days without reading', () => {
+    const history = getDailyHistory([
+      session(at(10, 9), 600, 2000),
+      session(at(10, 23), 300, 1000),
+      session(at(12, 1), 120),
+      session(at(1, 12), 900) // Before the window
+    ], 3, at(12, 18));
+
+    expect(history.map(day => [day.date, day.seconds, day.words, day.sessions])).toEqual([
+      ['2026-03-10', 900, 3000, 2],
+      ['2026-03-11', 0, 0, 0],
+      ['2026-03-12', 120, 0, 1]
+    ]);
+  });
+});
+
+describe('formatDuration', () => {
+  it('rounds to seconds, minutes or hours and minutes', () => {
+    expect(formatDuration(45)).toBe('45 s');
+    expect(formatDuration(12 * 60 + 20)).toBe('12 min');
+    expect(formatDuration(3 * 3600 + 5 * 60)).toBe('3 h 5 min');
+    expect(formatDuration(2 * 3600)).toBe('2 h');
+  });
+});
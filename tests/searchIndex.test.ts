@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchDocument, foldText, getQueryError, getSnippet, matchDocument, parseQuery, SearchOptions, tokenize } from '../services/searchIndex';
+
+const doc = (...texts: string[]) =>
+  buildSearchDocument('b1', 'OEBPS/c1.xhtml', 'original', texts.map((text, i) => ({ id: `seg-${i + 1}`, text })));
+
+const search = (texts: string[], query: string, options: SearchOptions = {}) =>
+  matchDocument(doc(...texts), parseQuery(query, options));
+
+describe('foldText', () => {
+  it('folds case, diacritics and whitespace, keeping offsets into the original', () => {
+    const folded = foldText('Café  Crème');
+
+    expect(folded.text).toBe('cafe creme');
+    expect(folded.map[5]).toBe(6); // "c" of Crème, after the double space
+  });
+});
+
+describe('tokenize', () => {
+  it('splits words, and CJK text into single characters', () => {
+    expect(tokenize("it's 日本語 ok")).toEqual(['it', 's', '日', '本', '語', 'ok']);
+  });
+});
+
+describe('matchDocument', () => {
+  const texts = ['The Translator arrived.', 'Translation is hard.', 'A naïve reader', '日本語の本を読む'];
+
+  it('matches words by prefix, ignoring case and diacritics', () => {
+    expect(search(texts, 'transl').map(m => m.index)).toEqual([0, 1]);
+    expect(search(texts, 'naive')).toEqual([{ index: 2, ranges: [[2, 7]] }]);
+  });
+
+  it('matches whole words only when asked', () => {
+    expect(search(texts, 'translator', { wholeWord: true }).map(m => m.index)).toEqual([0]);
+    expect(search(texts, 'transl', { wholeWord: true })).toEqual([]);
+  });
+
+  it('requires every word, and whole phrases in quotes', () => {
+    expect(search(texts, 'translation hard').map(m => m.index)).toEqual([1]);
+    expect(search(texts, '"is hard"').map(m => m.index)).toEqual([1]);
+    expect(search(texts, '"hard is"')).toEqual([]);
+  });
+
+  it('finds CJK text without spaces', () => {
+    expect(search(texts, '本を読')).toEqual([{ index: 3, ranges: [[4, 7]] }]);
+  });
+
+  it('gives ranges in the original text', () => {
+    const [match] = search(['Über  das  Übersetzen'], '"das übersetzen"');
+
+    expect(match.ranges).toEqual([[6, 21]]);
+  });
+});
+
+describe('search options', () => {
+  const texts = ['Résumé of the case', 'resume the Case', 'Cases (closed)'];
+
+  it('matches case and accents when asked', () => {
+    expect(search(texts, 'resume').map(m => m.index)).toEqual([0, 1]);
+    expect(search(texts, 'resume', { matchDiacritics: true }).map(m => m.index)).toEqual([1]);
+    expect(search(texts, 'Case', { matchCase: true }).map(m => m.index)).toEqual([1, 2]);
+    expect(search(texts, 'Case', { matchCase: true, wholeWord: true }).map(m => m.index)).toEqual([1]);
+  });
+
+  it('searches with regular expressions, which may contain special characters', () => {
+    expect(search(texts, 'r[eé]sum', { regex: true, matchDiacritics: true }).map(m => m.index)).toEqual([0, 1]);
+    expect(search(texts, '\\(closed\\)', { regex: true })).toEqual([{ index: 2, ranges: [[6, 14]] }]);
+    expect(search(texts, 'cases?', { regex: true, wholeWord: true }).map(m => m.index)).toEqual([0, 1, 2]);
+  });
+
+  it('takes special characters literally outside regex mode', () => {
+    expect(search(texts, '(closed)')).toEqual([{ index: 2, ranges: [[6, 14]] }]);
+  });
+
+  it('reports invalid regular expressions', () => {
+    expect(getQueryError('(', { regex: true })).toMatch(/Invalid regular expression/);
+    expect(getQueryError('(', {})).toBeNull();
+    expect(() => parseQuery('[a-', { regex: true })).toThrow();
+  });
+});
+
+describe('getSnippet', () => {
+  it('cuts the text around the first match and shifts the ranges', () => {
+    const text = `${'a'.repeat(50)} match ${'b'.repeat(50)}`;
+
+    const snippet = getSnippet(text, [[51, 56]], 10);
+
+    expect(snippet.text).toBe(`...${'a'.repeat(9)} match ${'b'.repeat(9)}...`);
+    expect(snippet.text.slice(...snippet.ranges[0])).toBe('match');
+  });
+
+  it('cuts matches that run past the window at its edges', () => {
+    const text = `${'a'.repeat(50)} match ${'b'.repeat(20)} other ${'c'.repeat(50)}`;
+
+    const snippet = getSnippet(text, [[51, 56], [78, 83], [120, 130]], 25);
+
+    expect(snippet.ranges.map(range => snippet.text.slice(...range))).toEqual(['match', 'oth']);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { findSegment, getSourceHash, matchSavedTranslations } from '../services/segmentIds';
+import { Segment } from '../types';
+
+const segment = (id: string, originalText: string, type: Segment['type'] = 'text'): Segment => ({
+  id, type, tagName: type === 'text' ? 'p' : 'img', originalText, isLoading: false
+});
+
+type Saved = { text: string; sourceHash?: string };
+
+const SEGMENTS = [segment('seg-aaa', 'One'), segment('seg-bbb', 'Cover', 'image'), segment('seg-ccc', 'Three')];
+
+describe('getSourceHash', () => {
+  it('ignores differences in whitespace', () => {
+    expect(getSourceHash(' One\n  two ')).toBe(getSourceHash('One two'));
+    expect(getSourceHash('One two')).not.toBe(getSourceHash('One three'));
+  });
+});
+
+describe('findSegment', () => {
+  it('finds a segment by id, or by position for a legacy id', () => {
+    expect(findSegment(SEGMENTS, 'seg-ccc')?.originalText).toBe('Three');
+    expect(findSegment(SEGMENTS, 'seg-3')?.originalText).toBe('Three');
+    expect(findSegment(SEGMENTS, 'seg-9')).toBeUndefined();
+  });
+});
+
+describe('matchSavedTranslations', () => {
+  it('uses translations whose source still matches', () => {
+    const { translations, moved } = matchSavedTranslations<Saved>(SEGMENTS, {
+      'seg-aaa': { text: 'Un', sourceHash: getSourceHash('One') },
+      'seg-ccc': { text: 'Deux', sourceHash: getSourceHash('Two') }
+    });
+
+    expect(translations).toEqual({ 'seg-aaa': { text: 'Un', sourceHash: getSourceHash('One') } });
+    expect(moved).toEqual([]);
+  });
+
+  it('maps legacy positional ids, skipping images', () => {
+    const { translations, moved } = matchSavedTranslations<Saved>(SEGMENTS, {
+      'seg-1': { text: 'Un' },
+      'seg-2': { text: 'Image' },
+      'seg-3': { text: 'Trois' }
+    });
+
+    expect(translations).toEqual({ 'seg-aaa': { text: 'Un' }, 'seg-ccc': { text: 'Trois' } });
+    expect(moved).toEqual([{ from: 'seg-1', to: 'seg-aaa' }, { from: 'seg-3', to: 'seg-ccc' }]);
+  });
+
+  it('moves a translation to the segment with the same source text', () => {
+    const saved = { 'seg-zzz': { text: 'Trois', sourceHash: getSourceHash('Three') } };
+
+    expect(matchSavedTranslations(SEGMENTS, saved)).toEqual({
+      translations: { 'seg-ccc': saved['seg-zzz'] },
+      moved: [{ from: 'seg-zzz', to: 'seg-ccc' }]
+    });
+  });
+});
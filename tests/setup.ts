@@ -0,0 +1,8 @@
+import 'fake-indexeddb/auto';
+import { vi } from 'vitest';
+
+// jsdom has no object URLs; covers and images only need a placeholder
+if (!URL.createObjectURL) {
+  URL.createObjectURL = vi.fn(() => 'blob:fixture');
+  URL.revokeObjectURL = vi.fn();
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonStreamParser } from '../services/streamingJson';
+
+// Feeds the text in chunks of `size` characters and records values as they are reported
+const feed = (text: string, size: number) => {
+  const reported: unknown[][] = [];
+  const values: unknown[] = [];
+  const parser = createJsonStreamParser(value => values.push(value));
+  for (let i = 0; i < text.length; i += size) {
+    parser.push(text.slice(i, i + size));
+    reported.push([...values]);
+  }
+  return { parser, values, reported };
+};
+
+describe('createJsonStreamParser', () => {
+  it('reports array elements as soon as each one is complete', () => {
+    const text = '[{"id":"seg-1","text":"One"},{"id":"seg-2","text":"Two"}]';
+    const { parser, reported } = feed(text, 1);
+
+    const firstClosed = text.indexOf('}');
+    expect(reported[firstClosed - 1]).toEqual([]);
+    expect(reported[firstClosed]).toEqual([{ id: 'seg-1', text: 'One' }]);
+    expect(parser.end()).toEqual([{ id: 'seg-1', text: 'One' }, { id: 'seg-2', text: 'Two' }]);
+  });
+
+  it('is not fooled by brackets, quotes and escapes inside strings', () => {
+    const items = [{ id: 'a', text: 'He said "}]" \\ then {left}' }, { id: 'b', text: '[x]' }];
+    const { parser } = feed(JSON.stringify(items), 3);
+
+    expect(parser.end()).toEqual(items);
+  });
+
+  it('skips a markdown fence and anything after the array', () => {
+    const { parser } = feed('```json\n[{"id":"a","text":"A"}]\n```\n{"id":"late","text":"ignored"}', 5);
+
+    expect(parser.end()).toEqual([{ id: 'a', text: 'A' }]);
+  });
+
+  it('accepts newline-delimited objects', () => {
+    const { parser } = feed('{"id":"a","text":"A"}\n{"id":"b","text":"B"}\n', 4);
+
+    expect(parser.end()).toEqual([{ id: 'a', text: 'A' }, { id: 'b', text: 'B' }]);
+  });
+
+  it('keeps going past a malformed element', () => {
+    const { parser } = feed('[{"id":"a",text:"A"},{"id":"b","text":"B"}]', 7);
+
+    expect(parser.end()).toEqual([{ id: 'b', text: 'B' }]);
+  });
+
+  it('throws when the reply contains no JSON', () => {
+    const { parser } = feed('Sorry, I cannot help with that.', 10);
+
+    expect(() => parser.end()).toThrow('No JSON found');
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { db, BookTranslationJob } from '../services/db';
+import { registerProvider } from '../services/providers';
+import { translationQueue } from '../services/translationQueue';
+import { AISettings, TargetLanguage, TranslationItem, TranslationProvider } from '../types';
+import { buildEpub } from './epubFixture';
+
+const SETTINGS: AISettings = { provider: 'test-queue', apiKey: '', baseUrl: '', model: 'test' };
+
+// Translates to upper case, leaving out any text in `failing`
+const failing = new Set<string>();
+const provider: TranslationProvider = {
+  id: 'test-queue',
+  label: 'Test',
+  capabilities: {
+    jsonMode: false,
+    streaming: false,
+    maxBatchTokens: 1000,
+    rateLimits: { concurrency: 1, requestsPerMinute: 0, tokensPerMinute: 0 },
+    billing: 'characters'
+  },
+  settingsSchema: [],
+  defaults: {},
+  translate: async (items: TranslationItem[]) => ({
+    items: items.filter(item => !failing.has(item.text)).map(item => ({ id: item.id, text: item.text.toUpperCase() }))
+  })
+};
+
+// Resolves with the job once its run has ended
+const runToEnd = (bookId: string) => new Promise<BookTranslationJob>(resolve => {
+  const unsubscribe = translationQueue.subscribe(bookId, job => {
+    if (job.status === 'running') return;
+    unsubscribe();
+    resolve(job);
+  });
+  translationQueue.start(bookId, TargetLanguage.FRENCH, SETTINGS);
+});
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  registerProvider(provider);
+  failing.clear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  const epub = await buildEpub({
+    chapters: [
+      { id: 'c1', href: 'c1.xhtml', body: '<p>One.</p><p>Two.</p>' },
+      { id: 'c2', href: 'c2.xhtml', body: '<p>Three.</p>' }
+    ]
+  });
+  // jsdom's Blob does not survive fake-indexeddb, so the file is not stored
+  vi.spyOn(db, 'getBookFile').mockResolvedValue(epub);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('translationQueue', () => {
+  it('ends incomplete when segments failed, and retries just those when resumed', async () => {
+    failing.add('Two.');
+    const incomplete = await runToEnd('b1');
+
+    expect(incomplete.status).toBe('incomplete');
+    expect(incomplete.error).toBe('1 segment could not be translated.');
+    expect(Object.values(incomplete.chapters).map(c => [c.translated, c.failed])).toEqual([[1, 1], [1, 0]]);
+
+    failing.clear();
+    const translate = vi.spyOn(provider, 'translate');
+    const completed = await runToEnd('b1');
+
+    expect(completed.status).toBe('completed');
+    expect(completed.error).toBeUndefined();
+    expect(translate.mock.calls.map(([items]) => items.map(item => item.text))).toEqual([['Two.']]);
+  });
+});
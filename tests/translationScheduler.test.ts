@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, delay, estimateTokens, getRateLimits, packBatches, runConcurrently } from '../services/translationScheduler';
+import { switchProvider } from '../services/providers';
+import { AISettings, RateLimits } from '../types';
+
+const GEMINI: AISettings = { provider: 'gemini', apiKey: 'test-key', baseUrl: '', model: 'gemini-2.5-flash' };
+
+const limits = (overrides: Partial<RateLimits>): RateLimits => ({
+  concurrency: 1, requestsPerMinute: 0, tokensPerMinute: 0, ...overrides
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('estimateTokens', () => {
+  it('counts about four Latin characters per token and one per CJK character', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('日本語の本')).toBe(5);
+    expect(estimateTokens('')).toBe(0);
+  });
+});
+
+describe('delay', () => {
+  it('stops listening to the signal once the wait is over', async () => {
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await delay(1, controller.signal);
+    await delay(1, controller.signal);
+    expect(remove).toHaveBeenCalledTimes(2);
+
+    const waiting = delay(1000, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow('Aborted');
+  });
+});
+
+describe('packBatches', () => {
+  const text = (tokens: number) => 'x'.repeat(tokens * 4);
+
+  it('fills batches up to the token budget, in order', () => {
+    const batches = packBatches([text(40), text(50), text(20), text(30)], t => t, 100);
+
+    expect(batches.map(batch => batch.map(estimateTokens))).toEqual([[40, 50], [20, 30]]);
+  });
+
+  it('caps the number of entries per batch', () => {
+    const batches = packBatches(Array.from({ length: 7 }, () => 'Hi'), t => t, 1000, 3);
+
+    expect(batches.map(batch => batch.length)).toEqual([3, 3, 1]);
+  });
+
+  it('gives an entry over the budget a batch of its own', () => {
+    const batches = packBatches([text(10), text(500), text(10)], t => t, 100);
+
+    expect(batches.map(batch => batch.length)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('getRateLimits', () => {
+  it('overrides the provider defaults with values from the settings', () => {
+    const settings = { ...GEMINI, options: { concurrency: '5', requestsPerMinute: '', tokensPerMinute: 'lots' } };
+
+    expect(getRateLimits(settings)).toEqual({ concurrency: 5, requestsPerMinute: 10, tokensPerMinute: 250000 });
+  });
+
+  it('keeps limits per provider', () => {
+    const gemini = { ...GEMINI, options: { requestsPerMinute: '100' } };
+    const ollama = switchProvider(gemini, 'ollama');
+
+    expect(getRateLimits(ollama).requestsPerMinute).toBe(0);
+    expect(getRateLimits(switchProvider(ollama, 'gemini')).requestsPerMinute).toBe(100);
+  });
+
+  it('runs at least one request at a time', () => {
+    expect(getRateLimits({ ...GEMINI, options: { concurrency: '0' } }).concurrency).toBe(1);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('holds requests over the per-minute limit until the window moves on', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter();
+    const rpm = limits({ requestsPerMinute: 2 });
+
+    await limiter.acquire(1, rpm);
+    await vi.advanceTimersByTimeAsync(10000);
+    await limiter.acquire(1, rpm);
+
+    let started = false;
+    limiter.acquire(1, rpm).then(() => { started = true; });
+    await vi.advanceTimersByTimeAsync(49999);
+    expect(started).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toBe(true);
+  });
+
+  it('holds requests that would exceed the token budget', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter();
+    const tpm = limits({ tokensPerMinute: 1000 });
+
+    await limiter.acquire(600, tpm);
+    let started = false;
+    limiter.acquire(600, tpm).then(() => { started = true; });
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(started).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toBe(true);
+  });
+
+  it('lets a request larger than the budget through when nothing else ran', async () => {
+    const limiter = createRateLimiter();
+
+    await expect(limiter.acquire(5000, limits({ tokensPerMinute: 1000 }))).resolves.toBeUndefined();
+  });
+
+  it('pauses every caller after a backoff, and extends it once for requests failing together', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter();
+
+    expect(limiter.backOff()).toBe(2000);
+    expect(limiter.backOff()).toBe(2000);
+
+    let started = 0;
+    limiter.acquire(1, limits({})).then(() => { started++; });
+    limiter.acquire(1, limits({})).then(() => { started++; });
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toBe(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toBe(2);
+
+    // The next rate limit waits longer, until a request succeeds
+    expect(limiter.backOff()).toBe(3000);
+    await vi.advanceTimersByTimeAsync(3000);
+    limiter.succeeded();
+    expect(limiter.backOff()).toBe(2000);
+  });
+
+  it('stops waiting when aborted', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter();
+    const controller = new AbortController();
+    limiter.backOff();
+
+    const pending = limiter.acquire(1, limits({}), controller.signal);
+    const assertion = expect(pending).rejects.toThrow('Aborted');
+    controller.abort();
+
+    await assertion;
+  });
+});
+
+describe('runConcurrently', () => {
+  // Resolvable promises, one per input, so the test controls when each task finishes
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+  };
+
+  it('keeps at most `concurrency` tasks in flight and starts them in order', async () => {
+    const tasks = Array.from({ length: 4 }, deferred);
+    const started: number[] = [];
+
+    const run = runConcurrently(tasks, 2, (task, index) => {
+      started.push(index);
+      return task.promise;
+    });
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+    tasks[1].resolve();
+    await vi.waitFor(() => expect(started).toEqual([0, 1, 2]));
+    tasks.forEach(task => task.resolve());
+
+    await run;
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('starts nothing new after a failure and rejects once running tasks finish', async () => {
+    const slow = deferred();
+    const started: number[] = [];
+    let slowFinished = false;
+
+    const run = runConcurrently([0, 1, 2, 3], 2, async (input) => {
+      started.push(input);
+      if (input === 0) {
+        await slow.promise;
+        slowFinished = true;
+      }
+      if (input === 1) throw new Error('Broken');
+    });
+    const assertion = expect(run).rejects.toThrow('Broken').then(() => expect(slowFinished).toBe(true));
+
+    await Promise.resolve();
+    slow.resolve();
+
+    await assertion;
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCost, estimateUsage, getPrice, setPrice } from '../services/usage';
+import { AISettings } from '../types';
+
+const GEMINI: AISettings = { provider: 'gemini', apiKey: '', baseUrl: '', model: 'gemini-2.5-flash' };
+const DEEPL: AISettings = { provider: 'deepl', apiKey: 'key:fx', baseUrl: '', model: '' };
+
+const usage = (inputTokens: number, outputTokens: number, characters = 0) => ({ inputTokens, outputTokens, characters, requests: 1 });
+
+describe('prices', () => {
+  it('are kept per provider and model', () => {
+    let settings = setPrice(GEMINI, 'input', '0.3');
+    settings = setPrice(settings, 'output', '2.5');
+    settings = setPrice({ ...settings, model: 'gemini-2.5-pro' }, 'input', '1.25');
+
+    expect(getPrice(settings, 'gemini', 'gemini-2.5-flash')).toEqual({ input: '0.3', output: '2.5' });
+    expect(getPrice(settings, 'gemini', 'gemini-2.5-pro')).toEqual({ input: '1.25' });
+  });
+});
+
+describe('calculateCost', () => {
+  it('prices tokens and characters per million', () => {
+    expect(calculateCost(usage(2000000, 500000), { input: '0.3', output: '2.5' })).toBeCloseTo(1.85);
+    expect(calculateCost(usage(0, 0, 250000), { characters: '20' })).toBeCloseTo(5);
+  });
+
+  it('is unknown when a needed price is missing', () => {
+    expect(calculateCost(usage(100, 100), { input: '0.3' })).toBeUndefined();
+    expect(calculateCost(usage(100, 100))).toBeUndefined();
+    // Output price not needed without output tokens
+    expect(calculateCost(usage(1000000, 0), { input: '0.3' })).toBeCloseTo(0.3);
+  });
+});
+
+describe('estimateUsage', () => {
+  const texts = Array.from({ length: 40 }, () => 'x'.repeat(400)); // 100 tokens each
+
+  it('estimates one request per batch with a reply as long as the source', () => {
+    const estimate = estimateUsage(texts, GEMINI);
+
+    expect(estimate.requests).toBe(2); // 30 segments, then 10
+    expect(estimate.outputTokens).toBe(4000);
+    expect(estimate.inputTokens).toBe(4000 + 2 * 600);
+  });
+
+  it('adds the summary requests between batches', () => {
+    const estimate = estimateUsage(texts, { ...GEMINI, chapterSummary: true });
+
+    expect(estimate.requests).toBe(3);
+    expect(estimate.inputTokens).toBeGreaterThan(estimateUsage(texts, GEMINI).inputTokens);
+  });
+
+  it('counts characters for services billed by character', () => {
+    expect(estimateUsage(['Hello', 'World!'], DEEPL)).toEqual({ inputTokens: 0, outputTokens: 0, characters: 11, requests: 1 });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCard, defineWord, DefinitionRequest, exportAnkiTsv, getDueCards, getWordContext, getWordRange, scheduleReview } from '../services/vocabulary';
+import { registerProvider } from '../services/providers';
+import { AISettings, TargetLanguage, TranslationProvider } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const fakeProvider = (id: string, overrides: Partial<TranslationProvider>): TranslationProvider => ({
+  id,
+  label: id,
+  capabilities: {
+    jsonMode: false,
+    streaming: false,
+    maxBatchTokens: 1000,
+    rateLimits: { concurrency: 0, requestsPerMinute: 0, tokensPerMinute: 0 },
+    billing: 'tokens'
+  },
+  settingsSchema: [],
+  defaults: {},
+  translate: vi.fn(),
+  ...overrides
+});
+
+const settings = (provider: string): AISettings => ({ provider, apiKey: '', baseUrl: '', model: '' });
+
+const card = (fields: Partial<Parameters<typeof createCard>[0]> = {}, now = 0) => createCard({
+  bookId: 'b1',
+  bookTitle: 'Le Petit Prince',
+  chapterHref: 'OEBPS/c1.xhtml',
+  segmentId: 'seg-1',
+  side: 'original',
+  word: 'renard',
+  context: 'Bonjour, dit le renard.',
+  definition: 'fox',
+  targetLanguage: TargetLanguage.SPANISH,
+  ...fields
+}, now);
+
+const request: DefinitionRequest = {
+  word: 'renard',
+  context: 'Bonjour, dit le renard.',
+  side: 'original',
+  parallel: 'Buenos días, dijo el zorro.',
+  targetLanguage: TargetLanguage.SPANISH,
+  book: { title: 'Le Petit Prince', creator: 'Saint-Exupéry', language: 'fr' }
+};
+
+describe('scheduleReview', () => {
+  it('follows the SM-2 intervals for correct answers', () => {
+    let review = card().review;
+    const intervals: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      review = scheduleReview(review, 'good', 0);
+      intervals.push(review.interval);
+    }
+
+    expect(intervals).toEqual([1, 6, 15, 38]);
+    expect(review.ease).toBeCloseTo(2.5);
+    expect(review.due).toBe(38 * DAY);
+  });
+
+  it('starts a forgotten card over and makes it harder, down to the minimum ease', () => {
+    let review = scheduleReview(scheduleReview(card().review, 'good', 0), 'good', 0);
+    review = scheduleReview(review, 'again', 0);
+
+    expect(review).toMatchObject({ interval: 1, repetitions: 0, due: DAY });
+    expect(review.ease).toBeCloseTo(1.96);
+    for (let i = 0; i < 10; i++) review = scheduleReview(review, 'again', 0);
+    expect(review.ease).toBe(1.3);
+  });
+
+  it('stretches easy cards more than hard ones', () => {
+    const learned = scheduleReview(scheduleReview(card().review, 'good', 0), 'good', 0);
+
+    expect(scheduleReview(learned, 'easy', 0).interval).toBeGreaterThan(scheduleReview(learned, 'hard', 0).interval);
+  });
+});
+
+describe('getDueCards', () => {
+  it('returns cards due by now, the longest overdue first', () => {
+    const later = card({ word: 'later' }, 5 * DAY);
+    const old = card({ word: 'old' }, DAY);
+    const recent = card({ word: 'recent' }, 2 * DAY);
+
+    expect(getDueCards([later, recent, old], 3 * DAY).map(c => c.word)).toEqual(['old', 'recent']);
+  });
+});
+
+describe('getWordContext', () => {
+  const text = 'Il était une fois. « Bonjour », dit le renard! Puis il partit.';
+
+  it('returns the sentence around the selection and where the word sits in it', () => {
+    const start = text.indexOf('renard');
+    expect(getWordContext(text, [start, start + 6])).toEqual({ context: '« Bonjour », dit le renard!', wordRange: [20, 26] });
+  });
+
+  it('leaves spaces around the selection out of the word', () => {
+    const start = text.indexOf(' renard');
+    expect(getWordContext(text, [start, start + 7]).wordRange).toEqual([20, 26]);
+  });
+
+  it('keeps closing quotes and spans sentences the selection crosses', () => {
+    const quoted = 'He said "Go." Then he left. It rained.';
+    expect(getWordContext(quoted, [9, 11]).context).toBe('He said "Go."');
+    expect(getWordContext(quoted, [19, 30])).toEqual({ context: 'Then he left. It rained.', wordRange: [5, 16] });
+  });
+
+  it('splits on full-width stops without spaces', () => {
+    const japanese = '猫がいる。犬もいる。';
+    expect(getWordContext(japanese, [5, 6])).toEqual({ context: '犬もいる。', wordRange: [0, 1] });
+  });
+});
+
+describe('getWordRange', () => {
+  it('prefers the saved offsets', () => {
+    expect(getWordRange({ word: 'cat', context: 'The cat saw a cat.', wordRange: [14, 17] })).toEqual([14, 17]);
+  });
+
+  it('finds whole words ignoring case on older cards, then any match', () => {
+    expect(getWordRange({ word: 'cat', context: 'Concatenate? Cat!' })).toEqual([13, 16]);
+    expect(getWordRange({ word: 'été', context: 'Un bel Été.' })).toEqual([7, 10]);
+    expect(getWordRange({ word: '犬', context: '犬もいる。' })).toEqual([0, 1]);
+    expect(getWordRange({ word: 'dog', context: 'A cat.' })).toBeUndefined();
+  });
+});
+
+describe('defineWord', () => {
+  it('asks a completion-capable provider with the sentence and reports usage', async () => {
+    const complete = vi.fn().mockResolvedValue({ text: ' zorro: the animal. \n', usage: { inputTokens: 50, outputTokens: 10, characters: 0, requests: 1 } });
+    registerProvider(fakeProvider('test-llm', { complete }));
+    const onUsage = vi.fn();
+
+    expect(await defineWord(request, settings('test-llm'), undefined, onUsage)).toBe('zorro: the animal.');
+    const prompt: string = complete.mock.calls[0][0];
+    expect(prompt).toContain('"renard"');
+    expect(prompt).toContain('Bonjour, dit le renard.');
+    expect(prompt).toContain('Buenos días, dijo el zorro.');
+    expect(prompt).toContain('in Spanish');
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 50, outputTokens: 10, characters: 0, requests: 1 });
+  });
+
+  it('explains words from the translation in the book language', async () => {
+    const complete = vi.fn().mockResolvedValue({ text: 'renard' });
+    registerProvider(fakeProvider('test-llm', { complete }));
+
+    await defineWord({ ...request, word: 'zorro', side: 'translation' }, settings('test-llm'));
+    expect(complete.mock.calls[0][0]).toContain('the language of the original text (fr)');
+  });
+
+  it('falls back to translating the word with machine translation providers', async () => {
+    const translate = vi.fn().mockResolvedValue({ items: [{ id: 'word', text: 'zorro' }] });
+    registerProvider(fakeProvider('test-mt', { translate }));
+
+    expect(await defineWord(request, settings('test-mt'))).toBe('zorro');
+    expect(translate.mock.calls[0][0]).toEqual([{ id: 'word', text: 'renard' }]);
+    await expect(defineWord({ ...request, side: 'translation' }, settings('test-mt'))).rejects.toThrow('only look up words from the original');
+  });
+});
+
+describe('exportAnkiTsv', () => {
+  it('writes a header and one HTML row per card with the word in bold', () => {
+    const tsv = exportAnkiTsv([card({ definition: 'fox <noun>\n(animal)\twild' })]);
+    const lines = tsv.trimEnd().split('\n');
+
+    expect(lines.slice(0, 4)).toEqual(['#separator:tab', '#html:true', '#columns:Word\tDefinition\tContext\tSource\tTags', '#tags column:5']);
+    expect(lines[4].split('\t')).toEqual([
+      'renard',
+      'fox &lt;noun&gt;<br>(animal) wild',
+      'Bonjour, dit le <b>renard</b>.',
+      'Le Petit Prince',
+      'lingobinder Le_Petit_Prince'
+    ]);
+  });
+
+  it('bolds only the selected occurrence, escaped', () => {
+    const tsv = exportAnkiTsv([
+      card({ word: 'cat', context: 'A cat & a cat.', wordRange: [10, 13] }),
+      card({ word: 'Cat', context: 'Concatenate <cat> ideas.' })
+    ]);
+    const contexts = tsv.trimEnd().split('\n').slice(4).map(line => line.split('\t')[2]);
+
+    expect(contexts).toEqual(['A cat &amp; a <b>cat</b>.', 'Concatenate &lt;<b>cat</b>&gt; ideas.']);
+  });
+});
@@ -4,8 +4,12 @@ export interface Segment {
   type: 'text' | 'image';
   tagName: string; // p, h1, h2, div, img, etc.
   originalText: string; // Text content for text segments, alt text for images
+  originalHtml?: string; // Sanitized inline markup (em, strong, a, ruby...), only when present
   imageUrl?: string;    // Blob URL for images
   translatedText?: string;
+  translatedHtml?: string; // Translation with the source's inline markup, when it validated
+  anchors?: string[];   // Element ids inside this segment, used to resolve #fragment links
+  isEdited?: boolean;   // Translation written by hand; chapter retranslation leaves it alone
   isLoading: boolean;
 }
 
@@ -33,6 +37,8 @@ export interface ParsedBook {
   coverUrl?: string;
   chapters: ChapterRef[];
   toc: TocItem[]; // Hierarchical Table of Contents
+  landmarks: TocItem[]; // EPUB 3 landmarks nav (e.g. "Start of content")
+  pageList: TocItem[]; // EPUB 3 page-list nav (printed page numbers)
 }
 
 export interface LibraryBook {
@@ -41,6 +47,9 @@ export interface LibraryBook {
   author: string;
   cover?: Blob;
   addedAt: number;
+  lastOpenedAt?: number; // Missing for books never opened
+  shelves: string[]; // User-defined collections the book belongs to
+  tags: string[];
 }
 
 export enum TargetLanguage {
@@ -56,13 +65,188 @@ export enum TargetLanguage {
   HINDI = 'Hindi'
 }
 
-export type AIProvider = 'gemini' | 'openai';
+// BCP 47 tags for each target language (EPUB dc:language, lang attributes)
+export const TARGET_LANGUAGE_CODES: Record<TargetLanguage, string> = {
+  [TargetLanguage.SPANISH]: 'es',
+  [TargetLanguage.FRENCH]: 'fr',
+  [TargetLanguage.GERMAN]: 'de',
+  [TargetLanguage.CHINESE]: 'zh-Hans',
+  [TargetLanguage.JAPANESE]: 'ja',
+  [TargetLanguage.KOREAN]: 'ko',
+  [TargetLanguage.ITALIAN]: 'it',
+  [TargetLanguage.PORTUGUESE]: 'pt',
+  [TargetLanguage.RUSSIAN]: 'ru',
+  [TargetLanguage.HINDI]: 'hi'
+};
+
+// Id of a registered translation provider (see services/providers)
+export type AIProvider = string;
+
+// Values of a provider's settings form, keyed by field
+export type ProviderSettingsValues = Record<string, string>;
 
 export interface AISettings {
   provider: AIProvider;
-  apiKey: string; // For OpenAI / Custom
-  baseUrl: string; // For OpenAI / Custom
+  apiKey: string;
+  baseUrl: string;
   model: string;
+  options?: ProviderSettingsValues; // Provider-specific fields beyond key, URL and model
+  savedProviders?: Record<AIProvider, ProviderSettingsValues>; // Remembered values of the other providers
+  chapterSummary?: boolean; // Keep a running chapter summary (one extra request per batch)
+  streaming?: boolean; // Show segments as they arrive, where the provider can stream (on unless false)
+  prices?: Record<string, ModelPrice>; // Keyed by "provider:model"
+}
+
+// USD per million units, as typed into the settings; empty when unknown
+export interface ModelPrice {
+  input?: string; // Prompt tokens
+  output?: string; // Reply tokens
+  characters?: string; // Source characters, for services billed by character
+}
+
+// What requests cost; token counts as reported by the provider
+export interface UsageCounts {
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  requests: number;
+}
+
+export interface ProviderSettingField {
+  key: string; // 'apiKey', 'baseUrl' and 'model' map onto AISettings, anything else onto AISettings.options
+  label: string;
+  type: 'text' | 'password' | 'url' | 'select';
+  placeholder?: string;
+  choices?: { value: string; label: string }[]; // For 'select'
+  optional?: boolean;
+}
+
+// Request pacing for one provider; 0 means no limit
+export interface RateLimits {
+  concurrency: number; // Batches in flight at once
+  requestsPerMinute: number;
+  tokensPerMinute: number; // Estimated prompt and reply tokens
+}
+
+export interface ProviderCapabilities {
+  jsonMode: boolean; // Can be constrained to return a JSON array
+  streaming: boolean;
+  maxBatchTokens: number; // Rough input budget for one batch request
+  rateLimits: RateLimits; // Defaults, overridable per provider in the settings
+  billing: 'tokens' | 'characters';
+}
+
+// One segment sent to (or returned by) a provider, matched up by id
+export interface TranslationItem {
+  id: string;
+  text: string;
+  markup?: boolean; // `text` is inline HTML rather than plain text (requests only)
+}
+
+// A provider's raw reply elements, with usage when the API reports it
+export interface TranslationReply {
+  items: unknown[];
+  usage?: UsageCounts;
+}
+
+export interface CompletionReply {
+  text: string;
+  usage?: UsageCounts;
+}
+
+export interface TranslationProvider {
+  id: AIProvider;
+  label: string;
+  notice?: string; // Shown above the settings form
+  capabilities: ProviderCapabilities;
+  settingsSchema: ProviderSettingField[];
+  defaults: ProviderSettingsValues;
+  // Returns the raw reply; it may drop, repeat or invent ids and is validated by the caller
+  translate: (
+    items: TranslationItem[],
+    targetLanguage: TargetLanguage,
+    settings: AISettings,
+    signal?: AbortSignal,
+    context?: TranslationContext
+  ) => Promise<TranslationReply>;
+  // Same as translate, but reports each reply element as soon as it has arrived
+  translateStream?: (
+    items: TranslationItem[],
+    targetLanguage: TargetLanguage,
+    settings: AISettings,
+    onItem: (item: unknown) => void,
+    signal?: AbortSignal,
+    context?: TranslationContext
+  ) => Promise<TranslationReply>;
+  // Free-form prompt completion; machine translation services leave it out
+  complete?: (prompt: string, settings: AISettings, signal?: AbortSignal) => Promise<CompletionReply>;
+}
+
+export interface GlossaryEntry {
+  id: string;
+  source: string; // Term as it appears in the book
+  target: string; // Required translation
+  notes?: string;
+}
+
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export type AnnotationSide = 'original' | 'translation';
+
+// A highlight (optionally with a note) or a bookmark on one segment
+export interface Annotation {
+  id: string; // Composite key: bookId_uuid
+  bookId: string;
+  chapterHref: string;
+  segmentId: string;
+  kind: 'highlight' | 'bookmark';
+  side?: AnnotationSide; // Highlights only
+  range?: [number, number]; // Highlights only: offsets into that side's text
+  text: string; // The highlighted text, or the start of a bookmarked segment
+  color?: AnnotationColor;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// SM-2 scheduling state of a vocabulary card
+export interface CardReview {
+  due: number; // Timestamp the card is next shown
+  interval: number; // Days until the next review after a correct answer
+  repetitions: number; // Correct answers in a row
+  ease: number; // Interval multiplier, from 1.3 up
+  lastReviewedAt?: number;
+}
+
+// A word or phrase saved from the reader, with its meaning in context
+export interface VocabularyCard {
+  id: string;
+  bookId: string;
+  bookTitle: string; // Kept so the card still names its source after the book is removed
+  chapterHref: string;
+  segmentId: string;
+  side: AnnotationSide; // Column the word was selected in
+  word: string;
+  context: string; // The sentence it appeared in
+  wordRange?: [number, number]; // The selected word's offsets in `context` (missing on older cards)
+  definition: string;
+  targetLanguage: TargetLanguage;
+  review: CardReview;
+  createdAt: number;
+}
+
+export interface ContextSegment {
+  original: string;
+  translated?: string;
+}
+
+// Book-level information sent along with each batch
+export interface TranslationContext {
+  glossary?: GlossaryEntry[];
+  book?: BookMetadata;
+  precedingSegments?: ContextSegment[]; // Read-only context right before the batch
+  chapterSummary?: string; // Running summary of the chapter so far
+  instruction?: string; // Reader's wish for a single retranslation, e.g. "more formal"
 }
 
 // Gemini API Types